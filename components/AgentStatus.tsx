@@ -3,8 +3,10 @@ import React, { useState, useEffect } from 'react'
 import { Card } from './ui/card'
 import { Badge } from './ui/badge'
 import { Alert, AlertDescription } from './ui/alert'
-import { CheckCircle, Clock, AlertTriangle, Settings, Key } from 'lucide-react'
+import { Button } from './ui/button'
+import { CheckCircle, Clock, AlertTriangle, Settings, Key, Copy } from 'lucide-react'
 import { hyperliquidAgent } from '@/service/hyperLiquidAgent'
+import { useNetworkConfig } from '@/lib/network'
 
 interface AgentStatusProps {
   userAddress: string | undefined
@@ -17,20 +19,44 @@ export function AgentStatus({ userAddress, isConnected }: AgentStatusProps) {
     approved: boolean
     address?: string
   }>({ exists: false, approved: false })
+  const [keyCopied, setKeyCopied] = useState(false)
+  const { network } = useNetworkConfig()
 
   useEffect(() => {
-    if (userAddress && isConnected) {
-      // Check if agent exists
-      const agent = hyperliquidAgent.loadAgent(userAddress)
+    if (!userAddress || !isConnected) {
+      setAgentStatus({ exists: false, approved: false })
+      return
+    }
+
+    // Check if agent exists; its key is decrypted on load
+    let cancelled = false
+    hyperliquidAgent.loadAgent(userAddress).then(agent => {
+      if (cancelled) return
       setAgentStatus({
         exists: !!agent,
         approved: agent?.isApproved || false,
         address: agent?.address
       })
-    } else {
-      setAgentStatus({ exists: false, approved: false })
+    })
+    return () => {
+      cancelled = true
     }
-  }, [userAddress, isConnected])
+  }, [userAddress, isConnected, network]) // Agents are stored per network
+
+  // The key is only stored encrypted, so this is how scripts/keeper.mjs gets it
+  const handleCopyKey = async (): Promise<void> => {
+    if (!userAddress) return
+    if (!window.confirm('Copy the agent private key for the keeper? Anyone holding it can trade (but not withdraw) on your account.')) return
+    try {
+      const privateKey = await hyperliquidAgent.exportAgentKey(userAddress)
+      if (!privateKey) return
+      await navigator.clipboard.writeText(privateKey)
+      setKeyCopied(true)
+      setTimeout(() => setKeyCopied(false), 2000)
+    } catch (error) {
+      console.error('❌ Failed to copy agent key:', error)
+    }
+  }
 
   if (!isConnected || !userAddress) {
     return null
@@ -76,8 +102,16 @@ export function AgentStatus({ userAddress, isConnected }: AgentStatusProps) {
         </div>
 
         {agentStatus.address && (
-          <div className="text-xs text-slate-500 font-mono">
-            {agentStatus.address.slice(0, 6)}...{agentStatus.address.slice(-4)}
+          <div className="flex flex-col items-end space-y-1">
+            <div className="text-xs text-slate-500 font-mono">
+              {agentStatus.address.slice(0, 6)}...{agentStatus.address.slice(-4)}
+            </div>
+            {agentStatus.approved && (
+              <Button variant="link" size="sm" onClick={handleCopyKey} className="h-auto p-0 text-xs text-slate-400 hover:text-slate-300">
+                <Copy className="w-3 h-3 mr-1" />
+                {keyCopied ? 'Copied' : 'Copy key for keeper'}
+              </Button>
+            )}
           </div>
         )}
       </div>
@@ -1,8 +1,19 @@
 // src/components/AssetSelector.tsx
+import { useMemo, useState } from 'react'
 import { Button } from './ui/button'
 import { Badge } from './ui/badge'
 import { TrendingUp, TrendingDown, Zap } from 'lucide-react'
 import { Asset } from '@/lib/types'
+import { AssetSortKey, formatCompactUsd, sortAssets } from '@/lib/utils'
+
+const SORT_OPTIONS: { key: AssetSortKey; label: string }[] = [
+  { key: 'volume', label: 'Volume' },
+  { key: 'openInterest', label: 'Open Interest' },
+  { key: 'volatility', label: 'Volatility' },
+  { key: 'leverage', label: 'Leverage' },
+]
+
+const DEFAULT_VISIBLE = 20
 
 interface AssetSelectorProps {
   assets: Asset[]
@@ -12,6 +23,13 @@ interface AssetSelectorProps {
 }
 
 export function AssetSelector({ assets, selectedAsset, onAssetSelect, disabled }: AssetSelectorProps) {
+  const [sortBy, setSortBy] = useState<AssetSortKey>('volume')
+  const [showAll, setShowAll] = useState(false)
+
+  const sortedAssets = useMemo(() => sortAssets(assets, sortBy), [assets, sortBy])
+  const visibleAssets = showAll ? sortedAssets : sortedAssets.slice(0, DEFAULT_VISIBLE)
+  const sortLabel = SORT_OPTIONS.find(option => option.key === sortBy)?.label
+
   if (assets.length === 0) {
     return (
       <div className="space-y-4">
@@ -26,12 +44,25 @@ export function AssetSelector({ assets, selectedAsset, onAssetSelect, disabled }
   return (
     <div className="space-y-4">
       <h3 className="text-lg font-semibold text-white">Select Asset</h3>
-      <div className="text-sm text-slate-400">
-        Top {assets.length} assets by maximum leverage
+      <div className="flex flex-wrap gap-2">
+        {SORT_OPTIONS.map(option => (
+          <Button
+            key={option.key}
+            size="sm"
+            variant={sortBy === option.key ? 'default' : 'outline'}
+            className={sortBy === option.key
+              ? 'bg-blue-600 hover:bg-blue-700 border-blue-500 text-white'
+              : 'bg-slate-800/50 hover:bg-slate-700/50 border-slate-700 text-slate-300'
+            }
+            onClick={() => setSortBy(option.key)}
+          >
+            {option.label}
+          </Button>
+        ))}
       </div>
 
       <div className="grid grid-cols-1 gap-2 max-h-80 overflow-y-auto">
-        {assets.map((asset) => (
+        {visibleAssets.map((asset) => (
           <Button
             key={asset.id}
             variant={selectedAsset?.id === asset.id ? "default" : "outline"}
@@ -49,6 +80,15 @@ export function AssetSelector({ assets, selectedAsset, onAssetSelect, disabled }
               <div className="text-left">
                 <div className="font-semibold text-white">{asset.symbol}</div>
                 <div className="text-sm text-slate-300">{asset.name}</div>
+                <div className="text-xs text-slate-400 space-x-2">
+                  {asset.volume24h !== undefined && <span>Vol {formatCompactUsd(asset.volume24h)}</span>}
+                  {asset.openInterest !== undefined && <span>OI {formatCompactUsd(asset.openInterest)}</span>}
+                  {asset.fundingRate !== undefined && (
+                    <span className={asset.fundingRate >= 0 ? 'text-green-400' : 'text-red-400'}>
+                      Fund {(asset.fundingRate * 100).toFixed(4)}%
+                    </span>
+                  )}
+                </div>
               </div>
             </div>
 
@@ -88,13 +128,30 @@ export function AssetSelector({ assets, selectedAsset, onAssetSelect, disabled }
                   {asset.change24h >= 0 ? '+' : ''}{asset.change24h.toFixed(1)}%
                 </Badge>
               </div>
+
+              {asset.markPrice !== undefined && asset.oraclePrice !== undefined && (
+                <div className="text-xs font-mono text-slate-400">
+                  Mark {asset.markPrice} • Oracle {asset.oraclePrice}
+                </div>
+              )}
             </div>
           </Button>
         ))}
       </div>
 
+      {sortedAssets.length > DEFAULT_VISIBLE && (
+        <Button
+          variant="ghost"
+          size="sm"
+          className="w-full text-slate-400 hover:text-white"
+          onClick={() => setShowAll(!showAll)}
+        >
+          {showAll ? `Show top ${DEFAULT_VISIBLE}` : `Show all ${sortedAssets.length} assets`}
+        </Button>
+      )}
+
       <div className="text-xs text-slate-400 text-center">
-        {assets.length} highest leverage assets • Real-time prices
+        {visibleAssets.length} of {assets.length} assets by {sortLabel} • 24h change vs previous day close
       </div>
     </div>
   )
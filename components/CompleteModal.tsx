@@ -1,4 +1,4 @@
-// GameCompletionModal.tsx - Fixed P&L calculation for long/short positions
+// GameCompletionModal.tsx - Shows the round's PnL breakdown from lib/pnl
 import { useState, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { Dialog, DialogContent, DialogTitle } from './ui/dialog';
@@ -15,6 +15,7 @@ import {
 } from 'lucide-react';
 import { render } from "./share_trade/render"
 import { GameStats, Prediction } from '@/lib/types';
+import { PnLBreakdown } from '@/lib/pnl';
 
 interface GameCompletionModalProps {
   isOpen: boolean;
@@ -24,11 +25,11 @@ interface GameCompletionModalProps {
   actualExitPrice: number;
   gameStats: GameStats;
   leverage: number;
-  positionValue: number;
   // Real trade data from API
   actualEntryPrice?: number;  // Real fill price from API
   positionSize?: string;      // Actual position size (e.g., "0.0037")
-  realPnLDollar?: number;     // Real P&L in USD from API
+  requestedSize?: string;     // Entry order size; larger than positionSize after a partial fill
+  pnl: PnLBreakdown;          // Settled PnL; decides win/loss
 }
 
 export function GameCompletionModal({
@@ -39,10 +40,10 @@ export function GameCompletionModal({
   actualExitPrice,
   gameStats,
   leverage,
-  positionValue,
   actualEntryPrice,
   positionSize,
-  realPnLDollar
+  requestedSize,
+  pnl
 }: GameCompletionModalProps) {
   const [showDetails, setShowDetails] = useState(false);
   const [soundPlayed, setSoundPlayed] = useState(false);
@@ -56,64 +57,14 @@ export function GameCompletionModal({
   const priceMovement = Math.abs(priceDiff);
   const percentageMove = (priceMovement / entryPrice) * 100;
 
-  // GameCompletionModal.tsx - Fixed fallback calculation to include leverage
-  // This shows the corrected calculateRealResult function
+  // ✅ Win/loss follows net PnL (after fees and funding), same as the sound and stats
+  const isWin = pnl.result === 'win';
+  const formatSignedUsd = (value: number) => `${value >= 0 ? '+' : '-'}$${Math.abs(value).toFixed(2)}`;
 
-  const calculateRealResult = (): {
-    dollarPnL: number;
-    percentagePnL: number;
-    isRealData: boolean;
-    actualResult: 'win' | 'loss';
-  } => {
-    // First priority: Use real P&L from API if available
-    if (realPnLDollar !== undefined) {
-      const realPercentage = (Math.abs(realPnLDollar) / positionValue) * 100;
-      return {
-        dollarPnL: realPnLDollar,
-        percentagePnL: realPercentage,
-        isRealData: true,
-        actualResult: realPnLDollar >= 0 ? 'win' : 'loss'
-      };
-    }
-
-    // Second priority: Calculate from actual prices and position size
-    if (actualEntryPrice && positionSize) {
-      const sizeNumber = parseFloat(positionSize);
-      // ✅ FIXED: Account for trade direction in P&L calculation
-      // For SHORT: profit when price goes DOWN (entry > exit)
-      // For LONG: profit when price goes UP (exit > entry)
-      const dollarPnL = prediction.direction === 'up'
-        ? (actualExitPrice - actualEntryPrice) * sizeNumber  // LONG position
-        : (actualEntryPrice - actualExitPrice) * sizeNumber; // SHORT position
-      const percentagePnL = (Math.abs(dollarPnL) / positionValue) * 100;
-      return {
-        dollarPnL,
-        percentagePnL,
-        isRealData: true,
-        actualResult: dollarPnL >= 0 ? 'win' : 'loss'
-      };
-    }
-
-    // Fallback: Use percentage estimation based on direction prediction
-    const didPriceGoUp = priceDiff > 0;
-    const predictedUp = prediction.direction === 'up';
-    const isCorrectPrediction = didPriceGoUp === predictedUp;
-
-    // ✅ FIXED: Apply leverage to the fallback calculation
-    const estimatedPnL = (positionValue * percentageMove * leverage) / 100;
-    const leveragedPnL = estimatedPnL * (isCorrectPrediction ? 1 : -1);
-
-    return {
-      dollarPnL: leveragedPnL,
-      percentagePnL: percentageMove * leverage, // ✅ FIXED: Apply leverage to percentage display
-      isRealData: false,
-      actualResult: isCorrectPrediction ? 'win' : 'loss'
-    };
-  };
-  const { dollarPnL, percentagePnL, isRealData, actualResult } = calculateRealResult();
-
-  // ✅ Use actual result based on real P&L data, not prediction.result
-  const isWin = actualResult === 'win';
+  // Only part of the IOC entry filled; the rest was cancelled, so PnL and margin are on the filled part
+  const filledSize = parseFloat(positionSize ?? '') || 0;
+  const orderSize = parseFloat(requestedSize ?? '') || 0;
+  const isPartialFill = filledSize > 0 && orderSize > filledSize;
 
   useEffect(() => {
     if (isOpen && !soundPlayed) {
@@ -147,12 +98,11 @@ export function GameCompletionModal({
     setShareableImageUrl(null);
     setGenerationError(null);
 
-    // ✅ Use real P&L percentage for image generation
-    const pnlPercentage = isWin ? percentagePnL : -percentagePnL;
+    // ✅ Share card shows ROE on margin
     const refCodeToUse = "HYPURR-REKT";
 
     const params = {
-      pnlRatio: pnlPercentage,
+      pnlRatio: pnl.roe,
       leverage: leverage,
       entry: entryPrice,  // ✅ Use actual entry price
       exit: actualExitPrice,
@@ -237,7 +187,7 @@ export function GameCompletionModal({
                     </div>
                     {/* ✅ Add indicator for real vs estimated data */}
                     <div className="text-xs text-slate-500 mt-1">
-                      {isRealData ? '📊 Real trade data' : '📈 Estimated based on price movement'}
+                      {pnl.isExact ? '📊 From your fills, after fees and funding' : '📈 Estimated based on price movement'}
                     </div>
                   </motion.div>
 
@@ -287,14 +237,25 @@ export function GameCompletionModal({
                   >
                     <div className="text-center">
                       <div className="text-slate-400 text-xs sm:text-sm mb-2">
-                        {isRealData ? 'Actual P&L' : 'Estimated P&L'}
+                        {pnl.isExact ? 'Net P&L' : 'Estimated P&L'}
                       </div>
-                      <div className={`text-2xl sm:text-3xl font-bold font-mono ${dollarPnL >= 0 ? 'text-green-400' : 'text-red-400'}`}>
-                        {dollarPnL >= 0 ? '+' : ''}${dollarPnL.toFixed(2)}
+                      <div className={`text-2xl sm:text-3xl font-bold font-mono ${pnl.net >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                        {formatSignedUsd(pnl.net)}
                       </div>
-                      <div className={`text-base sm:text-lg font-mono ${dollarPnL >= 0 ? 'text-green-400' : 'text-red-400'}`}>
-                        {dollarPnL >= 0 ? '+' : ''}{percentagePnL.toFixed(2)}%
+                      <div className={`text-base sm:text-lg font-mono ${pnl.net >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                        {pnl.roe >= 0 ? '+' : ''}{pnl.roe.toFixed(2)}% ROE
                       </div>
+                      {pnl.isExact && (
+                        <div className="text-xs text-slate-500 font-mono mt-1">
+                          {formatSignedUsd(pnl.gross)} gross · -${pnl.fees.toFixed(4)} fees · {pnl.funding >= 0 ? '+' : '-'}${Math.abs(pnl.funding).toFixed(4)} funding
+                        </div>
+                      )}
+                      {isPartialFill && (
+                        <div className="text-xs text-yellow-400 mt-2">
+                          Partial fill: only {filledSize} of {orderSize} {prediction.asset.symbol} ({((filledSize / orderSize) * 100).toFixed(0)}%) filled within the slippage limit.
+                          The rest was cancelled, so P&L and margin are on the filled size.
+                        </div>
+                      )}
                     </div>
                   </motion.div>
                 </motion.div>
@@ -344,15 +305,15 @@ export function GameCompletionModal({
                               {positionSize && (
                                 <div className="flex justify-between">
                                   <span className="text-slate-400">Size:</span>
-                                  <span className="text-white font-mono">{positionSize}</span>
+                                  <span className="text-white font-mono">{isPartialFill ? `${positionSize} / ${requestedSize}` : positionSize}</span>
                                 </div>
                               )}
                             </div>
 
                             <div className="space-y-2">
                               <div className="flex justify-between">
-                                <span className="text-slate-400">Position:</span>
-                                <span className="text-white">${positionValue.toFixed(0)}</span>
+                                <span className="text-slate-400">Margin:</span>
+                                <span className="text-white">${pnl.margin.toFixed(2)}</span>
                               </div>
                               <div className="flex justify-between">
                                 <span className="text-slate-400">Duration:</span>
@@ -369,8 +330,8 @@ export function GameCompletionModal({
                               {/* ✅ Show data source */}
                               <div className="flex justify-between">
                                 <span className="text-slate-400">Data:</span>
-                                <span className={`text-xs ${isRealData ? 'text-green-400' : 'text-yellow-400'}`}>
-                                  {isRealData ? 'API' : 'Estimated'}
+                                <span className={`text-xs ${pnl.isExact ? 'text-green-400' : 'text-yellow-400'}`}>
+                                  {pnl.isExact ? 'Fills' : 'Estimated'}
                                 </span>
                               </div>
                             </div>
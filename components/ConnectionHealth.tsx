@@ -0,0 +1,61 @@
+// src/components/ConnectionHealth.tsx
+import { Wifi, WifiOff, Loader2, AlertTriangle } from 'lucide-react'
+import { FeedHealth, useFeedHealth } from '@/hooks/useHyperliquidSubscription'
+
+interface ConnectionIndicatorProps {
+  compact?: boolean
+}
+
+export function describeFeedHealth(health: FeedHealth): {
+  label: string
+  color: string
+  dot: string
+} {
+  const { status, priceAgeMs, isStale } = health
+
+  if (status.state === 'RECONNECTING') {
+    const retryIn = status.nextRetryAt ? Math.max(0, Math.ceil((status.nextRetryAt - Date.now()) / 1000)) : 0
+    return {
+      label: `Reconnecting (attempt ${status.reconnectAttempts}${retryIn > 0 ? `, ${retryIn}s` : ''})`,
+      color: 'text-yellow-400',
+      dot: 'bg-yellow-400',
+    }
+  }
+  if (status.state === 'CONNECTING') {
+    return { label: 'Connecting...', color: 'text-blue-400', dot: 'bg-blue-400' }
+  }
+  if (status.state === 'DISCONNECTED') {
+    return { label: 'Offline', color: 'text-slate-400', dot: 'bg-slate-500' }
+  }
+  if (isStale) {
+    const age = priceAgeMs === null ? 'no prices yet' : `${Math.floor(priceAgeMs / 1000)}s old`
+    return { label: `Stale feed (${age})`, color: 'text-orange-400', dot: 'bg-orange-400' }
+  }
+  return { label: 'Live', color: 'text-green-400', dot: 'bg-green-400' }
+}
+
+export function ConnectionIndicator({ compact = false }: ConnectionIndicatorProps) {
+  const health = useFeedHealth()
+  const { label, color, dot } = describeFeedHealth(health)
+
+  const Icon = health.status.state === 'CONNECTED'
+    ? (health.isStale ? AlertTriangle : Wifi)
+    : health.status.state === 'DISCONNECTED' ? WifiOff : Loader2
+
+  return (
+    <div className={`flex items-center space-x-2 ${color}`} title={label}>
+      <span className="relative flex w-2 h-2">
+        {!health.isStale && (
+          <span className={`absolute inline-flex w-full h-full rounded-full opacity-75 animate-ping ${dot}`} />
+        )}
+        <span className={`relative inline-flex w-2 h-2 rounded-full ${dot}`} />
+      </span>
+      {!compact && (
+        <>
+          <Icon className={`w-4 h-4 ${Icon === Loader2 ? 'animate-spin' : ''}`} />
+          <span className="text-xs font-medium">{label}</span>
+        </>
+      )}
+    </div>
+  )
+}
@@ -3,6 +3,7 @@ import React from 'react'
 import { Alert, AlertDescription } from './ui/alert'
 import { Button } from './ui/button'
 import { ExternalLink, DollarSign, AlertTriangle, Copy } from 'lucide-react'
+import { useNetworkConfig } from '@/lib/network'
 
 interface DepositRequiredAlertProps {
   userAddress: string
@@ -10,12 +11,16 @@ interface DepositRequiredAlertProps {
 }
 
 export function DepositRequiredAlert({ userAddress, onDismiss }: DepositRequiredAlertProps) {
+  const networkConfig = useNetworkConfig()
+
   const handleOpenHyperliquid = () => {
-    window.open('https://app.hyperliquid-testnet.xyz', '_blank')
+    window.open(networkConfig.depositUrl, '_blank')
   }
 
   const handleGetHyperliquidFunds = () => {
-    window.open('https://app.hyperliquid-testnet.xyz/drip', '_blank')
+    if (networkConfig.faucetUrl) {
+      window.open(networkConfig.faucetUrl, '_blank')
+    }
   }
 
   const copyAddress = async () => {
@@ -35,7 +40,7 @@ export function DepositRequiredAlert({ userAddress, onDismiss }: DepositRequired
           <div>
             <div className="font-semibold mb-2">Deposit Required</div>
             <div className="text-sm">
-              You will need to deposit testnet funds into your Hyperliquid account
+              You will need to deposit {networkConfig.isTestnet ? 'testnet ' : ''}funds into your Hyperliquid account
               before you can approve the trading agent. This is a one-time requirement.
             </div>
           </div>
@@ -64,6 +69,7 @@ export function DepositRequiredAlert({ userAddress, onDismiss }: DepositRequired
             <div className="text-sm font-medium">Setup Steps:</div>
 
             <div className="space-y-2 ml-2">
+              {networkConfig.faucetUrl && (
               <div className="flex items-center justify-between bg-yellow-500/20 p-3 rounded">
                 <div>
                   <div className="font-medium text-xs">Step 1: Get Hyperliquid Testnet Funds</div>
@@ -79,10 +85,11 @@ export function DepositRequiredAlert({ userAddress, onDismiss }: DepositRequired
                   Get Funds
                 </Button>
               </div>
+              )}
 
               <div className="flex items-center justify-between bg-yellow-500/20 p-3 rounded">
                 <div>
-                  <div className="font-medium text-xs">Step 2: Deposit to Hyperliquid</div>
+                  <div className="font-medium text-xs">Step {networkConfig.faucetUrl ? 2 : 1}: Deposit to Hyperliquid</div>
                   <div className="text-xs opacity-75">Use YOUR wallet address above (any amount)</div>
                 </div>
                 <Button
@@ -1,6 +1,7 @@
 // src/components/Header.tsx
 import { Button } from './ui/button'
 import { Volume2, VolumeX } from 'lucide-react'
+import { ConnectionIndicator } from './ConnectionHealth'
 
 interface HeaderProps {
   soundEnabled: boolean
@@ -24,6 +25,7 @@ export function Header({ soundEnabled, setSoundEnabled }: HeaderProps) {
 
           {/* Controls */}
           <div className="flex items-center space-x-4">
+            <ConnectionIndicator />
             <div className="flex items-center space-x-2">
               <Button
                 variant="ghost"
@@ -1,5 +1,5 @@
 // Updated GameInterface.tsx with FIXED P&L calculation for long/short positions
-import { useState, useEffect, useCallback } from 'react'
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react'
 import { Card } from './ui/card'
 import { AssetSelector } from './AssetSelector'
 import { PriceDisplay } from './PriceDisplay'
@@ -8,7 +8,8 @@ import { CombinedSettingsSelector } from './TimeWindow'
 import { PredictionButtons } from './Prediction'
 import { ResultDisplay } from './ResultsDisplay'
 import { GameCompletionModal } from './CompleteModal'
-import { useHyperliquid, usePositions } from '@/hooks/useHyperliquid'
+import { useHyperliquid, usePositionReconciliation, usePositions, useRealTimePnL, useRestoredPositions } from '@/hooks/useHyperliquid'
+import { useFeedHealth, useOrderBook } from '@/hooks/useHyperliquidSubscription'
 import { useGameStats } from '@/hooks/useGameStats'
 import { AlertTriangle, DollarSign, RefreshCw, TrendingUp, Loader2 } from 'lucide-react'
 import { Badge } from './ui/badge'
@@ -18,11 +19,19 @@ import { WalletConnection } from './WalletConnection'
 import { AgentStatus } from './AgentStatus'
 import { DepositRequiredAlert } from './DepositAlert'
 import { GameInterfaceSkeleton } from './PriceSkeleton'
+import { ReconciliationPanel } from './ReconciliationPanel'
 import { motion, AnimatePresence } from 'framer-motion'
-import type { OrderRequest, OrderResponse } from '@/service/hyperliquidOrders'
-import { useHyperliquidOrders } from '@/hooks/useHyperliquidTrading'
+import { HyperliquidOrderService } from '@/service/hyperliquidOrders'
+import type { CloseResult, MarginMode, OrderRequest, OrderResponse, PositionBrackets, PositionInfo } from '@/service/hyperliquidOrders'
+import type { PositionDrift, ReconciliationActionResult } from '@/service/positionReconciler'
+import { useHyperliquidOrders, useReconciliationActions } from '@/hooks/useHyperliquidTrading'
 import { useAccount } from 'wagmi'
 import { Prediction, Asset, GameState } from '@/lib/types'
+import { BracketConfig, estimatedPnL, PnLBreakdown } from '@/lib/pnl'
+import { DEFAULT_MAX_SLIPPAGE_BPS } from '@/lib/slippage'
+import { buildOrderPreview } from '@/lib/orderPreview'
+import { addRound, getRound, getRounds, MAX_CONCURRENT_ROUNDS, removeRound, Round, updateRound, useRounds } from '@/lib/roundStore'
+import { loadLeveragePreferences, loadMarginModePreferences, saveLeveragePreference, saveMarginModePreference, validateStake } from '@/lib/utils'
 
 interface GameInterfaceProps {
   gameState: GameState
@@ -38,28 +47,63 @@ interface GameInterfaceProps {
   }
 }
 
-interface CompletionData {
-  prediction: Prediction
-  exitPrice: number
-  leverage: number
-  positionValue: number
-  actualEntryPrice: number
-  positionSize: string
-  realPnLDollar?: number
-}
-
 interface OrderError {
   message: string
   type: 'deposit' | 'network' | 'general'
   code?: string
 }
 
-interface ActiveTradeData {
-  cloid: string
-  entryPrice: number
-  positionSize: string
-  leverage: number
-  gameId?: string // Database game ID
+function describeCloseResult(result: CloseResult): string {
+  switch (result.status) {
+    case 'partial':
+      return `Partially closed: ${result.filledSize} filled, ${result.remainingSize} still open.`
+    case 'not_filled':
+      return 'The close order did not fill, the position is still open.'
+    default:
+      return 'Could not confirm that the position is closed.'
+  }
+}
+
+// Trigger prices of the legs the exchange accepted, for the chart and timer
+function bracketLevels(brackets?: PositionBrackets): Pick<Prediction, 'takeProfit' | 'stopLoss'> {
+  const level = (leg?: PositionBrackets['takeProfit']) => leg && leg.status !== 'rejected' ? leg.triggerPx : undefined
+  return { takeProfit: level(brackets?.takeProfit), stopLoss: level(brackets?.stopLoss) }
+}
+
+// Most recently started round still running, to show once a result is dismissed
+function latestActivePrediction(): Prediction | null {
+  const running = getRounds().filter(round => round.status === 'active')
+  return running.length > 0 ? running[running.length - 1].prediction : null
+}
+
+interface RoundTimerProps {
+  round: Round
+  currentPrice?: number
+  onExit: (cloid: string, realExitPrice?: number, pnl?: PnLBreakdown) => void
+}
+
+// Timer card of one running round. Its time left is read from the deadline once, on mount.
+function RoundTimer({ round, currentPrice, onExit }: RoundTimerProps) {
+  const [initialTime] = useState(() => Math.max((round.deadline - Date.now()) / 1000, 0.1))
+  const { cloid } = round
+  const handleComplete = useCallback((realExitPrice?: number, pnl?: PnLBreakdown) => onExit(cloid, realExitPrice, pnl), [cloid, onExit])
+  const handleCloseUnresolved = useCallback((result: CloseResult) => updateRound(cloid, { unresolvedClose: result }), [cloid])
+
+  return (
+    <GameTimer
+      initialTime={initialTime}
+      onComplete={handleComplete}
+      onCloseUnresolved={handleCloseUnresolved}
+      type="game"
+      prediction={round.prediction}
+      currentPrice={currentPrice}
+      existingPositionCloid={cloid}
+      actualEntryPrice={round.entryPrice}
+      positionSize={round.positionSize}
+      requestedSize={round.requestedSize}
+      leverage={round.leverage}
+    />
+  )
 }
 
 export function GameInterface({
@@ -73,16 +117,28 @@ export function GameInterface({
   // Local state with proper typing
   const [selectedAsset, setSelectedAsset] = useState<Asset | null>(null)
   const [timeWindow, setTimeWindow] = useState<number>(30)
+  const [stake, setStake] = useState<number>(HyperliquidOrderService.DEFAULT_STAKE)
+  const [leveragePreferences, setLeveragePreferences] = useState<Record<string, number>>({})
+  const [marginModePreferences, setMarginModePreferences] = useState<Record<string, MarginMode>>({})
+  const [maxSlippageBps, setMaxSlippageBps] = useState<number>(DEFAULT_MAX_SLIPPAGE_BPS)
+  const [bracketConfig, setBracketConfig] = useState<BracketConfig>({ takeProfitPct: null, stopLossPct: 50 })
+  const [endRoundOnBracket, setEndRoundOnBracket] = useState(false)
   const [countdownTime, setCountdownTime] = useState<number>(0)
   const [walletReady, setWalletReady] = useState(false)
   const [isPlacingOrder, setIsPlacingOrder] = useState(false)
   const [orderError, setOrderError] = useState<OrderError | null>(null)
   const [needsDeposit, setNeedsDeposit] = useState(false)
-  const [showCompletionModal, setShowCompletionModal] = useState(false)
-  const [completionData, setCompletionData] = useState<CompletionData | null>(null)
   const [showSuccessFeedback, setShowSuccessFeedback] = useState(false)
-  const [activePositionCloid, setActivePositionCloid] = useState<string | null>(null)
-  const [activeTradeData, setActiveTradeData] = useState<ActiveTradeData | null>(null)
+  const [multiRound, setMultiRound] = useState(false)
+  const [retryingCloid, setRetryingCloid] = useState<string | null>(null)
+  const resumedCloidsRef = useRef<Set<string>>(new Set())
+
+  // Rounds live in the round store, so each keeps its own timer, PnL and result
+  const rounds = useRounds()
+  const activeRounds = useMemo(() => rounds.filter(round => round.status === 'active'), [rounds])
+  const unresolvedRounds = activeRounds.filter(round => round.unresolvedClose)
+  // Settled rounds wait their turn for the completion modal, oldest first
+  const completedRound = rounds.find(round => round.status === 'settled' && round.settlement)
 
   const { address, isConnected: isWalletConnected, chain } = useAccount()
 
@@ -91,6 +147,8 @@ export function GameInterface({
     gameStats,
     startGame,
     completeGame,
+    voidGame,
+    recordEntryFill,
   } = useGameStats(address)
 
   // Main Hyperliquid hook with all functionality
@@ -106,12 +164,59 @@ export function GameInterface({
 
   const {
     mutations,
-    placePredictionOrder
+    placePredictionOrder,
+    explicitClosePosition
   } = useHyperliquidOrders(address, isWalletConnected, chain)
 
-  // Separate positions hook for better performance
+  // Never open a position against a frozen price feed
+  const feedHealth = useFeedHealth()
+  // Withdrawable balance from clearinghouseState bounds the stake
+  const accountQuery = useRealTimePnL(address)
+  const withdrawable = accountQuery.data?.withdrawable
+  // Remembered per asset, bounded by the asset's live maxLeverage
+  const leverage = selectedAsset
+    ? Math.min(Math.max(leveragePreferences[selectedAsset.id] ?? selectedAsset.maxLeverage, 1), selectedAsset.maxLeverage)
+    : 1
+  const handleLeverageSelect = useCallback((value: number): void => {
+    if (!selectedAsset) return
+    setLeveragePreferences(saveLeveragePreference(selectedAsset.id, value))
+  }, [selectedAsset])
+  const marginMode: MarginMode = (selectedAsset && marginModePreferences[selectedAsset.id]) || 'isolated'
+  const handleMarginModeSelect = useCallback((value: MarginMode): void => {
+    if (!selectedAsset) return
+    setMarginModePreferences(saveMarginModePreference(selectedAsset.id, value))
+  }, [selectedAsset])
+  const stakeError = selectedAsset ? validateStake(stake, leverage, withdrawable) : null
+
+  // Pre-trade preview per direction; its errors block the button before the countdown
+  const orderBookQuery = useOrderBook(selectedAsset?.id)
   const positionsQuery = usePositions(address)
-  const activePositions = positionsQuery.data || []
+  const activePositions = useMemo(() => positionsQuery.data || [], [positionsQuery.data])
+  const orderPreviews = useMemo(() => {
+    if (!selectedAsset) return null
+    const input = { asset: selectedAsset, stake, leverage, marginMode, maxSlippageBps, book: orderBookQuery.data, withdrawable, openPositions: activePositions }
+    return {
+      up: buildOrderPreview({ ...input, direction: 'up' }),
+      down: buildOrderPreview({ ...input, direction: 'down' })
+    }
+  }, [selectedAsset, stake, leverage, marginMode, maxSlippageBps, orderBookQuery.data, withdrawable, activePositions])
+
+  const staleFeedReason = feedHealth.isStale
+    ? feedHealth.status.state === 'CONNECTED'
+      ? 'Price feed is stale - waiting for fresh prices before trading'
+      : 'Price feed disconnected - reconnecting before trading'
+    : null
+
+  const restoredPositionsQuery = useRestoredPositions(address)
+  const reconciliationQuery = usePositionReconciliation(address)
+  const { flatten: flattenDrift, adopt: adoptDrift, pendingDriftId } = useReconciliationActions(address)
+
+  // One round at a time unless multi-slot mode is on. Tracked positions count even when
+  // the board doesn't show them, e.g. while a resumed round is still loading.
+  const openRoundCount = Math.max(activeRounds.length, activePositions.length)
+  const hasFreeSlot = multiRound ? openRoundCount < MAX_CONCURRENT_ROUNDS : openRoundCount === 0
+  // New rounds start from idle, or next to running ones in multi-slot mode
+  const canStartRound = gameState === 'idle' || (multiRound && gameState === 'active')
 
   // Derived state for order placement capability
   const canPlaceOrder = Boolean(
@@ -120,11 +225,21 @@ export function GameInterface({
     walletReady &&
     !mutations.placePredictionOrder.isPending &&
     !isPlacingOrder &&
-    activePositions.length === 0 &&
+    hasFreeSlot &&
     !orderError &&
     hlConnected
   )
 
+  // The chart follows the selected asset, so only a round on that asset is drawn on it
+  const displayedPrediction = activeRounds.filter(round => round.prediction.asset.id === selectedAsset?.id).pop()?.prediction
+    ?? (currentPrediction?.asset.id === selectedAsset?.id ? currentPrediction : null)
+
+  // Stored client-side only, so load after hydration
+  useEffect(() => {
+    setLeveragePreferences(loadLeveragePreferences())
+    setMarginModePreferences(loadMarginModePreferences())
+  }, [])
+
   // Set default selected asset when assets load
   useEffect(() => {
     if (assets.length > 0 && !selectedAsset) {
@@ -141,113 +256,146 @@ export function GameInterface({
     }
   }, [activePositions.length, assets, selectedAsset])
 
-  // Error handling utility with proper typing
-  const handleOrderError = useCallback((error: unknown): OrderError => {
-    if (error instanceof Error) {
-      const message = error.message
+  // Settle a round. PnL comes from fills when the service found them, otherwise it is
+  // estimated from prices; either way it alone decides win/loss, sound and stats.
+  const handleGameComplete = useCallback(async (cloid: string, exitPrice: number, pnl?: PnLBreakdown): Promise<void> => {
+    const round = getRound(cloid)
+    // The service callback and the timer can both report the same round
+    if (!round || round.status !== 'active') return
 
-      if (message === 'NEEDS_HYPERLIQUID_DEPOSIT' || message.includes('ACCOUNT_NOT_FOUND')) {
-        return { message, type: 'deposit' }
-      }
-
-      if (message.includes('network') || message.includes('chain') || message.includes('ChainId')) {
-        return { message, type: 'network' }
-      }
-
-      return { message, type: 'general' }
-    }
-
-    if (typeof error === 'object' && error !== null && 'message' in error) {
-      return { message: String(error.message), type: 'general' }
-    }
-
-    return { message: 'An unknown error occurred', type: 'general' }
-  }, [])
-
-  // Enhanced handleGameComplete with database integration - FIXED P&L calculation
-  const handleGameComplete = useCallback(async (
-    result: 'win' | 'loss',
-    exitPrice: number,
-    positionValue: number,
-    realEntryPrice?: number,
-    realPositionSize?: string,
-    realPnLDollar?: number
-  ): Promise<void> => {
-    if (!currentPrediction) return
-
-    // ✅ Determine ACTUAL result based on real P&L data - FIXED for long/short
-    let actualResult: 'win' | 'loss' = result; // Default fallback
-
-    if (realPnLDollar !== undefined) {
-      // Use real P&L from API to determine win/loss
-      actualResult = realPnLDollar >= 0 ? 'win' : 'loss';
-    } else if (realEntryPrice && realPositionSize) {
-      // ✅ FIXED: Calculate P&L accounting for trade direction (long vs short)
-      const sizeNumber = parseFloat(realPositionSize);
-      const calculatedPnL = currentPrediction.direction === 'up'
-        ? (exitPrice - realEntryPrice) * sizeNumber  // LONG position
-        : (realEntryPrice - exitPrice) * sizeNumber; // SHORT position
-      actualResult = calculatedPnL >= 0 ? 'win' : 'loss';
-    } else {
-      // Fallback: determine based on price movement and prediction direction
-      const priceDiff = exitPrice - currentPrediction.entryPrice;
-      const didPriceGoUp = priceDiff > 0;
-      const predictedUp = currentPrediction.direction === 'up';
-      actualResult = didPriceGoUp === predictedUp ? 'win' : 'loss';
-    }
+    const finalPnL = pnl ?? estimatedPnL({
+      direction: round.prediction.direction,
+      entryPrice: round.entryPrice,
+      size: parseFloat(round.positionSize) || 0,
+      leverage: round.leverage
+    }, exitPrice)
 
     const updatedPrediction = {
-      ...currentPrediction,
-      result: actualResult, // ✅ Use actual result based on real data
+      ...round.prediction,
+      result: finalPnL.result,
       exitPrice
     }
 
     // Play the appropriate sound based on the game result
     if (soundEnabled && audioFunctions) {
-      if (result === 'win' && audioFunctions.playWinSound) {
+      if (finalPnL.result === 'win' && audioFunctions.playWinSound) {
         audioFunctions.playWinSound();
         console.log('🐱 Playing win sound for successful trade');
-      } else if (result === 'loss' && audioFunctions.playLossSound) {
+      } else if (finalPnL.result === 'loss' && audioFunctions.playLossSound) {
         audioFunctions.playLossSound();
         console.log('🐱 Playing loss sound for unsuccessful trade');
       }
     }
 
+    updateRound(cloid, {
+      status: 'settled',
+      prediction: updatedPrediction,
+      settlement: { exitPrice, pnl: finalPnL },
+      unresolvedClose: undefined
+    })
     setCurrentPrediction(updatedPrediction)
-    setActivePositionCloid(null)
-
-    // Use real trade data when available
-    const actualEntryPrice = realEntryPrice ?? activeTradeData?.entryPrice ?? currentPrediction.entryPrice
-    const actualPositionSize = realPositionSize ?? activeTradeData?.positionSize
-    const actualLeverage = activeTradeData?.leverage ?? selectedAsset?.maxLeverage ?? 1
 
-    // ✅ Complete the game in the database with ACTUAL result
-    if (activeTradeData?.gameId) {
+    // Only PnL derived from fills is stored as real
+    if (round.gameId) {
       try {
-        await completeGame(activeTradeData.gameId, actualResult, exitPrice, realPnLDollar)
+        await completeGame(round.gameId, finalPnL.result, exitPrice, finalPnL.isExact ? finalPnL.net : undefined)
       } catch (error) {
         console.error('❌ Failed to complete game in database:', error)
       }
     }
-
-    setCompletionData({
-      prediction: updatedPrediction,
-      exitPrice,
-      leverage: actualLeverage,
-      positionValue,
-      actualEntryPrice,
-      positionSize: actualPositionSize ?? '0',
-      realPnLDollar
+  }, [completeGame, soundEnabled, audioFunctions, setCurrentPrediction])
+
+  // Put a tracked position on the board as a running round (after a reload, or when adopted)
+  const resumeRound = useCallback((position: PositionInfo): boolean => {
+    const asset = assets.find(a => a.id === position.asset)
+    if (!asset) return false
+
+    // A deadline that passed while the page was gone closes the position right away
+    const deadline = Math.max(position.deadline ?? Date.now(), Date.now() + 100)
+    const leverage = position.leverage ?? asset.maxLeverage
+    console.log(`♻️ Resuming round ${position.cloid} with ${((deadline - Date.now()) / 1000).toFixed(1)}s left`)
+
+    const prediction: Prediction = {
+      id: position.timestamp.toString(),
+      asset,
+      direction: position.direction,
+      leverage,
+      entryPrice: position.entryPrice,
+      timeWindow: position.deadline ? Math.round((position.deadline - position.timestamp) / 1000) : 0,
+      timestamp: position.timestamp,
+      ...bracketLevels(position.brackets)
+    }
+    addRound({
+      cloid: position.cloid,
+      gameId: position.gameId,
+      prediction,
+      entryPrice: position.entryPrice,
+      positionSize: position.size,
+      requestedSize: position.requestedSize,
+      leverage,
+      deadline,
+      status: 'active'
+    })
+    onPositionResult(position.cloid, (_result, exitPrice, pnl) => {
+      handleGameComplete(position.cloid, exitPrice, pnl)
     })
-    setShowCompletionModal(true)
+    setSelectedAsset(asset)
+    setCurrentPrediction(prediction)
+    setGameState('active')
+    return true
+  }, [assets, onPositionResult, handleGameComplete, setCurrentPrediction, setGameState])
+
+  // Resume the rounds that were in flight when the page was reloaded
+  useEffect(() => {
+    for (const restored of restoredPositionsQuery.data ?? []) {
+      if (resumedCloidsRef.current.has(restored.cloid) || getRound(restored.cloid)) continue
+      if (resumeRound(restored)) {
+        resumedCloidsRef.current.add(restored.cloid)
+      }
+    }
+  }, [restoredPositionsQuery.data, resumeRound])
 
-    // Clear trade data
-    setActiveTradeData(null)
+  // Adopted positions become the next round, timed like a fresh one
+  const handleAdoptDrift = useCallback(async (drift: PositionDrift): Promise<ReconciliationActionResult> => {
+    const result = await adoptDrift({ drift, roundDuration: timeWindow })
+    if (result.success && result.position) {
+      resumeRound(result.position)
+    }
+    return result
+  }, [adoptDrift, timeWindow, resumeRound])
 
-  }, [currentPrediction, activeTradeData, selectedAsset, completeGame])
+  // Back to the board after an entry attempt or a result: running rounds keep the game active
+  const returnToBoard = useCallback((): void => {
+    const running = getRounds().filter(round => round.status === 'active')
+    setGameState(running.length > 0 ? 'active' : 'idle')
+  }, [setGameState])
+
+  // Error handling utility with proper typing
+  const handleOrderError = useCallback((error: unknown): OrderError => {
+    if (error instanceof Error) {
+      const message = error.message
+
+      if (message === 'NEEDS_HYPERLIQUID_DEPOSIT' || message.includes('ACCOUNT_NOT_FOUND')) {
+        return { message, type: 'deposit' }
+      }
+
+      if (message.includes('network') || message.includes('chain') || message.includes('ChainId')) {
+        return { message, type: 'network' }
+      }
+
+      return { message, type: 'general' }
+    }
+
+    if (typeof error === 'object' && error !== null && 'message' in error) {
+      return { message: String(error.message), type: 'general' }
+    }
+
+    return { message: 'An unknown error occurred', type: 'general' }
+  }, [])
 
   const handlePrediction = useCallback(async (direction: 'up' | 'down'): Promise<void> => {
-    if (!selectedAsset || !canPlaceOrder) return
+    if (!selectedAsset || !canPlaceOrder || feedHealth.isStale) return
+    if (orderPreviews && orderPreviews[direction].errors.length > 0) return
 
     // Play meow sound when position is opened (if sound is enabled)
     if (soundEnabled && audioFunctions?.playMeow) {
@@ -262,31 +410,34 @@ export function GameInterface({
 
       await new Promise(resolve => setTimeout(resolve, 3000))
 
+      let gameId: string | null = null
       try {
         const currentPrice = getCurrentPrice(selectedAsset.id)
         if (!currentPrice) {
           throw new Error(`No current price available for ${selectedAsset.id}`)
         }
 
-        const positionCalc = await calculatePositionSize(selectedAsset.id, selectedAsset.maxLeverage)
+        const positionCalc = await calculatePositionSize(selectedAsset.id, leverage, stake)
 
         // Create prediction object
         const prediction: Prediction = {
           id: Date.now().toString(),
           asset: selectedAsset,
           direction,
-          leverage: selectedAsset.maxLeverage,
+          leverage,
+          stake,
           entryPrice: currentPrice,
           timeWindow,
           timestamp: Date.now()
         }
 
         // Start game in database first
-        const gameId = await startGame(
+        gameId = await startGame(
           prediction,
           currentPrice,
           positionCalc?.assetSize,
-          selectedAsset.maxLeverage
+          leverage,
+          stake
         )
 
         if (!gameId) {
@@ -299,7 +450,14 @@ export function GameInterface({
           price: currentPrice,
           size: positionCalc?.assetSize || '10',
           timeWindow: 0,
-          leverage: selectedAsset.maxLeverage
+          leverage,
+          stake,
+          marginMode,
+          maxSlippageBps,
+          roundDuration: timeWindow,
+          gameId,
+          brackets: bracketConfig,
+          endRoundOnBracket
         }
 
 
@@ -308,89 +466,66 @@ export function GameInterface({
           currentMarketPrice: currentPrice
         })
 
-        if (response.success) {
-          if (response.fillInfo?.filled) {
-            // Store real trade data from API response
-            const realEntryPrice = response.fillInfo.fillPrice || currentPrice
-            const realPositionSize = positionCalc?.assetSize || '0'
-            const realLeverage = selectedAsset?.maxLeverage || 1
-
-            // Update prediction with real data
-            const updatedPrediction: Prediction = {
-              ...prediction,
-              entryPrice: realEntryPrice,
-              leverage: realLeverage
-            }
-
-            setCurrentPrediction(updatedPrediction)
+        if (response.success && response.fillInfo?.filled) {
+          // Store real trade data from API response
+          const realEntryPrice = response.fillInfo.fillPrice || currentPrice
+          const realPositionSize = response.fillInfo.fillSize || positionCalc?.assetSize || '0'
+          const requestedSize = response.fillInfo.requestedSize ?? positionCalc?.assetSize ?? realPositionSize
 
-            if (response.cloid) {
-              setActivePositionCloid(response.cloid)
-
-              // Store real trade data including database game ID
-              setActiveTradeData({
-                cloid: response.cloid,
-                entryPrice: realEntryPrice,
-                positionSize: realPositionSize,
-                leverage: realLeverage,
-                gameId // Store database game ID
-              })
-            }
+          if (response.slippage) {
+            const { expectedSlippageBps, realizedSlippageBps } = response.slippage
+            console.log(`📐 Entry slippage: expected ${expectedSlippageBps?.toFixed(1)} bps, realized ${realizedSlippageBps?.toFixed(1)} bps`)
+          }
+          void recordEntryFill(gameId, {
+            requestedSize: parseFloat(requestedSize),
+            filledSize: parseFloat(realPositionSize),
+            entryPrice: realEntryPrice,
+            expectedSlippageBps: response.slippage?.expectedSlippageBps,
+            realizedSlippageBps: response.slippage?.realizedSlippageBps,
+            entryCloid: response.cloid
+          })
+          const realLeverage = leverage
+          // The round runs from the first fill, not from when the order was sent
+          const fillTime = response.fillInfo.fillTime ?? Date.now()
+
+          // Update prediction with real data
+          const updatedPrediction: Prediction = {
+            ...prediction,
+            entryPrice: realEntryPrice,
+            leverage: realLeverage,
+            timestamp: fillTime,
+            ...bracketLevels(response.brackets)
+          }
 
-            setGameState('active')
-            setOrderError(null)
-            setShowSuccessFeedback(true)
-            setTimeout(() => setShowSuccessFeedback(false), 3000)
-
-            if (response.cloid) {
-              onPositionResult(response.cloid, (result, exitPrice) => {
-                // ✅ FIXED: Calculate real P&L accounting for trade direction
-                let realPnLDollar: number | undefined
-                if (realPositionSize && realEntryPrice) {
-                  const sizeNumber = parseFloat(realPositionSize)
-                  realPnLDollar = direction === 'up'
-                    ? (exitPrice - realEntryPrice) * sizeNumber  // LONG position
-                    : (realEntryPrice - exitPrice) * sizeNumber; // SHORT position
-                }
-
-                handleGameComplete(
-                  result,
-                  exitPrice,
-                  positionCalc?.usdValue || 400,
-                  realEntryPrice,
-                  realPositionSize,
-                  realPnLDollar
-                )
-              })
-            }
-          } else {
-            // Handle resting order - use original prediction
-            setCurrentPrediction(prediction)
-
-            // Store the active position cloid for resting orders too
-            if (response.cloid) {
-              setActivePositionCloid(response.cloid)
-              setActiveTradeData({
-                cloid: response.cloid,
-                entryPrice: currentPrice,
-                positionSize: positionCalc?.assetSize || '0',
-                leverage: selectedAsset.maxLeverage,
-                gameId
-              })
-            }
-
-            setGameState('active')
-            setOrderError(null)
+          setCurrentPrediction(updatedPrediction)
 
-            if (response.cloid) {
-              onPositionResult(response.cloid, (result, exitPrice) => {
-                handleGameComplete(result, exitPrice, positionCalc?.usdValue || 400)
-              })
-            }
+          if (response.cloid) {
+            const cloid = response.cloid
+            // Store real trade data including database game ID
+            addRound({
+              cloid,
+              gameId,
+              prediction: updatedPrediction,
+              entryPrice: realEntryPrice,
+              positionSize: realPositionSize,
+              requestedSize,
+              leverage: realLeverage,
+              deadline: Math.max(fillTime + timeWindow * 1000, Date.now() + 100),
+              status: 'active'
+            })
+            onPositionResult(cloid, (_result, exitPrice, pnl) => {
+              handleGameComplete(cloid, exitPrice, pnl)
+            })
           }
+
+          setGameState('active')
+          setOrderError(null)
+          setShowSuccessFeedback(true)
+          setTimeout(() => setShowSuccessFeedback(false), 3000)
         } else {
-          // Handle order failure
+          // Handle order failure - nothing filled, so the game record is void
           const errorMessage = response.error || 'Order failed'
+          void voidGame(gameId, response.voided ? `Entry not filled: ${errorMessage}` : errorMessage)
           const typedError = handleOrderError(new Error(errorMessage))
 
           if (typedError.type === 'deposit') {
@@ -400,13 +535,16 @@ export function GameInterface({
             setOrderError(typedError)
           }
 
-          setGameState('idle')
+          returnToBoard()
           console.error('❌ Order placement failed:', errorMessage)
         }
       } catch (error: unknown) {
+        if (gameId) {
+          void voidGame(gameId, error instanceof Error ? error.message : String(error))
+        }
         const typedError = handleOrderError(error)
         setOrderError(typedError)
-        setGameState('idle')
+        returnToBoard()
         console.error('Order placement error:', error)
       } finally {
         setIsPlacingOrder(false)
@@ -414,47 +552,91 @@ export function GameInterface({
     } catch (error: unknown) {
       const typedError = handleOrderError(error)
       setOrderError(typedError)
-      setGameState('idle')
+      returnToBoard()
       setIsPlacingOrder(false)
       console.error('Prediction initiation failed:', error)
     }
   }, [
     selectedAsset,
     canPlaceOrder,
+    feedHealth.isStale,
+    orderPreviews,
     setGameState,
+    returnToBoard,
     getCurrentPrice,
     calculatePositionSize,
     handleGameComplete,
     timeWindow,
+    stake,
+    leverage,
+    marginMode,
+    maxSlippageBps,
+    bracketConfig,
+    endRoundOnBracket,
     placePredictionOrder,
     setCurrentPrediction,
     onPositionResult,
     handleOrderError,
-    startGame
+    startGame,
+    voidGame,
+    recordEntryFill
   ])
 
+  // Settle a round once its exit price is real
+  const handleRoundExit = useCallback((cloid: string, realExitPrice?: number, pnl?: PnLBreakdown): void => {
+    const round = getRound(cloid)
+    if (!round) return
+    const exitPrice = realExitPrice ?? assets.find(a => a.id === round.prediction.asset.id)?.price
+    if (exitPrice === undefined) return
+    handleGameComplete(cloid, exitPrice, pnl)
+  }, [assets, handleGameComplete])
+
+  const handleRetryClose = useCallback(async (cloid: string): Promise<void> => {
+    if (retryingCloid) return
+
+    setRetryingCloid(cloid)
+    const result = await explicitClosePosition({ cloid })
+    setRetryingCloid(null)
+
+    if (result.success && result.exitPrice) {
+      updateRound(cloid, { unresolvedClose: undefined })
+      handleRoundExit(cloid, result.exitPrice, result.pnl)
+    } else {
+      updateRound(cloid, { unresolvedClose: result })
+    }
+  }, [retryingCloid, explicitClosePosition, handleRoundExit])
+
+  // Take the shown result off the board. True when another settled round is next in the modal.
+  const dismissCompletedRound = useCallback((): boolean => {
+    if (completedRound) removeRound(completedRound.cloid)
+    return getRounds().some(round => round.status === 'settled')
+  }, [completedRound])
+
   // Handle modal close and play again
   const handleModalClose = useCallback((): void => {
-    setShowCompletionModal(false)
+    if (dismissCompletedRound() || isPlacingOrder) return // A placement drives the game state itself
+    const running = latestActivePrediction()
+    if (running) {
+      setGameState('active')
+      setCurrentPrediction(running)
+      return
+    }
     setGameState('result')
 
     // Auto-reset after showing result briefly
     setTimeout(() => {
+      if (getRounds().length > 0) return // A new round started meanwhile
       setGameState('idle')
       setCurrentPrediction(null)
-      setCompletionData(null)
     }, 2000)
-  }, [setGameState])
+  }, [dismissCompletedRound, isPlacingOrder, setGameState, setCurrentPrediction])
 
   const handlePlayAgain = useCallback((): void => {
-    setShowCompletionModal(false)
-    setGameState('idle')
-    setCurrentPrediction(null)
-    setCompletionData(null)
-    setActivePositionCloid(null)
-    setActiveTradeData(null)
-
-  }, [setGameState])
+    if (dismissCompletedRound() || isPlacingOrder) return
+    const running = latestActivePrediction()
+    setGameState(running ? 'active' : 'idle')
+    setCurrentPrediction(running)
+  }, [dismissCompletedRound, isPlacingOrder, setGameState, setCurrentPrediction])
 
   const handleRefresh = useCallback((): void => {
     window.location.reload()
@@ -539,19 +721,20 @@ export function GameInterface({
   return (
     <div className="space-y-6" onClick={clearError}>
       {/* Game Completion Modal */}
-      {showCompletionModal && completionData && (
+      {completedRound?.settlement && (
         <GameCompletionModal
-          isOpen={showCompletionModal}
+          key={completedRound.cloid}
+          isOpen
           onClose={handleModalClose}
           onPlayAgain={handlePlayAgain}
-          prediction={completionData.prediction as Prediction}
-          actualExitPrice={completionData.exitPrice}
+          prediction={completedRound.prediction}
+          actualExitPrice={completedRound.settlement.exitPrice}
           gameStats={gameStats}
-          leverage={completionData.leverage}
-          positionValue={completionData.positionValue}
-          actualEntryPrice={completionData.actualEntryPrice}
-          positionSize={completionData.positionSize}
-          realPnLDollar={completionData.realPnLDollar}
+          leverage={completedRound.leverage}
+          actualEntryPrice={completedRound.entryPrice}
+          positionSize={completedRound.positionSize}
+          requestedSize={completedRound.requestedSize}
+          pnl={completedRound.settlement.pnl}
         />
       )}
       {/* Success Feedback Animation */}
@@ -569,7 +752,7 @@ export function GameInterface({
                 <span className="font-semibold">Order Placed Successfully!</span>
               </div>
               <div className="text-sm text-green-300 mt-1">
-                Position opened with {selectedAsset?.maxLeverage}x leverage
+                Position opened with {leverage}x leverage
               </div>
             </Card>
           </motion.div>
@@ -586,16 +769,19 @@ export function GameInterface({
           <AlertDescription className="text-orange-400">
             <div className="font-semibold mb-1">Margin Requirement</div>
             <div className="text-sm space-y-1">
-              <div>Each trade requires $10 USDC margin in your Hyperliquid account</div>
+              <div>Each trade puts your ${stake} USDC stake up as margin in your Hyperliquid account</div>
               <div className="flex items-center space-x-4">
-                <span>40x leverage = $400 position</span>
-                <span>•</span>
-                <span>Max BTC leverage: 40x</span>
-                <span>•</span>
-                <span>Max ETH leverage: 25x</span>
+                <span>{leverage}x leverage = ${stake * leverage} position</span>
+                {selectedAsset && (
+                  <>
+                    <span>•</span>
+                    <span>Max {selectedAsset.id} leverage: {selectedAsset.maxLeverage}x</span>
+                  </>
+                )}
               </div>
               <div className="text-xs text-orange-300 mt-2">
-                Make sure you have at least $10+ USDC in your Hyperliquid account before trading
+                Make sure you have at least ${stake}+ USDC in your Hyperliquid account before trading
+                {withdrawable !== undefined && ` (available: $${withdrawable.toFixed(2)})`}
               </div>
             </div>
           </AlertDescription>
@@ -642,6 +828,50 @@ export function GameInterface({
         />
       )}
 
+      {/* Unresolved Close Alerts */}
+      {unresolvedRounds.map(round => round.unresolvedClose && (
+        <Alert key={round.cloid} className="border-red-500/50 bg-red-500/10">
+          <AlertTriangle className="h-4 w-4 text-red-400" />
+          <AlertDescription className="text-red-400">
+            <div className="flex items-center justify-between">
+              <div>
+                <div className="font-semibold mb-1">
+                  {round.prediction.asset.id} {round.prediction.direction.toUpperCase()} Not Confirmed Closed
+                </div>
+                <div className="text-sm">{describeCloseResult(round.unresolvedClose)}</div>
+                {round.unresolvedClose.error && (
+                  <div className="text-xs mt-1 text-slate-400">{round.unresolvedClose.error}</div>
+                )}
+                <div className="text-xs mt-1 text-slate-400">
+                  No result is recorded until the position is closed on Hyperliquid.
+                </div>
+              </div>
+              <Button
+                onClick={() => handleRetryClose(round.cloid)}
+                variant="outline"
+                size="sm"
+                disabled={retryingCloid !== null}
+                className="text-red-400 border-red-400 hover:bg-red-400/10"
+              >
+                {retryingCloid === round.cloid
+                  ? <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                  : <RefreshCw className="w-4 h-4 mr-2" />}
+                Retry Close
+              </Button>
+            </div>
+          </AlertDescription>
+        </Alert>
+      ))}
+
+      {/* Exchange vs. game drift */}
+      <ReconciliationPanel
+        drifts={reconciliationQuery.data?.drifts ?? []}
+        pendingDriftId={pendingDriftId}
+        canAdopt={hasFreeSlot && !isPlacingOrder}
+        onFlatten={flattenDrift}
+        onAdopt={handleAdoptDrift}
+      />
+
       {/* Active Position Alert */}
       {activePositions.length > 0 && (
         <Alert className="border-blue-500/50 bg-blue-500/10">
@@ -649,13 +879,18 @@ export function GameInterface({
           <AlertDescription className="text-blue-400">
             <div className="font-semibold mb-1">Active Position</div>
             <div className="text-sm">
-              You have {activePositions.length} active position(s).
-              Wait for it to close before placing a new prediction.
+              {multiRound
+                ? `${openRoundCount} of ${MAX_CONCURRENT_ROUNDS} round slots in use.`
+                : <>
+                  You have {activePositions.length} active position(s).
+                  Wait for it to close before placing a new prediction.
+                </>}
             </div>
             <div className="mt-2 space-y-1">
               {activePositions.map(position => (
                 <div key={position.cloid} className="text-xs bg-blue-500/20 rounded p-2">
                   {position.asset} {position.direction.toUpperCase()} - Entry: ${position.entryPrice}
+                  {position.unresolved && <span className="text-red-400"> • close unresolved</span>}
                 </div>
               ))}
             </div>
@@ -669,20 +904,20 @@ export function GameInterface({
           <PriceDisplay
             asset={selectedAsset}
             gameState={gameState}
-            prediction={currentPrediction}
+            prediction={displayedPrediction}
           />
         </Card>
       )}
 
       {/* Game Controls */}
-      {isWalletConnected && (gameState === 'idle' || gameState === 'countdown') && (
+      {isWalletConnected && (canStartRound || gameState === 'countdown') && (
         <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
           <Card className="p-6 bg-slate-900/50 border-slate-800">
             <AssetSelector
               assets={assets}
               selectedAsset={selectedAsset}
               onAssetSelect={setSelectedAsset}
-              disabled={gameState !== 'idle' || !canPlaceOrder}
+              disabled={!canStartRound || !canPlaceOrder}
             />
           </Card>
 
@@ -690,9 +925,24 @@ export function GameInterface({
             <CombinedSettingsSelector
               timeWindow={timeWindow}
               onTimeWindowSelect={setTimeWindow}
-              leverage={selectedAsset?.maxLeverage || 1}
-              disabled={gameState !== 'idle' || !canPlaceOrder}
+              stake={stake}
+              onStakeSelect={setStake}
+              withdrawable={withdrawable}
+              stakeError={stakeError}
+              leverage={leverage}
+              onLeverageSelect={handleLeverageSelect}
+              marginMode={marginMode}
+              onMarginModeSelect={handleMarginModeSelect}
+              maxSlippageBps={maxSlippageBps}
+              onMaxSlippageSelect={setMaxSlippageBps}
+              disabled={!canStartRound || !canPlaceOrder}
               selectedAsset={selectedAsset}
+              brackets={bracketConfig}
+              onBracketsChange={setBracketConfig}
+              endRoundOnBracket={endRoundOnBracket}
+              onEndRoundOnBracketChange={setEndRoundOnBracket}
+              multiRound={multiRound}
+              onMultiRoundChange={setMultiRound}
             />
           </Card>
         </div>
@@ -700,11 +950,14 @@ export function GameInterface({
 
       {/* Prediction Buttons or Game Status */}
       {isWalletConnected && (
-        <Card className="p-6 bg-slate-900/50 border-slate-800">
-          {gameState === 'idle' && (
+        <Card className="p-6 bg-slate-900/50 border-slate-800 space-y-6">
+          {canStartRound && (
             <PredictionButtons
               onPredict={handlePrediction}
-              disabled={!selectedAsset || !hlConnected || !canPlaceOrder || mutations.placePredictionOrder.isPending}
+              disabled={!selectedAsset || !hlConnected || !canPlaceOrder || mutations.placePredictionOrder.isPending || feedHealth.isStale}
+              disabledReason={staleFeedReason}
+              previews={orderPreviews}
+              assetSymbol={selectedAsset?.id}
             />
           )}
 
@@ -728,45 +981,22 @@ export function GameInterface({
           )}
 
 
-          {gameState === 'active' && currentPrediction && selectedAsset && !showCompletionModal && (
-            <GameTimer
-              initialTime={timeWindow}
-              onComplete={(realExitPrice?: number) => {
-                const finalExitPrice = realExitPrice ?? selectedAsset.price
-                const realEntryPrice = activeTradeData?.entryPrice
-                const realPositionSize = activeTradeData?.positionSize
-
-                // Calculate real P&L if we have the data
-                let realPnLDollar: number | undefined
-                if (realEntryPrice && realPositionSize && finalExitPrice) {
-                  const sizeNumber = parseFloat(realPositionSize)
-                  realPnLDollar = currentPrediction.direction === 'up'
-                    ? (finalExitPrice - realEntryPrice) * sizeNumber  // LONG position
-                    : (realEntryPrice - finalExitPrice) * sizeNumber; // SHORT position
-                }
-
-                handleGameComplete(
-                  'loss', // This will be recalculated based on real P&L in handleGameComplete
-                  finalExitPrice,
-                  400,
-                  realEntryPrice,
-                  realPositionSize,
-                  realPnLDollar
-                )
-              }}
-              type="game"
-              prediction={currentPrediction}
-              currentPrice={selectedAsset.price}
-              existingPositionCloid={activePositionCloid}
-              // ✅ NEW: Pass real trade data to GameTimer (leverage is essential for fallback P&L)
-              actualEntryPrice={activeTradeData?.entryPrice}
-              positionSize={activeTradeData?.positionSize}
-              leverage={activeTradeData?.leverage ?? selectedAsset?.maxLeverage ?? 1}
-              positionValue={400} // Could also be calculated from positionSize if needed
-            />
+          {/* Running rounds stay mounted through countdowns and results, so no timer restarts */}
+          {activeRounds.length > 0 && (
+            <div className={activeRounds.length > 1 ? 'grid grid-cols-1 lg:grid-cols-2 gap-6' : ''}>
+              {activeRounds.map(round => (
+                <div key={round.cloid} className={activeRounds.length > 1 ? 'rounded-lg border border-slate-700 p-4' : ''}>
+                  <RoundTimer
+                    round={round}
+                    currentPrice={assets.find(a => a.id === round.prediction.asset.id)?.price}
+                    onExit={handleRoundExit}
+                  />
+                </div>
+              ))}
+            </div>
           )}
 
-          {gameState === 'result' && !showCompletionModal && (
+          {gameState === 'result' && !completedRound && (
             <div className="text-center space-y-4">
               <div className="text-2xl font-bold text-white">Game Complete!</div>
               <div className="animate-pulse">
@@ -775,7 +1005,7 @@ export function GameInterface({
             </div>
           )}
 
-          {gameState === 'result' && currentPrediction && !showCompletionModal && (
+          {gameState === 'result' && currentPrediction && !completedRound && (
             <ResultDisplay
               prediction={currentPrediction}
               onPlayAgain={handlePlayAgain}
@@ -802,11 +1032,11 @@ export function GameInterface({
             Testnet
           </Badge>
           <span>•</span>
-          <span>$10 margin per trade</span>
+          <span>${stake} margin per trade</span>
           <span>•</span>
-          <span>True leverage up to 40x</span>
+          <span>{leverage}x leverage</span>
           <span>•</span>
-          <span>Max position: $400</span>
+          <span>Position: ${stake * leverage}</span>
         </div>
       </div>
 
@@ -1,20 +1,26 @@
-// GameTimer.tsx - Fixed to use consistent P&L logic with completion modal
+// GameTimer.tsx - Live P&L from lib/pnl, same module the completion modal settles with
 import { useState, useEffect, useCallback, useRef } from 'react'
 import { motion, AnimatePresence } from 'framer-motion'
 import { Progress } from './ui/progress'
 import { Button } from './ui/button'
-import { Clock, Target, TrendingUp, TrendingDown, DollarSign, Loader2, Zap, Flame, Trophy, AlertCircle, Eye, EyeOff } from 'lucide-react'
+import { Clock, Target, TrendingUp, TrendingDown, DollarSign, Loader2, Zap, Flame, Trophy, AlertCircle, Eye, EyeOff, ShieldCheck, LifeBuoy } from 'lucide-react'
 import { useHyperliquid, useAssetPnL } from '@/hooks/useHyperliquid'
 import { useHyperliquidOrders } from '@/hooks/useHyperliquidTrading'
 import { OrderBook } from '@/components/OrderBook'
-import type { RealTimePnLData } from '@/service/hyperliquidOrders'
+import { TradeTape } from '@/components/TradeTape'
+import type { CloseResult, RealTimePnLData } from '@/service/hyperliquidOrders'
 import { useAccount } from 'wagmi'
 import { Prediction } from '@/lib/types'
+import { feesOf, openPnL } from '@/lib/pnl'
+import type { PnLBreakdown } from '@/lib/pnl'
+import { hyperliquidOrders } from '@/service/hyperliquidOrders'
 
 // ✅ UPDATED: Add real trade data to props
 interface GameTimerProps {
   initialTime: number
-  onComplete: (realExitPrice?: number) => void
+  onComplete: (realExitPrice?: number, pnl?: PnLBreakdown) => void
+  // Close could not be confirmed - no result should be recorded
+  onCloseUnresolved?: (result: CloseResult) => void
   type: 'countdown' | 'game'
   prediction?: Prediction
   currentPrice?: number
@@ -22,8 +28,8 @@ interface GameTimerProps {
   // ✅ NEW: Real trade data for consistent P&L calculation
   actualEntryPrice?: number
   positionSize?: string
+  requestedSize?: string // Entry order size; larger than positionSize after a partial fill
   leverage?: number
-  positionValue?: number
 }
 
 interface RealTimePnLState {
@@ -47,6 +53,7 @@ interface PnLDisplayData {
 export function GameTimer({
   initialTime,
   onComplete,
+  onCloseUnresolved,
   type,
   prediction,
   currentPrice,
@@ -54,8 +61,8 @@ export function GameTimer({
   // ✅ NEW: Receive real trade data
   actualEntryPrice,
   positionSize,
-  leverage,
-  positionValue = 400
+  requestedSize,
+  leverage
 }: GameTimerProps) {
   const [timeLeft, setTimeLeft] = useState(initialTime)
   const [isActive, setIsActive] = useState(true)
@@ -74,7 +81,8 @@ export function GameTimer({
 
   const { address, isConnected: isWalletConnected, chain } = useAccount()
   const { startPnLPolling } = useHyperliquid(address)
-  const { explicitClosePosition } = useHyperliquidOrders(address, isWalletConnected, chain)
+  const { explicitClosePosition, updateIsolatedMargin, isUpdatingMargin } = useHyperliquidOrders(address, isWalletConnected, chain)
+  const [marginError, setMarginError] = useState<string | null>(null)
 
   const activePositionCloid = existingPositionCloid
   const assetPnLQuery = useAssetPnL(address, prediction?.asset.id)
@@ -85,79 +93,46 @@ export function GameTimer({
     return 'Unknown P&L error occurred'
   }, [])
 
-  // ✅ NEW: Calculate P&L using the same logic as completion modal
-  const calculateRealTimePnL = useCallback((): {
-    dollarPnL: number;
-    percentagePnL: number;
-    isRealData: boolean;
-    actualResult: 'win' | 'loss' | 'neutral';
-  } => {
-    if (!prediction || typeof currentPrice === 'undefined') {
-      return { dollarPnL: 0, percentagePnL: 0, isRealData: false, actualResult: 'neutral' };
-    }
-
-    // First priority: Use real-time P&L from API if available
-    if (realTimePnL.lastUpdate && !realTimePnL.error && realTimePnL.unrealizedPnl !== 0) {
-      const realPercentage = positionValue > 0 ? (Math.abs(realTimePnL.unrealizedPnl) / positionValue) * 100 : 0;
-      return {
-        dollarPnL: realTimePnL.unrealizedPnl,
-        percentagePnL: realPercentage,
-        isRealData: true,
-        actualResult: realTimePnL.unrealizedPnl > 0 ? 'win' : realTimePnL.unrealizedPnl < 0 ? 'loss' : 'neutral'
-      };
-    }
-
-    // Second priority: Calculate from actual prices and position size (same logic as completion modal)
-    if (actualEntryPrice && positionSize) {
-      const sizeNumber = parseFloat(positionSize);
-      // ✅ FIXED: Account for trade direction in P&L calculation
-      const dollarPnL = prediction.direction === 'up'
-        ? (currentPrice - actualEntryPrice) * sizeNumber  // LONG position
-        : (actualEntryPrice - currentPrice) * sizeNumber; // SHORT position
-      const percentagePnL = positionValue > 0 ? (Math.abs(dollarPnL) / positionValue) * 100 : 0;
-
-      return {
-        dollarPnL,
-        percentagePnL,
-        isRealData: true,
-        actualResult: dollarPnL > 0 ? 'win' : dollarPnL < 0 ? 'loss' : 'neutral'
-      };
-    }
-
-    // Fallback: Use percentage estimation based on direction prediction (same as completion modal)
-    const entryPrice = actualEntryPrice || prediction.entryPrice;
-    const priceDiff = currentPrice - entryPrice;
-    const percentageMove = entryPrice !== 0 ? Math.abs(priceDiff / entryPrice) * 100 : 0;
-
-    const didPriceGoUp = priceDiff > 0;
-    const predictedUp = prediction.direction === 'up';
-    const isCorrectPrediction = didPriceGoUp === predictedUp;
-
-    // ✅ FIXED: Apply leverage to the fallback calculation
-    const usedLeverage = leverage || 1;
-    const estimatedPnL = (positionValue * percentageMove * usedLeverage) / 100;
-    const leveragedPnL = estimatedPnL * (isCorrectPrediction ? 1 : -1);
-
-    return {
-      dollarPnL: leveragedPnL,
-      percentagePnL: percentageMove * usedLeverage, // ✅ FIXED: Apply leverage to percentage display
-      isRealData: false,
-      actualResult: isCorrectPrediction ? 'win' : 'loss'
-    };
-  }, [prediction, currentPrice, realTimePnL, actualEntryPrice, positionSize, positionValue]);
+  // Live P&L: the exchange's unrealized PnL when polled, the price move otherwise, less entry fees paid
+  const calculateRealTimePnL = useCallback((): { pnl: PnLBreakdown; isRealData: boolean } | null => {
+    if (!prediction || typeof currentPrice === 'undefined') return null
+
+    // A bracket already closed the position: its realized PnL is final
+    const position = activePositionCloid ? hyperliquidOrders.getPosition(activePositionCloid) : undefined
+    if (position?.closed && position.pnl) return { pnl: position.pnl, isRealData: position.pnl.isExact }
+
+    // The exchange reports one PnL per asset, which rounds sharing the asset can't split
+    const sharesAsset = hyperliquidOrders.getActivePositions()
+      .some(p => p.asset === prediction.asset.id && p.cloid !== activePositionCloid)
+    const hasExchangePnL = !sharesAsset && !!realTimePnL.lastUpdate && !realTimePnL.error && realTimePnL.unrealizedPnl !== 0
+    const entryFees = activePositionCloid ? feesOf(hyperliquidOrders.getFills(activePositionCloid)) : 0
+    // Late fills update the tracked position, so it knows the filled size best
+    const pnl = openPnL(
+      {
+        direction: prediction.direction,
+        entryPrice: position?.entryPrice || actualEntryPrice || prediction.entryPrice,
+        size: parseFloat(position?.size ?? positionSize ?? '') || 0,
+        leverage: leverage || 1
+      },
+      currentPrice,
+      entryFees,
+      hasExchangePnL ? realTimePnL.unrealizedPnl : undefined
+    )
+    return { pnl, isRealData: hasExchangePnL }
+  }, [prediction, currentPrice, realTimePnL, actualEntryPrice, positionSize, leverage, activePositionCloid]);
 
-  // ✅ UPDATED: Get P&L display using consistent logic
   const getPnLDisplay = useCallback((): PnLDisplayData | null => {
     if (!activePositionCloid || !prediction) return null;
 
-    const pnlCalc = calculateRealTimePnL();
+    const live = calculateRealTimePnL();
+    if (!live) return null;
 
     return {
-      value: pnlCalc.percentagePnL,
-      dollarValue: pnlCalc.isRealData ? pnlCalc.dollarPnL : null,
-      isWinning: pnlCalc.actualResult === 'win',
-      isLosing: pnlCalc.actualResult === 'loss',
-      isReal: pnlCalc.isRealData,
+      value: Math.abs(live.pnl.roe),
+      dollarValue: live.pnl.net,
+      isWinning: live.pnl.net > 0,
+      isLosing: live.pnl.net < 0,
+      isReal: live.isRealData,
       isLoading: realTimePnL.isLoading || assetPnLQuery.isLoading
     };
   }, [activePositionCloid, prediction, calculateRealTimePnL, realTimePnL.isLoading, assetPnLQuery.isLoading]);
@@ -165,8 +140,8 @@ export function GameTimer({
   // Update winning state based on consistent P&L calculation
   useEffect(() => {
     if (type === 'game' && prediction && currentPrice) {
-      const pnlCalc = calculateRealTimePnL();
-      setIsWinning(pnlCalc.actualResult === 'win');
+      const live = calculateRealTimePnL();
+      if (live) setIsWinning(live.pnl.net > 0);
     }
   }, [type, prediction, currentPrice, calculateRealTimePnL]);
 
@@ -176,25 +151,31 @@ export function GameTimer({
     console.log(`🎯 GameTimer: Timer expired, closing position ${cloidToClose}`)
     setIsClosingPosition(true)
 
+    let closeResult: CloseResult
     try {
-      const closeResult = await explicitClosePosition({ cloid: cloidToClose })
-
-      if (closeResult.success && closeResult.exitPrice) {
-        console.log(`✅ GameTimer: Position ${cloidToClose} closed successfully at REAL PRICE ${closeResult.exitPrice}`)
-        setIsClosingPosition(false)
-        onComplete(closeResult.exitPrice)
-        return
-      } else {
-        console.error(`❌ GameTimer: Failed to close position ${cloidToClose}:`, closeResult.error)
-      }
+      closeResult = await explicitClosePosition({ cloid: cloidToClose })
     } catch (error) {
-      console.error(`❌ GameTimer: Error closing position ${cloidToClose}:`, error)
+      closeResult = { success: false, status: 'error', attempts: 0, error: error instanceof Error ? error.message : String(error) }
     }
-
-    console.log(`⚠️ GameTimer: Using fallback price ${currentPrice} due to close failure`)
     setIsClosingPosition(false)
-    onComplete(currentPrice)
-  }, [explicitClosePosition, isClosingPosition, onComplete, currentPrice]);
+
+    if (closeResult.success && closeResult.exitPrice) {
+      console.log(`✅ GameTimer: Position ${cloidToClose} closed successfully at REAL PRICE ${closeResult.exitPrice}`)
+      onComplete(closeResult.exitPrice, closeResult.pnl)
+      return
+    }
+
+    // Never settle the round on a guessed price
+    console.error(`❌ GameTimer: Close of ${cloidToClose} unresolved (${closeResult.status}):`, closeResult.error)
+    onCloseUnresolved?.(closeResult)
+  }, [explicitClosePosition, isClosingPosition, onComplete, onCloseUnresolved]);
+
+  const handleAddMargin = useCallback(async (amount: number): Promise<void> => {
+    if (!activePositionCloid) return
+    setMarginError(null)
+    const result = await updateIsolatedMargin({ cloid: activePositionCloid, amount })
+    if (!result.success) setMarginError(result.error || 'Margin update failed')
+  }, [activePositionCloid, updateIsolatedMargin]);
 
   // Timer countdown logic
   useEffect(() => {
@@ -300,6 +281,18 @@ export function GameTimer({
   const isLastSecond = timeLeft <= 1 && timeLeft > 0
 
   const pnlDisplay = getPnLDisplay()
+  // Share of the entry-to-liquidation distance already covered; near 1 means close to liquidation
+  const margin = assetPnLQuery.data
+  const entryForLiquidation = actualEntryPrice || prediction?.entryPrice
+  const liquidationRisk = margin?.liquidationPx && entryForLiquidation && currentPrice
+    ? Math.max(0, Math.min(1, 1 - Math.abs(currentPrice - margin.liquidationPx) / Math.abs(entryForLiquidation - margin.liquidationPx)))
+    : null
+  // Read on every tick: the service updates the position when a bracket fills
+  const trackedPosition = activePositionCloid ? hyperliquidOrders.getPosition(activePositionCloid) : undefined
+  const filledSize = parseFloat(trackedPosition?.size ?? positionSize ?? '') || 0
+  const orderSize = parseFloat(trackedPosition?.requestedSize ?? requestedSize ?? '') || 0
+  const isPartialFill = filledSize > 0 && orderSize > filledSize
+  const protectiveStop = trackedPosition?.brackets?.protectiveStop?.status === 'active' ? trackedPosition.brackets.protectiveStop : undefined
 
   if (type === 'countdown') {
     return (
@@ -340,6 +333,7 @@ export function GameTimer({
               {prediction.direction === 'up' ? <TrendingUp className="w-4 h-4" /> : <TrendingDown className="w-4 h-4" />}
               <span>{prediction.direction.toUpperCase()}</span>
             </div>
+            <span className="text-white font-bold">{prediction.asset.id}</span>
           </div>
         )}
 
@@ -363,7 +357,10 @@ export function GameTimer({
             transition={{ duration: 0.3, ease: "easeInOut" }}
             className="overflow-hidden"
           >
-            <OrderBook coin={prediction.asset.id} currentPrice={currentPrice} isWinning={isWinning} />
+            <div className="space-y-4">
+              <OrderBook coin={prediction.asset.id} currentPrice={currentPrice} isWinning={isWinning} szDecimals={prediction.asset.szDecimals} />
+              <TradeTape coin={prediction.asset.id} />
+            </div>
           </motion.div>
         )}
       </AnimatePresence>
@@ -383,6 +380,29 @@ export function GameTimer({
         />
       </div>
 
+      {prediction && (prediction.takeProfit !== undefined || prediction.stopLoss !== undefined || protectiveStop) && (
+        <div className="flex items-center justify-center space-x-4 text-sm font-mono">
+          {prediction.takeProfit !== undefined && <span className="text-green-400">TP ${prediction.takeProfit}</span>}
+          {prediction.stopLoss !== undefined && <span className="text-red-400">SL ${prediction.stopLoss}</span>}
+          {protectiveStop && <span className="text-orange-400" title="Closes the position if this tab is gone">Safety stop ${protectiveStop.triggerPx}</span>}
+        </div>
+      )}
+
+      {isPartialFill && (
+        <div className="text-center text-xs text-yellow-400">
+          Partial fill: {filledSize} of {orderSize} {prediction?.asset.symbol} ({((filledSize / orderSize) * 100).toFixed(0)}%) — P&L is on the filled size
+        </div>
+      )}
+
+      {trackedPosition?.closed && trackedPosition.bracketHit && trackedPosition.exitPrice !== undefined && (
+        <div className={`text-center text-sm flex items-center justify-center space-x-2 ${trackedPosition.bracketHit === 'takeProfit' ? 'text-green-400' : 'text-red-400'}`}>
+          <ShieldCheck className="w-4 h-4" />
+          <span>
+            {trackedPosition.bracketHit === 'takeProfit' ? 'Take profit hit' : 'Stopped out'} at ${trackedPosition.exitPrice} — settles when the timer ends
+          </span>
+        </div>
+      )}
+
       {isClosingPosition && (
         <div className="text-center text-yellow-400">
           <Loader2 className="w-6 h-6 animate-spin inline-block mr-2" />
@@ -458,6 +478,44 @@ export function GameTimer({
           </div>
         </motion.div>
       )}
+
+      {margin && activePositionCloid && !trackedPosition?.closed && (
+        <div className={`p-3 rounded-lg border text-xs space-y-2 ${liquidationRisk !== null && liquidationRisk > 0.7 ? 'border-red-500/50 bg-red-500/10' : 'border-slate-700 bg-slate-800/30'}`}>
+          <div className="flex justify-between text-slate-400">
+            <span>Margin ({margin.marginMode})</span>
+            <span className="font-mono text-white">${margin.marginUsed.toFixed(2)}</span>
+          </div>
+          {margin.liquidationPx !== null && (
+            <div className="flex justify-between text-slate-400">
+              <span>Liquidation price</span>
+              <span className="font-mono text-red-400">${margin.liquidationPx}</span>
+            </div>
+          )}
+          {margin.marginMode === 'isolated' && (
+            <div className="flex items-center justify-between">
+              <span className={liquidationRisk !== null && liquidationRisk > 0.7 ? 'text-red-400 font-semibold' : 'text-slate-400'}>
+                {liquidationRisk !== null && liquidationRisk > 0.7 ? 'Near liquidation!' : 'Add margin'}
+              </span>
+              <div className="flex space-x-2">
+                {[5, 10].map(amount => (
+                  <Button
+                    key={amount}
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleAddMargin(amount)}
+                    disabled={isUpdatingMargin}
+                    className="h-7 text-blue-400 border-blue-400 hover:bg-blue-400/10"
+                  >
+                    {isUpdatingMargin ? <Loader2 className="w-3 h-3 mr-1 animate-spin" /> : <LifeBuoy className="w-3 h-3 mr-1" />}
+                    +${amount}
+                  </Button>
+                ))}
+              </div>
+            </div>
+          )}
+          {marginError && <div className="text-red-400">{marginError}</div>}
+        </div>
+      )}
     </div>
   )
 }
\ No newline at end of file
@@ -1,23 +1,83 @@
-import React, { useMemo } from 'react'
+import React, { useMemo, useState } from 'react'
 import { motion } from 'framer-motion'
-import { TrendingUp, TrendingDown, Activity, Wifi, WifiOff } from 'lucide-react'
-import { ProcessedOrderLevel } from '@/hooks/useHyperliquid'
-import { useOrderBook } from '@/hooks/useHyperliquidSubscription'
-import { processOrderBook } from '@/lib/utils'
+import { TrendingUp, TrendingDown, Activity, Wifi, WifiOff, BarChart3, List } from 'lucide-react'
+import { Area, AreaChart, XAxis, YAxis } from 'recharts'
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from './ui/chart'
+import { ProcessedOrderBook, ProcessedOrderLevel } from '@/hooks/useHyperliquid'
+import { useBbo, useOrderBook } from '@/hooks/useHyperliquidSubscription'
+import { L2BookAggregation } from '@/service/hyperliquid'
+import { formatDisplayPrice, formatDisplaySize, getAggregationTick, processOrderBook } from '@/lib/utils'
 
 interface OrderBookProps {
     coin: string
     currentPrice?: number
     isWinning?: boolean | null
+    szDecimals?: number
 }
 
 interface OrderLevelRowProps {
     level: ProcessedOrderLevel
     type: 'bid' | 'ask'
     isFirst?: boolean
+    szDecimals: number
 }
 
-function OrderLevelRow({ level, type, isFirst }: OrderLevelRowProps) {
+// Aggregation levels supported by l2Book; mantissa is only valid with 5 significant figures
+const AGGREGATION_OPTIONS: L2BookAggregation[] = [
+    {},
+    { nSigFigs: 5, mantissa: 2 },
+    { nSigFigs: 5, mantissa: 5 },
+    { nSigFigs: 4 },
+    { nSigFigs: 3 },
+    { nSigFigs: 2 },
+]
+
+const BOOK_ROWS = 5
+const DEPTH_LEVELS = 20
+
+const depthChartConfig = {
+    bids: { label: 'Bids', color: '#4ade80' },
+    asks: { label: 'Asks', color: '#f87171' },
+} satisfies ChartConfig
+
+function DepthChart({ book, szDecimals }: { book: ProcessedOrderBook; szDecimals: number }) {
+    // Cumulative size walking out from the spread on each side, on one price axis
+    const data = useMemo(() => [
+        ...[...book.bids].reverse().map(level => ({ price: level.price, bids: level.total, asks: null })),
+        ...book.asks.map(level => ({ price: level.price, bids: null, asks: level.total })),
+    ], [book])
+
+    if (data.length < 2) {
+        return <div className="h-56 flex items-center justify-center text-sm text-slate-500">Not enough depth</div>
+    }
+
+    return (
+        <ChartContainer config={depthChartConfig} className="h-56 w-full aspect-auto">
+            <AreaChart data={data} margin={{ top: 8, right: 8, bottom: 0, left: 8 }}>
+                <XAxis
+                    dataKey="price"
+                    type="number"
+                    domain={['dataMin', 'dataMax']}
+                    tickFormatter={(price: number) => formatDisplayPrice(price, szDecimals)}
+                    tickLine={false}
+                    axisLine={false}
+                    minTickGap={32}
+                />
+                <YAxis
+                    tickFormatter={(size: number) => formatDisplaySize(size, szDecimals)}
+                    tickLine={false}
+                    axisLine={false}
+                    width={56}
+                />
+                <ChartTooltip content={<ChartTooltipContent labelFormatter={(_, payload) => formatDisplayPrice(payload?.[0]?.payload?.price, szDecimals)} />} />
+                <Area dataKey="bids" type="stepAfter" stroke="var(--color-bids)" fill="var(--color-bids)" fillOpacity={0.2} connectNulls={false} isAnimationActive={false} />
+                <Area dataKey="asks" type="stepBefore" stroke="var(--color-asks)" fill="var(--color-asks)" fillOpacity={0.2} connectNulls={false} isAnimationActive={false} />
+            </AreaChart>
+        </ChartContainer>
+    )
+}
+
+function OrderLevelRow({ level, type, isFirst, szDecimals }: OrderLevelRowProps) {
     const isBid = type === 'bid'
     const textColor = isBid ? 'text-green-400' : 'text-red-400'
     const bgColor = isBid ? 'bg-green-500' : 'bg-red-500'
@@ -59,35 +119,52 @@ function OrderLevelRow({ level, type, isFirst }: OrderLevelRowProps) {
             {/* Content */}
             <div className="relative z-10 flex items-center justify-between w-full">
                 <div className={`font-bold ${textColor}`}>
-                    ${level.price.toFixed(2)}
+                    ${formatDisplayPrice(level.price, szDecimals)}
                 </div>
                 <div className="text-slate-300">
-                    {level.size.toFixed(2)}
+                    {formatDisplaySize(level.size, szDecimals)}
                 </div>
                 <div className="text-slate-400 text-xs">
-                    {level.total.toFixed(2)}
+                    {formatDisplaySize(level.total, szDecimals)}
                 </div>
             </div>
         </motion.div>
     )
 }
 
-export function OrderBook({ coin, currentPrice, isWinning }: OrderBookProps) {
-    const orderBookQuery = useOrderBook(coin)
+export function OrderBook({ coin, currentPrice, isWinning, szDecimals = 0 }: OrderBookProps) {
+    const [aggregationIndex, setAggregationIndex] = useState(0)
+    const [view, setView] = useState<'book' | 'depth'>('book')
+    const aggregation = AGGREGATION_OPTIONS[aggregationIndex]
+
+    const orderBookQuery = useOrderBook(coin, aggregation)
+    const bboQuery = useBbo(coin)
 
     const processedData = useMemo(() => {
-        return processOrderBook(orderBookQuery.data ?? null)
+        return processOrderBook(orderBookQuery.data ?? null, DEPTH_LEVELS)
     }, [orderBookQuery.data])
 
     const isLoading = orderBookQuery.isLoading
     const isConnected = !orderBookQuery.isError && !!orderBookQuery.data
     const lastUpdate = orderBookQuery.dataUpdatedAt
 
-    // Find best bid and ask for spread calculation
-    const bestBid = processedData?.bids[0]?.price
-    const bestAsk = processedData?.asks[0]?.price
+    // Prefer the exchange's own best bid/offer; fall back to the top of the book
+    const [bboBid, bboAsk] = bboQuery.data?.bbo ?? [null, null]
+    const bestBid = bboBid ? parseFloat(bboBid.px) : processedData?.bids[0]?.price
+    const bestAsk = bboAsk ? parseFloat(bboAsk.px) : processedData?.asks[0]?.price
     const spread = bestBid && bestAsk ? bestAsk - bestBid : 0
-    const spreadPercent = bestBid && spread ? (spread / bestBid) * 100 : 0
+    const mid = bestBid && bestAsk ? (bestBid + bestAsk) / 2 : currentPrice
+    const spreadPercent = mid && spread ? (spread / mid) * 100 : 0
+
+    // Resting notional on each side of the visible book; +100 = all bids, -100 = all asks
+    const bidNotional = processedData?.bids.reduce((sum, level) => sum + level.size * level.price, 0) ?? 0
+    const askNotional = processedData?.asks.reduce((sum, level) => sum + level.size * level.price, 0) ?? 0
+    const imbalance = bidNotional + askNotional > 0
+        ? ((bidNotional - askNotional) / (bidNotional + askNotional)) * 100
+        : 0
+
+    const referencePrice = mid || currentPrice || 0
+    const visibleAsks = processedData?.asks.slice(0, BOOK_ROWS).reverse() ?? []
 
     if (isLoading) {
         return (
@@ -147,79 +224,145 @@ export function OrderBook({ coin, currentPrice, isWinning }: OrderBookProps) {
                     )}
                 </div>
 
-                {/* Column Headers */}
-                <div className="flex items-center justify-between px-3 py-2 text-xs font-medium text-slate-400 bg-slate-900/50 rounded">
-                    <span>Price ({coin})</span>
-                    <span>Size</span>
-                    <span>Total</span>
+                {/* Aggregation & View Controls */}
+                <div className="flex items-center justify-between mb-3">
+                    <div className="flex items-center space-x-2 text-xs text-slate-400">
+                        <span>Group</span>
+                        <select
+                            value={aggregationIndex}
+                            onChange={(e) => setAggregationIndex(Number(e.target.value))}
+                            className="bg-slate-900 border border-slate-700 rounded px-2 py-1 text-slate-200 font-mono"
+                        >
+                            {AGGREGATION_OPTIONS.map((option, index) => (
+                                <option key={index} value={index}>
+                                    {referencePrice > 0
+                                        ? getAggregationTick(referencePrice, szDecimals, option).toLocaleString(undefined, { maximumFractionDigits: 8 })
+                                        : option.nSigFigs ? `${option.nSigFigs} sig figs` : 'Full'}
+                                </option>
+                            ))}
+                        </select>
+                    </div>
+                    <div className="flex items-center bg-slate-900/50 rounded p-0.5">
+                        <button
+                            onClick={() => setView('book')}
+                            className={`p-1.5 rounded ${view === 'book' ? 'bg-slate-700 text-white' : 'text-slate-400 hover:text-white'}`}
+                            title="Order book"
+                        >
+                            <List className="w-4 h-4" />
+                        </button>
+                        <button
+                            onClick={() => setView('depth')}
+                            className={`p-1.5 rounded ${view === 'depth' ? 'bg-slate-700 text-white' : 'text-slate-400 hover:text-white'}`}
+                            title="Depth chart"
+                        >
+                            <BarChart3 className="w-4 h-4" />
+                        </button>
+                    </div>
                 </div>
+
+                {/* Column Headers */}
+                {view === 'book' && (
+                    <div className="flex items-center justify-between px-3 py-2 text-xs font-medium text-slate-400 bg-slate-900/50 rounded">
+                        <span>Price ({coin})</span>
+                        <span>Size</span>
+                        <span>Total</span>
+                    </div>
+                )}
             </div>
 
+            {view === 'depth' && (
+                <div className="p-2">
+                    <DepthChart book={processedData} szDecimals={szDecimals} />
+                </div>
+            )}
+
             {/* Order Book Content */}
-            <div className="p-2">
-                {/* Asks (Sell Orders) - Red */}
-                <div className="mb-4">
-                    <div className="flex items-center space-x-1 mb-2 px-2">
-                        <TrendingDown className="w-4 h-4 text-red-400" />
-                        <span className="text-sm font-medium text-red-400">
-                            Asks ({processedData.asks.length})
-                        </span>
-                    </div>
-                    <div className="space-y-0.5">
-                        {processedData.asks.slice(0, 5).reverse().map((ask, index) => (
-                            <OrderLevelRow
-                                key={`ask-${ask.price}`}
-                                level={ask}
-                                type="ask"
-                                isFirst={index === processedData.asks.length - 1}
-                            />
-                        ))}
+            {view === 'book' && (
+                <div className="p-2">
+                    {/* Asks (Sell Orders) - Red */}
+                    <div className="mb-4">
+                        <div className="flex items-center space-x-1 mb-2 px-2">
+                            <TrendingDown className="w-4 h-4 text-red-400" />
+                            <span className="text-sm font-medium text-red-400">
+                                Asks ({processedData.asks.length})
+                            </span>
+                        </div>
+                        <div className="space-y-0.5">
+                            {visibleAsks.map((ask, index) => (
+                                <OrderLevelRow
+                                    key={`ask-${ask.price}`}
+                                    level={ask}
+                                    type="ask"
+                                    isFirst={index === visibleAsks.length - 1}
+                                    szDecimals={szDecimals}
+                                />
+                            ))}
+                        </div>
                     </div>
-                </div>
 
-                {/* Current Price & Spread */}
-                {currentPrice && (
-                    <div className="my-4 p-3 bg-slate-900/50 rounded-lg border border-slate-600">
-                        <div className="flex items-center justify-between">
-                            <div className="flex items-center space-x-2">
-                                <span className="text-sm text-slate-400">Current Price:</span>
-                                <span className="text-lg font-bold font-mono text-white">
-                                    ${currentPrice.toFixed(2)}
-                                </span>
-                                {isWinning === true && <TrendingUp className="w-4 h-4 text-green-400" />}
-                                {isWinning === false && <TrendingDown className="w-4 h-4 text-red-400" />}
-                            </div>
-                            {spread > 0 && (
-                                <div className="text-right">
-                                    <div className="text-xs text-slate-400">Spread</div>
-                                    <div className="text-sm font-mono text-slate-300">
-                                        ${spread.toFixed(2)} ({spreadPercent.toFixed(3)}%)
+                    {/* Mid Price & Spread */}
+                    {mid && (
+                        <div className="my-4 p-3 bg-slate-900/50 rounded-lg border border-slate-600">
+                            <div className="flex items-center justify-between">
+                                <div className="flex items-center space-x-2">
+                                    <span className="text-sm text-slate-400">Mid:</span>
+                                    <span className="text-lg font-bold font-mono text-white">
+                                        ${formatDisplayPrice(mid, szDecimals)}
+                                    </span>
+                                    {isWinning === true && <TrendingUp className="w-4 h-4 text-green-400" />}
+                                    {isWinning === false && <TrendingDown className="w-4 h-4 text-red-400" />}
+                                </div>
+                                {spread > 0 && (
+                                    <div className="text-right">
+                                        <div className="text-xs text-slate-400">Spread</div>
+                                        <div className="text-sm font-mono text-slate-300">
+                                            ${formatDisplayPrice(spread, szDecimals)} ({spreadPercent.toFixed(3)}%)
+                                        </div>
                                     </div>
+                                )}
+                            </div>
+                            {currentPrice && (
+                                <div className="mt-1 text-xs text-slate-500 font-mono">
+                                    Last mid tick: ${formatDisplayPrice(currentPrice, szDecimals)}
                                 </div>
                             )}
                         </div>
-                    </div>
-                )}
+                    )}
 
-                {/* Bids (Buy Orders) - Green */}
-                <div>
-                    <div className="flex items-center space-x-1 mb-2 px-2">
-                        <TrendingUp className="w-4 h-4 text-green-400" />
-                        <span className="text-sm font-medium text-green-400">
-                            Bids ({processedData.bids.length})
-                        </span>
-                    </div>
-                    <div className="space-y-0.5">
-                        {processedData.bids.slice(0, 5).map((bid, index) => (
-                            <OrderLevelRow
-                                key={`bid-${bid.price}`}
-                                level={bid}
-                                type="bid"
-                                isFirst={index === 0}
-                            />
-                        ))}
+                    {/* Bids (Buy Orders) - Green */}
+                    <div>
+                        <div className="flex items-center space-x-1 mb-2 px-2">
+                            <TrendingUp className="w-4 h-4 text-green-400" />
+                            <span className="text-sm font-medium text-green-400">
+                                Bids ({processedData.bids.length})
+                            </span>
+                        </div>
+                        <div className="space-y-0.5">
+                            {processedData.bids.slice(0, BOOK_ROWS).map((bid, index) => (
+                                <OrderLevelRow
+                                    key={`bid-${bid.price}`}
+                                    level={bid}
+                                    type="bid"
+                                    isFirst={index === 0}
+                                    szDecimals={szDecimals}
+                                />
+                            ))}
+                        </div>
                     </div>
                 </div>
+            )}
+
+            {/* Book Imbalance */}
+            <div className="px-4 pb-3">
+                <div className="flex items-center justify-between text-xs mb-1">
+                    <span className="text-green-400">Bids {(50 + imbalance / 2).toFixed(0)}%</span>
+                    <span className="text-slate-400">Imbalance (top {DEPTH_LEVELS} levels)</span>
+                    <span className="text-red-400">{(50 - imbalance / 2).toFixed(0)}% Asks</span>
+                </div>
+                <div className="flex h-2 rounded-full overflow-hidden bg-slate-700">
+                    <div className="bg-green-500 transition-all duration-300" style={{ width: `${50 + imbalance / 2}%` }} />
+                    <div className="bg-red-500 transition-all duration-300" style={{ width: `${50 - imbalance / 2}%` }} />
+                </div>
             </div>
 
             {/* Footer Stats */}
@@ -228,12 +371,12 @@ export function OrderBook({ coin, currentPrice, isWinning }: OrderBookProps) {
                     <div className="flex items-center space-x-4">
                         <div className="text-slate-400">
                             Bid Total: <span className="text-green-400 font-mono">
-                                {processedData.bids.reduce((sum, bid) => sum + bid.size, 0).toFixed(2)}
+                                {formatDisplaySize(processedData.bids.reduce((sum, bid) => sum + bid.size, 0), szDecimals)}
                             </span>
                         </div>
                         <div className="text-slate-400">
                             Ask Total: <span className="text-red-400 font-mono">
-                                {processedData.asks.reduce((sum, ask) => sum + ask.size, 0).toFixed(2)}
+                                {formatDisplaySize(processedData.asks.reduce((sum, ask) => sum + ask.size, 0), szDecimals)}
                             </span>
                         </div>
                     </div>
@@ -2,13 +2,49 @@
 import { Button } from './ui/button'
 import { TrendingUp, TrendingDown } from 'lucide-react'
 import { motion } from 'framer-motion'
+import type { OrderPreview } from '@/lib/orderPreview'
 
 interface PredictionButtonsProps {
   onPredict: (direction: 'up' | 'down') => void
   disabled?: boolean
+  disabledReason?: string | null
+  previews?: Record<'up' | 'down', OrderPreview> | null
+  assetSymbol?: string
 }
 
-export function PredictionButtons({ onPredict, disabled }: PredictionButtonsProps) {
+const formatUsd = (value: number): string => `$${value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`
+const formatPrice = (value: number): string => value.toLocaleString(undefined, { maximumSignificantDigits: 6 })
+
+function OrderPreviewDetails({ preview, assetSymbol }: { preview: OrderPreview; assetSymbol?: string }) {
+  const rows: [string, string][] = [
+    ['Size', `${preview.size} ${assetSymbol ?? ''}`.trim()],
+    ['Notional', formatUsd(preview.notional)],
+    ['Est. entry', `$${formatPrice(preview.entryPrice)}`],
+    ['Taker fee', formatUsd(preview.takerFee)],
+    ['Est. liquidation', `$${formatPrice(preview.liquidationPrice)}`],
+    ['Margin required', formatUsd(preview.marginRequired)],
+    ['Available', preview.marginAvailable !== undefined ? formatUsd(preview.marginAvailable) : 'Loading...']
+  ]
+
+  return (
+    <div className="p-3 rounded-lg bg-slate-800/50 border border-slate-700 space-y-1 text-xs">
+      {rows.map(([label, value]) => (
+        <div key={label} className="flex justify-between">
+          <span className="text-slate-400">{label}</span>
+          <span className={label === 'Est. liquidation' ? 'text-red-400' : 'text-slate-200'}>{value}</span>
+        </div>
+      ))}
+      {preview.errors.map(error => (
+        <div key={error} className="pt-1 text-orange-400">{error}</div>
+      ))}
+    </div>
+  )
+}
+
+export function PredictionButtons({ onPredict, disabled, disabledReason, previews, assetSymbol }: PredictionButtonsProps) {
+  const upDisabled = disabled || (previews?.up.errors.length ?? 0) > 0
+  const downDisabled = disabled || (previews?.down.errors.length ?? 0) > 0
+
   return (
     <div className="space-y-6">
       <div className="text-center">
@@ -19,12 +55,12 @@ export function PredictionButtons({ onPredict, disabled }: PredictionButtonsProp
       <div className="grid grid-cols-2 gap-6">
         {/* UP Button */}
         <motion.div
-          whileHover={{ scale: disabled ? 1 : 1.05 }}
-          whileTap={{ scale: disabled ? 1 : 0.95 }}
+          whileHover={{ scale: upDisabled ? 1 : 1.05 }}
+          whileTap={{ scale: upDisabled ? 1 : 0.95 }}
         >
           <Button
             onClick={() => onPredict('up')}
-            disabled={disabled}
+            disabled={upDisabled}
             className="
               w-full h-24 text-2xl font-bold transition-all duration-300
               bg-gradient-to-r from-green-500 to-emerald-600 
@@ -55,12 +91,12 @@ export function PredictionButtons({ onPredict, disabled }: PredictionButtonsProp
 
         {/* DOWN Button */}
         <motion.div
-          whileHover={{ scale: disabled ? 1 : 1.05 }}
-          whileTap={{ scale: disabled ? 1 : 0.95 }}
+          whileHover={{ scale: downDisabled ? 1 : 1.05 }}
+          whileTap={{ scale: downDisabled ? 1 : 0.95 }}
         >
           <Button
             onClick={() => onPredict('down')}
-            disabled={disabled}
+            disabled={downDisabled}
             className="
               w-full h-24 text-2xl font-bold transition-all duration-300
               bg-gradient-to-r from-red-500 to-rose-600 
@@ -90,6 +126,20 @@ export function PredictionButtons({ onPredict, disabled }: PredictionButtonsProp
         </motion.div>
       </div>
 
+      {/* Order Preview */}
+      {previews && (
+        <div className="grid grid-cols-2 gap-6">
+          <OrderPreviewDetails preview={previews.up} assetSymbol={assetSymbol} />
+          <OrderPreviewDetails preview={previews.down} assetSymbol={assetSymbol} />
+        </div>
+      )}
+
+      {disabledReason && (
+        <div className="text-center text-sm text-orange-400">
+          {disabledReason}
+        </div>
+      )}
+
       <div className="text-center text-sm text-slate-400">
         Choose your direction and let's see if you can predict the market!
       </div>
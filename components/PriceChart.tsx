@@ -0,0 +1,186 @@
+// src/components/PriceChart.tsx
+import { useMemo } from 'react'
+import { Area, AreaChart, CartesianGrid, ReferenceDot, ReferenceLine, XAxis, YAxis } from 'recharts'
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from './ui/chart'
+import { useCandles } from '@/hooks/useHyperliquidSubscription'
+import { usePriceHistory } from '@/hooks/useHyperliquid'
+import { CandleInterval } from '@/service/hyperliquid'
+
+interface PriceChartProps {
+  coin: string
+  interval?: CandleInterval
+  lookbackMs?: number
+  entryPrice?: number
+  roundStart?: number
+  roundEnd?: number
+  exitPrice?: number
+  direction?: 'up' | 'down'
+  takeProfit?: number
+  stopLoss?: number
+}
+
+interface ChartPoint {
+  time: number
+  price: number
+}
+
+const chartConfig = {
+  price: {
+    label: 'Price',
+    color: '#60a5fa',
+  },
+} satisfies ChartConfig
+
+const formatTime = (time: number): string =>
+  new Date(time).toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit', second: '2-digit' })
+
+export function PriceChart({
+  coin,
+  interval = '1m',
+  lookbackMs = 15 * 60 * 1000,
+  entryPrice,
+  roundStart,
+  roundEnd,
+  exitPrice,
+  direction,
+  takeProfit,
+  stopLoss,
+}: PriceChartProps) {
+  const candlesQuery = useCandles(coin, interval)
+  const priceHistoryQuery = usePriceHistory()
+  const ticks = priceHistoryQuery.data?.[coin]
+
+  // Candle closes for the backfilled part, then raw ticks once the live feed takes over
+  const data = useMemo((): ChartPoint[] => {
+    const candles = candlesQuery.data || []
+    const liveTicks = ticks || []
+    const firstTickTime = liveTicks[0]?.timestamp ?? Infinity
+    const lastCandleTime = candles[candles.length - 1]?.t ?? 0
+    // Without ticks yet the window simply ends now, so the backfill alone fills it
+    const since = liveTicks.length > 0
+      ? Math.max(lastCandleTime, firstTickTime) - lookbackMs
+      : Date.now() - lookbackMs
+
+    const candlePoints = candles
+      .filter(candle => candle.t >= since && candle.t < firstTickTime)
+      .map(candle => ({ time: candle.t, price: parseFloat(candle.c) }))
+    const tickPoints = liveTicks
+      .filter(tick => tick.timestamp >= since)
+      .map(tick => ({ time: tick.timestamp, price: tick.price }))
+
+    return [...candlePoints, ...tickPoints]
+  }, [candlesQuery.data, ticks, lookbackMs])
+
+  if (data.length < 2) {
+    return (
+      <div className="h-48 flex items-center justify-center text-sm text-slate-500">
+        {candlesQuery.isLoading ? 'Loading price history...' : 'Waiting for price data...'}
+      </div>
+    )
+  }
+
+  const lastTime = data[data.length - 1].time
+  const domainEnd = Math.max(lastTime, roundEnd ?? 0)
+  const exitColor = exitPrice !== undefined && entryPrice !== undefined && direction
+    ? ((direction === 'up' ? exitPrice > entryPrice : exitPrice < entryPrice) ? '#4ade80' : '#f87171')
+    : '#f8fafc'
+
+  return (
+    <ChartContainer config={chartConfig} className="h-48 w-full aspect-auto">
+      <AreaChart data={data} margin={{ top: 8, right: 8, bottom: 0, left: 8 }}>
+        <defs>
+          <linearGradient id={`price-fill-${coin}`} x1="0" y1="0" x2="0" y2="1">
+            <stop offset="5%" stopColor="var(--color-price)" stopOpacity={0.3} />
+            <stop offset="95%" stopColor="var(--color-price)" stopOpacity={0} />
+          </linearGradient>
+        </defs>
+        <CartesianGrid vertical={false} stroke="#334155" strokeDasharray="3 3" />
+        <XAxis
+          dataKey="time"
+          type="number"
+          scale="time"
+          domain={[data[0].time, domainEnd]}
+          tickFormatter={formatTime}
+          tickLine={false}
+          axisLine={false}
+          minTickGap={48}
+        />
+        <YAxis
+          domain={['auto', 'auto']}
+          tickLine={false}
+          axisLine={false}
+          width={72}
+          tickFormatter={(price: number) => price.toLocaleString(undefined, { maximumFractionDigits: 4 })}
+        />
+        <ChartTooltip
+          content={<ChartTooltipContent labelFormatter={(_, payload) => formatTime(payload?.[0]?.payload?.time)} />}
+        />
+        <Area
+          dataKey="price"
+          type="monotone"
+          stroke="var(--color-price)"
+          fill={`url(#price-fill-${coin})`}
+          strokeWidth={2}
+          dot={false}
+          isAnimationActive={false}
+        />
+
+        {entryPrice !== undefined && (
+          <ReferenceLine
+            y={entryPrice}
+            stroke="#facc15"
+            strokeDasharray="4 4"
+            ifOverflow="extendDomain"
+            label={{ value: `Entry ${entryPrice}`, position: 'insideTopLeft', fill: '#facc15', fontSize: 11 }}
+          />
+        )}
+        {takeProfit !== undefined && (
+          <ReferenceLine
+            y={takeProfit}
+            stroke="#4ade80"
+            strokeDasharray="4 4"
+            ifOverflow="extendDomain"
+            label={{ value: `TP ${takeProfit}`, position: 'insideBottomLeft', fill: '#4ade80', fontSize: 11 }}
+          />
+        )}
+        {stopLoss !== undefined && (
+          <ReferenceLine
+            y={stopLoss}
+            stroke="#f87171"
+            strokeDasharray="4 4"
+            ifOverflow="extendDomain"
+            label={{ value: `SL ${stopLoss}`, position: 'insideBottomLeft', fill: '#f87171', fontSize: 11 }}
+          />
+        )}
+        {roundStart !== undefined && (
+          <ReferenceLine
+            x={roundStart}
+            stroke="#94a3b8"
+            ifOverflow="extendDomain"
+            label={{ value: 'Start', position: 'insideTopRight', fill: '#94a3b8', fontSize: 11 }}
+          />
+        )}
+        {roundEnd !== undefined && (
+          <ReferenceLine
+            x={roundEnd}
+            stroke="#94a3b8"
+            strokeDasharray="2 2"
+            ifOverflow="extendDomain"
+            label={{ value: 'End', position: 'insideTopRight', fill: '#94a3b8', fontSize: 11 }}
+          />
+        )}
+        {exitPrice !== undefined && (
+          <ReferenceDot
+            x={roundEnd ?? lastTime}
+            y={exitPrice}
+            r={5}
+            fill={exitColor}
+            stroke="#0f172a"
+            ifOverflow="extendDomain"
+            label={{ value: `Exit ${exitPrice}`, position: 'left', fill: exitColor, fontSize: 11 }}
+          />
+        )}
+      </AreaChart>
+    </ChartContainer>
+  )
+}
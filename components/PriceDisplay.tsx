@@ -4,6 +4,9 @@ import { motion, AnimatePresence } from 'framer-motion'
 import { Asset, GameState, Prediction } from '@/lib/types'
 import { TrendingUp, TrendingDown } from 'lucide-react'
 import { Badge } from './ui/badge'
+import { useFeedHealth } from '@/hooks/useHyperliquidSubscription'
+import { describeFeedHealth } from './ConnectionHealth'
+import { PriceChart } from './PriceChart'
 
 interface PriceDisplayProps {
   asset: Asset
@@ -14,6 +17,8 @@ interface PriceDisplayProps {
 export function PriceDisplay({ asset, gameState, prediction }: PriceDisplayProps) {
   const [prevPrice, setPrevPrice] = useState(asset.price)
   const [priceDirection, setPriceDirection] = useState<'up' | 'down' | 'neutral'>('neutral')
+  const feedHealth = useFeedHealth()
+  const feedLabel = describeFeedHealth(feedHealth)
 
   useEffect(() => {
     if (asset.price > prevPrice) {
@@ -123,21 +128,41 @@ export function PriceDisplay({ asset, gameState, prediction }: PriceDisplayProps
           initial={{ scale: 1.1, opacity: 0.8 }}
           animate={{ scale: 1, opacity: 1 }}
           transition={{ duration: 0.2 }}
-          className={`text-6xl font-mono font-bold ${getPriceColor()} mb-2`}
+          className={`text-6xl font-mono font-bold ${feedHealth.isStale ? 'text-slate-500' : getPriceColor()} mb-2`}
         >
           ${formatPrice(asset.price)}
         </motion.div>
 
+        {feedHealth.isStale && (
+          <div className={`flex items-center justify-center space-x-2 mb-2 text-sm ${feedLabel.color}`}>
+            <span className={`w-2 h-2 rounded-full ${feedLabel.dot}`} />
+            <span>{feedLabel.label} - price may be out of date</span>
+          </div>
+        )}
+
         <div className="flex items-center justify-center space-x-2">
           {priceDirection === 'up' && <TrendingUp className="w-5 h-5 text-green-400" />}
           {priceDirection === 'down' && <TrendingDown className="w-5 h-5 text-red-400" />}
           <span className={`text-lg ${getPriceColor()}`}>
-            {priceDirection === 'up' ? '+' : priceDirection === 'down' ? '-' : ''}
-            {asset.change24h >= 0 ? '+' : ''}{asset.change24h.toFixed(2)}%
+            {asset.change24h >= 0 ? '+' : ''}{asset.change24h.toFixed(2)}% 24h
           </span>
         </div>
       </div>
 
+      {/* Price Chart - backfilled candles + live ticks, with round markers */}
+      <div className="mb-6">
+        <PriceChart
+          coin={asset.id}
+          entryPrice={prediction?.entryPrice}
+          roundStart={prediction?.timestamp}
+          roundEnd={prediction ? prediction.timestamp + prediction.timeWindow * 1000 : undefined}
+          exitPrice={prediction?.exitPrice}
+          direction={prediction?.direction}
+          takeProfit={prediction?.takeProfit}
+          stopLoss={prediction?.stopLoss}
+        />
+      </div>
+
       {/* Prediction Info */}
       {prediction && (
         <div className="grid grid-cols-2 gap-4 p-4 bg-slate-800/30 rounded-lg">
@@ -0,0 +1,109 @@
+// src/components/ReconciliationPanel.tsx
+import React, { useState } from 'react'
+import { Alert, AlertDescription } from './ui/alert'
+import { Badge } from './ui/badge'
+import { Button } from './ui/button'
+import { GitCompare, Loader2, XCircle, Gamepad2 } from 'lucide-react'
+import type { DriftKind, PositionDrift, ReconciliationActionResult } from '@/service/positionReconciler'
+
+interface ReconciliationPanelProps {
+  drifts: PositionDrift[]
+  pendingDriftId: string | null
+  canAdopt: boolean // Adopting starts a round, so only while no round is running
+  onFlatten: (drift: PositionDrift) => Promise<ReconciliationActionResult>
+  onAdopt: (drift: PositionDrift) => Promise<ReconciliationActionResult>
+}
+
+const DRIFT_LABELS: Record<DriftKind, string> = {
+  unknown_position: 'Untracked position',
+  missing_position: 'Missing position',
+  size_mismatch: 'Size mismatch',
+  stuck_order: 'Stuck order'
+}
+
+const FLATTEN_LABELS: Record<DriftKind, string> = {
+  unknown_position: 'Flatten',
+  missing_position: 'Forget',
+  size_mismatch: 'Flatten',
+  stuck_order: 'Cancel'
+}
+
+const isAdoptable = (drift: PositionDrift): boolean =>
+  drift.kind === 'unknown_position' || drift.kind === 'size_mismatch'
+
+export function ReconciliationPanel({ drifts, pendingDriftId, canAdopt, onFlatten, onAdopt }: ReconciliationPanelProps) {
+  const [errors, setErrors] = useState<Record<string, string>>({})
+
+  if (drifts.length === 0) {
+    return null
+  }
+
+  const runAction = async (drift: PositionDrift, action: (drift: PositionDrift) => Promise<ReconciliationActionResult>) => {
+    const result = await action(drift)
+    setErrors(prev => {
+      const next = { ...prev }
+      delete next[drift.id]
+      if (!result.success) next[drift.id] = result.error || 'Action failed'
+      return next
+    })
+  }
+
+  return (
+    <Alert className="border-amber-500/50 bg-amber-500/10">
+      <GitCompare className="h-4 w-4 text-amber-400" />
+      <AlertDescription className="text-amber-400">
+        <div className="font-semibold mb-1">Positions Out of Sync</div>
+        <div className="text-sm">
+          The game and Hyperliquid disagree about what is open.
+        </div>
+        <div className="mt-2 space-y-2">
+          {drifts.map(drift => {
+            const isPending = pendingDriftId === drift.id
+            return (
+              <div key={drift.id} className="text-xs bg-amber-500/10 rounded p-2">
+                <div className="flex items-center justify-between gap-2">
+                  <div className="flex items-center gap-2 min-w-0">
+                    <Badge variant="outline" className="text-amber-400 border-amber-400 shrink-0">
+                      {DRIFT_LABELS[drift.kind]}
+                    </Badge>
+                    <span className="text-slate-300 truncate">{drift.description}</span>
+                  </div>
+                  <div className="flex items-center gap-2 shrink-0">
+                    {isAdoptable(drift) && (
+                      <Button
+                        onClick={() => runAction(drift, onAdopt)}
+                        variant="outline"
+                        size="sm"
+                        disabled={!canAdopt || !!pendingDriftId}
+                        title={canAdopt ? 'Track this position as a game round' : 'Finish the current round first'}
+                        className="h-7 text-blue-400 border-blue-400 hover:bg-blue-400/10"
+                      >
+                        <Gamepad2 className="w-3 h-3 mr-1" />
+                        Adopt
+                      </Button>
+                    )}
+                    <Button
+                      onClick={() => runAction(drift, onFlatten)}
+                      variant="outline"
+                      size="sm"
+                      disabled={!!pendingDriftId}
+                      className="h-7 text-red-400 border-red-400 hover:bg-red-400/10"
+                    >
+                      {isPending
+                        ? <Loader2 className="w-3 h-3 mr-1 animate-spin" />
+                        : <XCircle className="w-3 h-3 mr-1" />}
+                      {FLATTEN_LABELS[drift.kind]}
+                    </Button>
+                  </div>
+                </div>
+                {errors[drift.id] && (
+                  <div className="mt-1 text-red-400">{errors[drift.id]}</div>
+                )}
+              </div>
+            )
+          })}
+        </div>
+      </AlertDescription>
+    </Alert>
+  )
+}
@@ -319,8 +319,9 @@ export function StatsPanel({ currentPrediction, userAddress }: StatsPanelProps)
                   )}
                   <Badge
                     variant={game.result === 'win' ? 'default' : 'secondary'}
-                    className={`text-xs ${game.result === 'win' ? 'bg-green-500' : 'bg-red-500'
+                    className={`text-xs ${game.result === 'win' ? 'bg-green-500' : game.result === 'void' ? 'bg-slate-600' : 'bg-red-500'
                       }`}
+                    title={game.void_reason}
                   >
                     {game.result?.toUpperCase()}
                   </Badge>
@@ -1,15 +1,38 @@
 // src/components/CombinedSettingsSelector.tsx
 import { Button } from './ui/button'
 import { Badge } from './ui/badge'
-import { Clock, TrendingUp } from 'lucide-react'
+import { Clock, TrendingUp, ShieldCheck, Wallet, Gauge, Layers } from 'lucide-react'
 import { Asset } from '@/lib/types'
+import { liquidationPrice } from '@/lib/pnl'
+import { estimateFill, MAX_SLIPPAGE_OPTIONS_BPS } from '@/lib/slippage'
+import type { FillEstimate } from '@/lib/slippage'
+import { useOrderBook } from '@/hooks/useHyperliquidSubscription'
+import type { BracketConfig } from '@/lib/pnl'
+import { HyperliquidOrderService } from '@/service/hyperliquidOrders'
+import { MAX_CONCURRENT_ROUNDS } from '@/lib/roundStore'
+import type { MarginMode } from '@/service/hyperliquidOrders'
 
 interface CombinedSettingsSelectorProps {
   timeWindow: number
   onTimeWindowSelect: (window: number) => void
+  stake: number
+  onStakeSelect: (stake: number) => void
+  withdrawable?: number // Unknown until clearinghouseState loads
+  stakeError?: string | null
   leverage: number
+  onLeverageSelect: (leverage: number) => void
+  marginMode: MarginMode
+  onMarginModeSelect: (marginMode: MarginMode) => void
+  maxSlippageBps: number
+  onMaxSlippageSelect: (bps: number) => void
   disabled?: boolean
   selectedAsset?: Asset | null
+  brackets: BracketConfig
+  onBracketsChange: (brackets: BracketConfig) => void
+  endRoundOnBracket: boolean
+  onEndRoundOnBracketChange: (enabled: boolean) => void
+  multiRound: boolean
+  onMultiRoundChange: (enabled: boolean) => void
 }
 
 const TIME_OPTIONS = [
@@ -18,13 +41,62 @@ const TIME_OPTIONS = [
   { value: 60, label: '60s', color: 'bg-green-500 hover:bg-green-600' },
 ]
 
+// % of margin; null = no bracket
+const TAKE_PROFIT_OPTIONS = [null, 50, 100, 200]
+const STOP_LOSS_OPTIONS = [null, 25, 50, 75]
+
+const LEVERAGE_PRESETS = [1, 5, 10, 20]
+
+const MARGIN_MODES: { value: MarginMode; label: string; description: string }[] = [
+  { value: 'isolated', label: 'Isolated', description: 'Only the stake is at risk' },
+  { value: 'cross', label: 'Cross', description: 'Whole balance backs the position' },
+]
+
+const formatLiquidation = (price: number): string =>
+  price.toLocaleString(undefined, { maximumSignificantDigits: 6 })
+
+const describeFill = (estimate: FillEstimate | null): string => {
+  if (!estimate || estimate.expectedSlippageBps === null) return 'No liquidity'
+  if (!estimate.isFillable) return 'Too thin for this bound'
+  return `${estimate.expectedSlippageBps.toFixed(1)} bps`
+}
+
 export function CombinedSettingsSelector({
   timeWindow,
   onTimeWindowSelect,
+  stake,
+  onStakeSelect,
+  withdrawable,
+  stakeError,
   leverage,
+  onLeverageSelect,
+  marginMode,
+  onMarginModeSelect,
+  maxSlippageBps,
+  onMaxSlippageSelect,
   disabled,
+  selectedAsset,
+  brackets,
+  onBracketsChange,
+  endRoundOnBracket,
+  onEndRoundOnBracketChange,
+  multiRound,
+  onMultiRoundChange,
 }: CombinedSettingsSelectorProps) {
-  const marginAmount = 10
+  const maxLeverage = selectedAsset?.maxLeverage ?? 1
+  const leveragePresets = [...new Set([...LEVERAGE_PRESETS.filter(preset => preset < maxLeverage), maxLeverage])]
+  // Cross positions can lean on the free balance before liquidating
+  const marginBacking = marginMode === 'cross' ? stake + (withdrawable ?? 0) : stake
+  const effectiveLeverage = (stake * leverage) / marginBacking
+
+  const orderBookQuery = useOrderBook(selectedAsset?.id)
+  const orderSize = selectedAsset && selectedAsset.price > 0 ? (stake * leverage) / selectedAsset.price : 0
+  const fillPreview = orderBookQuery.data && orderSize > 0
+    ? {
+      up: estimateFill(orderBookQuery.data, true, orderSize, maxSlippageBps),
+      down: estimateFill(orderBookQuery.data, false, orderSize, maxSlippageBps)
+    }
+    : null
 
   return (
     <div className="space-y-6">
@@ -64,25 +136,252 @@ export function CombinedSettingsSelector({
       {/* Divider */}
       <div className="border-t border-slate-700"></div>
 
+      {/* Stake Section */}
+      <div className="space-y-4">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-2">
+            <Wallet className="w-4 h-4 text-green-400" />
+            <span className="text-sm font-medium text-white">Stake</span>
+          </div>
+          {withdrawable !== undefined && (
+            <span className="text-xs text-slate-400">Available: ${withdrawable.toFixed(2)}</span>
+          )}
+        </div>
+
+        <div className="grid grid-cols-4 gap-2">
+          {HyperliquidOrderService.STAKE_OPTIONS.map((option) => (
+            <Button
+              key={option}
+              variant={stake === option ? "default" : "outline"}
+              className={`h-10 text-sm font-bold ${stake === option
+                ? 'bg-green-500 hover:bg-green-600 text-white border-0'
+                : 'bg-slate-800/50 hover:bg-slate-700/50 border-slate-700 text-white'
+                }`}
+              onClick={() => onStakeSelect(option)}
+              disabled={disabled || (withdrawable !== undefined && option > withdrawable)}
+            >
+              ${option}
+            </Button>
+          ))}
+        </div>
+
+        {stakeError && (
+          <div className="text-xs text-red-400">{stakeError}</div>
+        )}
+      </div>
+
+      {/* Divider */}
+      <div className="border-t border-slate-700"></div>
+
       {/* Leverage Section */}
       <div className="space-y-4">
         <div className="flex items-center justify-between">
           <div className="flex items-center space-x-2">
             <TrendingUp className="w-4 h-4 text-blue-400" />
             <span className="text-sm font-medium text-white">Leverage</span>
+            <span className="text-sm font-bold text-blue-400">{leverage}x</span>
           </div>
           <Badge variant="outline" className="text-green-400 border-green-400 text-xs">
-            $10 margin
+            ${stake} margin
           </Badge>
         </div>
 
+        <input
+          type="range"
+          min={1}
+          max={maxLeverage}
+          step={1}
+          value={leverage}
+          onChange={(e) => onLeverageSelect(Number(e.target.value))}
+          disabled={disabled || !selectedAsset}
+          className="w-full accent-blue-500"
+        />
+
+        <div className="flex gap-2">
+          {leveragePresets.map((preset) => (
+            <Button
+              key={preset}
+              variant={leverage === preset ? "default" : "outline"}
+              className={`flex-1 h-8 text-xs font-bold ${leverage === preset
+                ? 'bg-blue-500 hover:bg-blue-600 text-white border-0'
+                : 'bg-slate-800/50 hover:bg-slate-700/50 border-slate-700 text-white'
+                }`}
+              onClick={() => onLeverageSelect(preset)}
+              disabled={disabled || !selectedAsset}
+            >
+              {preset === maxLeverage ? `Max ${preset}x` : `${preset}x`}
+            </Button>
+          ))}
+        </div>
+
+        <div className="grid grid-cols-2 gap-2">
+          {MARGIN_MODES.map((mode) => (
+            <Button
+              key={mode.value}
+              variant={marginMode === mode.value ? "default" : "outline"}
+              className={`h-12 text-xs ${marginMode === mode.value
+                ? 'bg-blue-500 hover:bg-blue-600 text-white border-0'
+                : 'bg-slate-800/50 hover:bg-slate-700/50 border-slate-700 text-white'
+                }`}
+              onClick={() => onMarginModeSelect(mode.value)}
+              disabled={disabled || !selectedAsset}
+            >
+              <div className="text-center">
+                <div className="font-bold">{mode.label}</div>
+                <div className="opacity-75">{mode.description}</div>
+              </div>
+            </Button>
+          ))}
+        </div>
 
         <div className="text-xs text-slate-400 space-y-1">
           <div className="flex justify-between">
             <span>Position Value:</span>
-            <span className="text-blue-400">${marginAmount * leverage}</span>
+            <span className="text-blue-400">${stake * leverage}</span>
+          </div>
+          <div className="flex justify-between">
+            <span>Margin Used:</span>
+            <span className="text-blue-400">
+              ${stake}
+              {withdrawable !== undefined && withdrawable > 0 && ` (${Math.min((stake / withdrawable) * 100, 100).toFixed(0)}% of available)`}
+            </span>
+          </div>
+          {marginMode === 'cross' && (
+            <div className="flex justify-between">
+              <span>Margin Backing:</span>
+              <span className="text-blue-400">${marginBacking.toFixed(2)}</span>
+            </div>
+          )}
+          {selectedAsset && selectedAsset.price > 0 && (
+            <>
+              <div className="flex justify-between">
+                <span>Est. liquidation (UP):</span>
+                <span className="text-red-400">${formatLiquidation(liquidationPrice('up', selectedAsset.price, effectiveLeverage, maxLeverage))}</span>
+              </div>
+              <div className="flex justify-between">
+                <span>Est. liquidation (DOWN):</span>
+                <span className="text-red-400">${formatLiquidation(liquidationPrice('down', selectedAsset.price, effectiveLeverage, maxLeverage))}</span>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+
+      {/* Divider */}
+      <div className="border-t border-slate-700"></div>
+
+      {/* Slippage Section */}
+      <div className="space-y-4">
+        <div className="flex items-center space-x-2">
+          <Gauge className="w-4 h-4 text-yellow-400" />
+          <span className="text-sm font-medium text-white">Max Slippage</span>
+        </div>
+
+        <div className="grid grid-cols-4 gap-2">
+          {MAX_SLIPPAGE_OPTIONS_BPS.map((bps) => (
+            <Button
+              key={bps}
+              variant={maxSlippageBps === bps ? "default" : "outline"}
+              className={`h-8 text-xs font-bold ${maxSlippageBps === bps
+                ? 'bg-yellow-500 hover:bg-yellow-600 text-white border-0'
+                : 'bg-slate-800/50 hover:bg-slate-700/50 border-slate-700 text-white'
+                }`}
+              onClick={() => onMaxSlippageSelect(bps)}
+              disabled={disabled}
+            >
+              {bps / 100}%
+            </Button>
+          ))}
+        </div>
+
+        {fillPreview && (
+          <div className="text-xs text-slate-400 space-y-1">
+            <div className="flex justify-between">
+              <span>Expected slippage (UP):</span>
+              <span className={fillPreview.up?.isFillable ? 'text-yellow-400' : 'text-red-400'}>{describeFill(fillPreview.up)}</span>
+            </div>
+            <div className="flex justify-between">
+              <span>Expected slippage (DOWN):</span>
+              <span className={fillPreview.down?.isFillable ? 'text-yellow-400' : 'text-red-400'}>{describeFill(fillPreview.down)}</span>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {/* Divider */}
+      <div className="border-t border-slate-700"></div>
+
+      {/* Brackets Section */}
+      <div className="space-y-4">
+        <div className="flex items-center space-x-2">
+          <ShieldCheck className="w-4 h-4 text-purple-400" />
+          <span className="text-sm font-medium text-white">TP / SL</span>
+          <span className="text-xs text-slate-400">% of margin</span>
+        </div>
+
+        {([
+          { key: 'takeProfitPct', label: 'Take profit', options: TAKE_PROFIT_OPTIONS, color: 'bg-green-500 hover:bg-green-600', sign: '+' },
+          { key: 'stopLossPct', label: 'Stop loss', options: STOP_LOSS_OPTIONS, color: 'bg-red-500 hover:bg-red-600', sign: '-' },
+        ] as const).map(({ key, label, options, color, sign }) => (
+          <div key={key} className="space-y-2">
+            <div className="text-xs text-slate-400">{label}</div>
+            <div className="grid grid-cols-4 gap-2">
+              {options.map((option) => (
+                <Button
+                  key={option ?? 'off'}
+                  variant={brackets[key] === option ? "default" : "outline"}
+                  className={`h-8 text-xs font-bold ${brackets[key] === option
+                    ? `${color} text-white border-0`
+                    : 'bg-slate-800/50 hover:bg-slate-700/50 border-slate-700 text-white'
+                    }`}
+                  onClick={() => onBracketsChange({ ...brackets, [key]: option })}
+                  disabled={disabled}
+                >
+                  {option === null ? 'Off' : `${sign}${option}%`}
+                </Button>
+              ))}
+            </div>
           </div>
+        ))}
+
+        <label className="flex items-center justify-between text-xs text-slate-400 cursor-pointer">
+          <span>End round when TP/SL is hit</span>
+          <input
+            type="checkbox"
+            checked={endRoundOnBracket}
+            onChange={(e) => onEndRoundOnBracketChange(e.target.checked)}
+            disabled={disabled || (brackets.takeProfitPct === null && brackets.stopLossPct === null)}
+            className="accent-purple-500"
+          />
+        </label>
+      </div>
+
+      {/* Divider */}
+      <div className="border-t border-slate-700"></div>
+
+      {/* Rounds Section */}
+      <div className="space-y-2">
+        <div className="flex items-center space-x-2">
+          <Layers className="w-4 h-4 text-cyan-400" />
+          <span className="text-sm font-medium text-white">Rounds</span>
         </div>
+
+        {/* Switching off only stops new rounds; running ones finish on their own */}
+        <label className="flex items-center justify-between text-xs text-slate-400 cursor-pointer">
+          <span>Run up to {MAX_CONCURRENT_ROUNDS} rounds at once</span>
+          <input
+            type="checkbox"
+            checked={multiRound}
+            onChange={(e) => onMultiRoundChange(e.target.checked)}
+            className="accent-cyan-500"
+          />
+        </label>
+        {multiRound && (
+          <div className="text-xs text-slate-500">
+            Each round has its own stake, timer and result. Rounds on the same asset add up to one
+            Hyperliquid position, so they must share its direction, leverage and margin mode.
+          </div>
+        )}
       </div>
 
       {/* Summary */}
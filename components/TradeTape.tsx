@@ -0,0 +1,53 @@
+// src/components/TradeTape.tsx
+import { motion, AnimatePresence } from 'framer-motion'
+import { Activity } from 'lucide-react'
+import { useTrades } from '@/hooks/useHyperliquidSubscription'
+
+interface TradeTapeProps {
+  coin: string
+  limit?: number
+}
+
+export function TradeTape({ coin, limit = 12 }: TradeTapeProps) {
+  const tradesQuery = useTrades(coin)
+  const trades = (tradesQuery.data || []).slice(0, limit)
+
+  return (
+    <div className="bg-slate-800/30 rounded-xl border border-slate-700">
+      <div className="flex items-center justify-between px-4 py-3 border-b border-slate-700">
+        <div className="flex items-center space-x-2">
+          <Activity className="w-4 h-4 text-blue-400" />
+          <span className="text-sm font-bold text-white">{coin} Trades</span>
+        </div>
+        <span className="text-xs text-slate-500">{trades.length > 0 ? 'Live' : 'Waiting for prints...'}</span>
+      </div>
+
+      <div className="flex items-center justify-between px-3 py-2 text-xs font-medium text-slate-400">
+        <span>Price</span>
+        <span>Size</span>
+        <span>Time</span>
+      </div>
+
+      <div className="px-1 pb-2 space-y-0.5">
+        <AnimatePresence initial={false}>
+          {trades.map(trade => {
+            const isBuy = trade.side === 'B'
+            return (
+              <motion.div
+                key={trade.tid}
+                initial={{ opacity: 0, backgroundColor: isBuy ? 'rgba(34,197,94,0.2)' : 'rgba(239,68,68,0.2)' }}
+                animate={{ opacity: 1, backgroundColor: 'rgba(0,0,0,0)' }}
+                transition={{ duration: 0.6 }}
+                className="flex items-center justify-between px-2 py-1 text-xs font-mono rounded"
+              >
+                <span className={isBuy ? 'text-green-400' : 'text-red-400'}>{trade.px}</span>
+                <span className="text-slate-300">{trade.sz}</span>
+                <span className="text-slate-500">{new Date(trade.time).toLocaleTimeString()}</span>
+              </motion.div>
+            )
+          })}
+        </AnimatePresence>
+      </div>
+    </div>
+  )
+}
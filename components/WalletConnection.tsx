@@ -6,9 +6,9 @@ import { Card } from './ui/card'
 import { Badge } from './ui/badge'
 import { Alert, AlertDescription } from './ui/alert'
 import { Wallet, AlertTriangle, ExternalLink, Activity, Loader2, CheckCircle } from 'lucide-react'
-import { usePositions } from '@/hooks/useHyperliquid'
+import { useNetworkSwitch, usePositions } from '@/hooks/useHyperliquid'
 import type { PositionInfo } from '@/service/hyperliquidOrders'
-import { hyperliquid } from '@/service/hyperliquid'
+import { useNetworkConfig } from '@/lib/network'
 
 interface WalletConnectionProps {
   onWalletReady?: () => void
@@ -22,6 +22,9 @@ interface FormattedPosition {
 
 export function WalletConnection({ onWalletReady }: WalletConnectionProps): JSX.Element {
   const { address, isConnected, chain } = useAccount()
+  const networkConfig = useNetworkConfig()
+  const switchNetwork = useNetworkSwitch(address)
+  const [networkError, setNetworkError] = React.useState<string | null>(null)
 
   // Use typed positions hook for better performance
   const positionsQuery = usePositions(address)
@@ -40,7 +43,12 @@ export function WalletConnection({ onWalletReady }: WalletConnectionProps): JSX.
   }, [])
 
   // Check if we're on the correct network (Arbitrum Sepolia for testnet)
-  const isCorrectNetwork = useMemo(() => chain?.id === (hyperliquid.useTestnet ? 421614 : 42161), [chain?.id])
+  const isCorrectNetwork = useMemo(() => chain?.id === networkConfig.chain.id, [chain?.id, networkConfig])
+
+  const handleToggleNetwork = useCallback((): void => {
+    const result = switchNetwork(networkConfig.isTestnet ? 'mainnet' : 'testnet')
+    setNetworkError(result.success ? null : result.error || 'Network switch failed')
+  }, [switchNetwork, networkConfig])
 
   // Format positions for display
   const formattedPositions = useMemo((): FormattedPosition[] => {
@@ -159,7 +167,7 @@ export function WalletConnection({ onWalletReady }: WalletConnectionProps): JSX.
             <AlertDescription className="text-yellow-400">
               <div className="font-semibold mb-1">Wrong Network Detected</div>
               <div className="text-sm">
-                Please switch to {hyperliquid.useTestnet ? "Arbitrum Sepolia testnet (Chain ID: 421614)" : "Arbitrum (Chain ID: 42161)"} for Hyperliquid trading.
+                Please switch to {networkConfig.chain.name} (Chain ID: {networkConfig.chain.id}) for Hyperliquid trading.
                 {networkStatus.name && (
                   <span className="block mt-1">
                     Currently connected to: {networkStatus.name} (Chain ID: {chain?.id})
@@ -197,7 +205,7 @@ export function WalletConnection({ onWalletReady }: WalletConnectionProps): JSX.
         <div>
           <h3 className="text-xl font-bold text-white mb-2">Connect Your Wallet</h3>
           <p className="text-slate-400 text-sm">
-            Connect your wallet to place real predictions on Hyperliquid {hyperliquid.useTestnet ? "Testnet" : "Mainnet"}
+            Connect your wallet to place real predictions on Hyperliquid {networkConfig.hyperliquidChain}
           </p>
         </div>
 
@@ -268,7 +276,7 @@ export function WalletConnection({ onWalletReady }: WalletConnectionProps): JSX.
 
           <div className="text-xs text-slate-500 space-y-1">
             <div>• Arbitrum Sepolia testnet required</div>
-            <div>• $10 prediction size per trade</div>
+            <div>• Choose your stake per trade</div>
             <div>• Automatic position management</div>
           </div>
         </div>
@@ -309,12 +317,21 @@ export function WalletConnection({ onWalletReady }: WalletConnectionProps): JSX.
           <AlertTriangle className="h-4 w-4 text-blue-400" />
           <AlertDescription className="text-blue-400">
             <div className="space-y-2">
-              <div className="font-semibold">{hyperliquid.useTestnet ? "Testnet" : "Mainnet"} Trading</div>
+              <div className="flex items-center justify-between">
+                <div className="font-semibold">{networkConfig.hyperliquidChain} Trading</div>
+                <button
+                  onClick={handleToggleNetwork}
+                  className="text-xs text-white hover:text-blue-200 underline"
+                >
+                  Switch to {networkConfig.isTestnet ? 'mainnet' : 'testnet'}
+                </button>
+              </div>
               <div className="text-sm">
-                This app uses Hyperliquid {hyperliquid.useTestnet ? "testnet" : "mainnet"}. You&apos;ll need to switch to {hyperliquid.useTestnet ? "Arbitrum Sepolia" : "Arbitrum"} to sign transactions.
+                This app uses Hyperliquid {networkConfig.network}. You&apos;ll need to switch to {networkConfig.chain.name} to sign transactions.
               </div>
-              {hyperliquid.useTestnet && <a
-                href="https://app.hyperliquid-testnet.xyz/drip"
+              {networkError && <div className="text-sm text-red-400">{networkError}</div>}
+              {networkConfig.faucetUrl && <a
+                href={networkConfig.faucetUrl}
                 target="_blank"
                 rel="noopener noreferrer"
                 className="inline-flex items-center text-sm text-white hover:text-blue-200 underline"
@@ -10,11 +10,17 @@ export interface GameRecord {
     direction: 'up' | 'down'
     entry_price: number
     exit_price?: number
-    result?: 'win' | 'loss'
+    result?: 'win' | 'loss' | 'void'
+    void_reason?: string // Why a void round never got a position
     leverage: number
     time_window: number
-    position_value: number
+    position_value: number // Notional: stake × leverage until the entry fills, then filled size × entry
+    requested_size?: number // Entry order size
+    filled_size?: number // What the IOC actually filled; below requested_size on a partial fill
+    entry_cloid?: string // Entry order cloid, so fills can be matched to this round
     real_pnl_dollar?: number
+    expected_slippage_bps?: number // Entry fill vs mid, as estimated from the book
+    realized_slippage_bps?: number // Entry fill vs mid, as filled
     created_at: string
     completed_at?: string
 }
@@ -40,7 +46,8 @@ export function useGameStats(userAddress?: string) {
 
     // ✅ Manual stats calculation from games data (SOURCE OF TRUTH)
     const calculateStatsFromGames = useCallback(async (games: GameRecord[]): Promise<UserStats> => {
-        const completedGames = games.filter(g => g.result)
+        // Void rounds never had a position: they count toward nothing
+        const completedGames = games.filter(g => g.result === 'win' || g.result === 'loss')
         const wins = completedGames.filter(g => g.result === 'win').length
         const losses = completedGames.filter(g => g.result === 'loss').length
         const totalPnL = completedGames.reduce((sum, g) => sum + (g.real_pnl_dollar || 0), 0)
@@ -149,19 +156,24 @@ export function useGameStats(userAddress?: string) {
         prediction: Prediction,
         realEntryPrice?: number,
         realPositionSize?: string,
-        leverage?: number
+        leverage?: number,
+        stake?: number
     ): Promise<string | null> => {
         if (!userAddress) return null
 
         try {
+            const gameLeverage = leverage || prediction.leverage || prediction.asset.maxLeverage || 1
             const gameRecord: Partial<GameRecord> = {
                 user_address: userAddress,
                 asset_symbol: prediction.asset.symbol,
                 direction: prediction.direction,
                 entry_price: realEntryPrice || prediction.entryPrice,
-                leverage: leverage || prediction.leverage || prediction.asset.maxLeverage || 1,
+                leverage: gameLeverage,
                 time_window: prediction.timeWindow,
-                position_value: 400,
+                position_value: realPositionSize
+                    ? parseFloat(realPositionSize) * (realEntryPrice || prediction.entryPrice)
+                    : (stake ?? prediction.stake ?? 0) * gameLeverage,
+                requested_size: realPositionSize ? parseFloat(realPositionSize) : undefined,
                 created_at: new Date().toISOString()
             }
 
@@ -214,6 +226,66 @@ export function useGameStats(userAddress?: string) {
         }
     }, [loadUserStats])
 
+    // Void a game whose entry never filled - no position, no PnL, not in the stats
+    const voidGame = useCallback(async (
+        gameId: string,
+        reason: string
+    ): Promise<boolean> => {
+        try {
+            const { error } = await supabase
+                .from('games')
+                .update({
+                    result: 'void',
+                    void_reason: reason,
+                    completed_at: new Date().toISOString()
+                })
+                .eq('id', gameId)
+
+            if (error) throw error
+
+            console.log(`🎮 Game voided: ${reason}`)
+            return true
+        } catch (err) {
+            console.error('Error voiding game:', err)
+            setError(err instanceof Error ? err.message : 'Failed to void game')
+            return false
+        }
+    }, [])
+
+    // Record how the entry actually filled: size, price and slippage against the book's estimate
+    const recordEntryFill = useCallback(async (
+        gameId: string,
+        fill: {
+            requestedSize: number
+            filledSize: number
+            entryPrice: number
+            expectedSlippageBps?: number | null
+            realizedSlippageBps?: number | null
+            entryCloid?: string
+        }
+    ): Promise<boolean> => {
+        try {
+            const { error } = await supabase
+                .from('games')
+                .update({
+                    requested_size: fill.requestedSize,
+                    filled_size: fill.filledSize,
+                    entry_cloid: fill.entryCloid,
+                    entry_price: fill.entryPrice,
+                    position_value: fill.filledSize * fill.entryPrice,
+                    expected_slippage_bps: fill.expectedSlippageBps,
+                    realized_slippage_bps: fill.realizedSlippageBps
+                })
+                .eq('id', gameId)
+
+            if (error) throw error
+            return true
+        } catch (err) {
+            console.error('Error recording entry fill:', err)
+            return false
+        }
+    }, [])
+
     // Get recent games for the user
     const getRecentGames = useCallback(async (limit: number = 10): Promise<GameRecord[]> => {
         if (!userAddress) return []
@@ -267,6 +339,8 @@ export function useGameStats(userAddress?: string) {
         recalculateStats: loadUserStats, // ✅ ALIAS: For compatibility
         startGame,
         completeGame,
+        voidGame,
+        recordEntryFill,
         getRecentGames,
         getLeaderboard,
         // Legacy GameStats format for compatibility
@@ -1,10 +1,14 @@
 // src/hooks/useHyperliquid.ts
 import { useQuery, useQueryClient, UseQueryResult } from '@tanstack/react-query'
 import { useCallback } from 'react'
-import { HyperliquidAsset, OrderBook } from '@/service/hyperliquid'
-import { hyperliquidOrders, PositionInfo, RealTimePnLData } from '@/service/hyperliquidOrders'
-import { getRealTimePnL, handleApiError, hyperliquidKeys, PriceHistory, useAssetMetadata } from '@/lib/utils'
-import { useOrderBook, usePriceData } from './useHyperliquidSubscription'
+import { hyperliquid, HyperliquidAsset, L2BookAggregation, OrderBook, OrderUpdate, UserEvent, UserFill } from '@/service/hyperliquid'
+import { hyperliquidOrders, HyperliquidOrderService, MarginMode, PositionInfo, RealTimePnLData } from '@/service/hyperliquidOrders'
+import { hyperliquidAgent } from '@/service/hyperLiquidAgent'
+import { positionReconciler, ReconciliationReport } from '@/service/positionReconciler'
+import { getActiveNetwork, HyperliquidNetwork, setActiveNetwork } from '@/lib/network'
+import { PnLBreakdown } from '@/lib/pnl'
+import { calculateOrderSizeWithTrueLeverage, getRealTimePnL, handleApiError, hyperliquidKeys, PriceHistory, useAssetMetadata } from '@/lib/utils'
+import { useOrderBook, useOrderUpdates, usePriceData, useUserEvents, useUserFills } from './useHyperliquidSubscription'
 import { Asset } from '@/lib/types'
 
 
@@ -18,6 +22,9 @@ export interface AssetPnLResult {
   unrealizedPnl: number
   returnOnEquity: number
   positionValue: number
+  marginMode: MarginMode
+  marginUsed: number
+  liquidationPx: number | null
 }
 
 // Order Book Types
@@ -37,13 +44,21 @@ export interface ProcessedOrderLevel {
   totalPercent: number // For total bars (0-100)
 }
 
+export interface NetworkSwitchResult {
+  success: boolean
+  error?: string
+}
+
 export interface UseHyperliquidQueries {
   assetMetadata: UseQueryResult<HyperliquidAsset[], Error>
   priceData: UseQueryResult<Asset[], Error>
   priceHistory: UseQueryResult<PriceHistory, Error>
   positions: UseQueryResult<PositionInfo[], Error>
   pnl: UseQueryResult<RealTimePnLData | null, Error>
-  orderBook: (coin?: string) => UseQueryResult<OrderBook | null, Error>
+  orderBook: (coin?: string, aggregation?: L2BookAggregation) => UseQueryResult<OrderBook | null, Error>
+  userFills: UseQueryResult<UserFill[], Error>
+  orderUpdates: UseQueryResult<OrderUpdate[], Error>
+  userEvents: UseQueryResult<UserEvent[], Error>
 }
 
 
@@ -56,13 +71,13 @@ export interface UseHyperliquidReturn {
   lastUpdate: Date | null
 
   // Position management
-  onPositionResult: (cloid: string, callback: (result: 'win' | 'loss', exitPrice: number) => void) => void
+  onPositionResult: (cloid: string, callback: (result: 'win' | 'loss', exitPrice: number, pnl?: PnLBreakdown) => void) => void
   getActivePositions: () => PositionInfo[]
   getPosition: (cloid: string) => PositionInfo | undefined
   clearCompletedPositions: () => void
 
   // Network management
-  setNetwork: (useTestnet: boolean) => void
+  setNetwork: (network: HyperliquidNetwork) => NetworkSwitchResult
 
   // Price utilities
   getCurrentPrice: (symbol: string) => number | null
@@ -77,20 +92,22 @@ export interface UseHyperliquidReturn {
   ) => () => void
 
   // Position calculations
-  calculatePositionSize: (asset: string, leverage: number) => Promise<PositionSizeResult | null>
+  calculatePositionSize: (asset: string, leverage: number, stake?: number) => Promise<PositionSizeResult | null>
 
   // Query states for granular control
   queries: UseHyperliquidQueries
 }
 
 
-// 3. Price History Hook - For analysis
+// 3. Price History Hook - Ticks accumulated by usePriceData (see useCandles for backfilled history)
 export function usePriceHistory(): UseQueryResult<PriceHistory, Error> {
+  const queryClient = useQueryClient()
+
   return useQuery({
     queryKey: hyperliquidKeys.priceHistory(),
     queryFn: (): PriceHistory => {
-      // Return current cached history
-      return {} as PriceHistory
+      // Return current cached history rather than wiping it on refetch
+      return queryClient.getQueryData<PriceHistory>(hyperliquidKeys.priceHistory()) || {}
     },
     staleTime: Infinity, // Never stale - continuously updated via WebSocket
     gcTime: 1000 * 60 * 60, // 1 hour cache
@@ -110,6 +127,36 @@ export function usePositions(address?: string): UseQueryResult<PositionInfo[], E
   })
 }
 
+// 4b. Restored Positions Hook - Positions persisted before a reload, reconciled once per user/network
+export function useRestoredPositions(address?: string): UseQueryResult<PositionInfo[], Error> {
+  const queryClient = useQueryClient()
+
+  return useQuery({
+    queryKey: hyperliquidKeys.restoredPositions(address),
+    queryFn: async (): Promise<PositionInfo[]> => {
+      if (!address) return []
+      const restored = await hyperliquidOrders.restorePositions(address)
+      queryClient.invalidateQueries({ queryKey: hyperliquidKeys.positions(address) })
+      return restored
+    },
+    enabled: !!address,
+    staleTime: Infinity, // Rehydrate once; usePositions tracks them afterwards
+    retry: false,
+  })
+}
+
+// 4c. Position Reconciliation Hook - Periodic diff of tracked positions against the exchange
+export function usePositionReconciliation(address?: string): UseQueryResult<ReconciliationReport, Error> {
+  return useQuery({
+    queryKey: hyperliquidKeys.reconciliation(address),
+    queryFn: (): Promise<ReconciliationReport> => positionReconciler.reconcile(address!),
+    enabled: !!address,
+    refetchInterval: 15000,
+    staleTime: 5000,
+    retry: 1,
+  })
+}
+
 // 5. Real-time PnL Hook - Background managed
 export function useRealTimePnL(address?: string): UseQueryResult<RealTimePnLData | null, Error> {
   return useQuery({
@@ -140,6 +187,36 @@ export function useAssetPnL(address?: string, asset?: string): UseQueryResult<As
 }
 
 
+// 7. Network Switch Hook - Moves every service and cache to the other network together
+export function useNetworkSwitch(address?: string): (network: HyperliquidNetwork) => NetworkSwitchResult {
+  const queryClient = useQueryClient()
+
+  return useCallback((network: HyperliquidNetwork): NetworkSwitchResult => {
+    if (network === getActiveNetwork()) return { success: true }
+
+    try {
+      // Throws while positions are open, before anything has changed
+      hyperliquidOrders.resetForNetworkChange()
+    } catch (error: unknown) {
+      const handledError = handleApiError(error)
+      console.error('❌ Network switch refused:', handledError.message)
+      return { success: false, error: handledError.message }
+    }
+
+    setActiveNetwork(network)
+    hyperliquid.resetConnection()
+    hyperliquidAgent.resetForNetworkChange()
+    if (address) {
+      void hyperliquidAgent.loadAgent(address)
+    }
+
+    // Data from the old network must not linger: reset to initial state and refetch
+    queryClient.resetQueries({ queryKey: hyperliquidKeys.all })
+    return { success: true }
+  }, [queryClient, address])
+}
+
+
 // 9. Main Hook - Combines everything efficiently
 export function useHyperliquid(address: `0x${string}` | undefined): UseHyperliquidReturn {
   const queryClient = useQueryClient()
@@ -151,6 +228,11 @@ export function useHyperliquid(address: `0x${string}` | undefined): UseHyperliqu
   const pnlQuery = useRealTimePnL(address)
   const priceHistoryQuery = usePriceHistory()
 
+  // Authenticated streams - new fills invalidate positions/PnL immediately
+  const userFillsQuery = useUserFills(address)
+  const orderUpdatesQuery = useOrderUpdates(address)
+  const userEventsQuery = useUserEvents(address)
+
 
   // Derived state - minimal re-renders
   const assets = priceDataQuery.data || []
@@ -168,7 +250,11 @@ export function useHyperliquid(address: `0x${string}` | undefined): UseHyperliqu
     return priceHistoryQuery.data?.[symbol] || []
   }, [priceHistoryQuery.data])
 
-  const calculatePositionSize = useCallback(async (asset: string, leverage: number): Promise<PositionSizeResult | null> => {
+  const calculatePositionSize = useCallback(async (
+    asset: string,
+    leverage: number,
+    stake: number = HyperliquidOrderService.DEFAULT_STAKE
+  ): Promise<PositionSizeResult | null> => {
     try {
       const currentPrice = getCurrentPrice(asset)
       if (!currentPrice) return null
@@ -176,23 +262,8 @@ export function useHyperliquid(address: `0x${string}` | undefined): UseHyperliqu
       const assetMetadata = assetMetadataQuery.data?.find(a => a.name === asset)
       if (!assetMetadata) return null
 
-      const marginAmount = 10
-      const usdValue = marginAmount * leverage
-      const rawAssetSize = usdValue / currentPrice
-      const assetDecimals = assetMetadata.szDecimals || 5
-      const factor = Math.pow(10, assetDecimals)
-      const roundedAssetSize = Math.floor(rawAssetSize * factor) / factor
-
-      let assetSize = roundedAssetSize.toString()
-      if (assetSize.includes('.')) {
-        assetSize = assetSize.replace(/\.?0+$/, '')
-      }
-      if (assetSize.endsWith('.')) {
-        assetSize = assetSize.slice(0, -1)
-      }
-      if (!assetSize) {
-        assetSize = '0'
-      }
+      const usdValue = stake * leverage
+      const assetSize = calculateOrderSizeWithTrueLeverage(currentPrice, assetMetadata.szDecimals, leverage, stake)
 
       return { usdValue, assetSize, currentPrice }
     } catch (error: unknown) {
@@ -217,14 +288,10 @@ export function useHyperliquid(address: `0x${string}` | undefined): UseHyperliqu
     queryClient.invalidateQueries({ queryKey: hyperliquidKeys.positions(address) })
   }, [queryClient, address])
 
-  const setNetwork = useCallback((useTestnet: boolean): void => {
-    hyperliquidOrders.setNetwork(useTestnet)
-    // Invalidate all queries when network changes
-    queryClient.invalidateQueries({ queryKey: hyperliquidKeys.all })
-  }, [queryClient])
+  const setNetwork = useNetworkSwitch(address)
 
   // Position result callback
-  const onPositionResult = useCallback((cloid: string, callback: (result: 'win' | 'loss', exitPrice: number) => void): void => {
+  const onPositionResult = useCallback((cloid: string, callback: (result: 'win' | 'loss', exitPrice: number, pnl?: PnLBreakdown) => void): void => {
     hyperliquidOrders.onPositionResult(cloid, callback)
   }, [])
 
@@ -287,6 +354,9 @@ export function useHyperliquid(address: `0x${string}` | undefined): UseHyperliqu
       positions: positionsQuery,
       pnl: pnlQuery,
       orderBook: useOrderBook, // Return the hook function
+      userFills: userFillsQuery,
+      orderUpdates: orderUpdatesQuery,
+      userEvents: userEventsQuery,
     },
 
 
@@ -1,21 +1,28 @@
 // src/hooks/useHyperliquidSubscriptions.ts
-import { useQuery, useQueryClient, UseQueryResult } from '@tanstack/react-query';
-import { useEffect, useRef } from 'react';
-import { hyperliquid, HyperliquidAsset, PriceFeed, OrderBook } from '@/service/hyperliquid';
+import { QueryClient, useQuery, useQueryClient, UseQueryResult } from '@tanstack/react-query';
+import { useEffect, useRef, useState, useSyncExternalStore } from 'react';
+import {
+  hyperliquid, HyperliquidAsset, PriceFeed, OrderBook, L2BookAggregation, Trade, Bbo, Candle, CandleInterval, CANDLE_INTERVAL_MS,
+  UserFill, UserFillsData, OrderUpdate, UserEvent, ConnectionStatus
+} from '@/service/hyperliquid';
 import { hyperliquidKeys, PriceHistory, transformAssets } from '@/lib/utils';
 import { Asset } from '@/lib/types';
 
 // Real-time Price Data Hook - WebSocket + React Query integration
 export function usePriceData(assets: HyperliquidAsset[]): UseQueryResult<Asset[], Error> {
   const queryClient = useQueryClient();
-  const previousPricesRef = useRef<Record<string, number>>({});
+  // Metadata refreshes every minute; read it through a ref so the allMids
+  // subscription isn't torn down and re-created on every refresh
+  const assetsRef = useRef<HyperliquidAsset[]>(assets);
+  assetsRef.current = assets;
+  const hasAssets = assets.length > 0;
 
   const query = useQuery({
     queryKey: hyperliquidKeys.priceData(),
     queryFn: (): Asset[] => {
       return queryClient.getQueryData<Asset[]>(hyperliquidKeys.priceData()) || [];
     },
-    enabled: assets.length > 0,
+    enabled: hasAssets,
     staleTime: 1000 * 60 * 5,
     gcTime: 1000 * 60 * 30,
     refetchInterval: false,
@@ -23,7 +30,7 @@ export function usePriceData(assets: HyperliquidAsset[]): UseQueryResult<Asset[]
   });
 
   useEffect(() => {
-    if (assets.length === 0) {
+    if (!hasAssets) {
       return;
     }
 
@@ -33,7 +40,7 @@ export function usePriceData(assets: HyperliquidAsset[]): UseQueryResult<Asset[]
       if (!isMounted) return;
 
       const timestamp = Date.now();
-      const transformedAssets = transformAssets(assets, prices, previousPricesRef.current, timestamp);
+      const transformedAssets = transformAssets(assetsRef.current, prices, timestamp);
 
       queryClient.setQueryData(hyperliquidKeys.priceData(), transformedAssets);
 
@@ -50,10 +57,6 @@ export function usePriceData(assets: HyperliquidAsset[]): UseQueryResult<Asset[]
         }
       });
       queryClient.setQueryData(hyperliquidKeys.priceHistory(), updatedHistory);
-
-      Object.entries(prices).forEach(([symbol, price]) => {
-        previousPricesRef.current[symbol] = parseFloat(price);
-      });
     };
 
     console.log('🔌 [usePriceData] Subscribing to Hyperliquid allMids...');
@@ -66,29 +69,37 @@ export function usePriceData(assets: HyperliquidAsset[]): UseQueryResult<Asset[]
         unsubscribe();
       }
     };
-  }, [assets, queryClient]);
+  }, [hasAssets, queryClient]);
 
   return query;
 }
 
-// Order Book Hook - Real-time WebSocket updates
-export function useOrderBook(coin?: string): UseQueryResult<OrderBook | null, Error> {
+// How often an aggregated display book is re-fetched
+const AGGREGATED_BOOK_POLL_MS = 1000;
+
+// Order Book Hook - Real-time WebSocket updates at full precision. Aggregated books
+// (nSigFigs/mantissa) are for display and are polled instead: the socket can't tell an
+// aggregated l2Book message from a full one, and sizing/slippage must never see one.
+export function useOrderBook(coin?: string, aggregation: L2BookAggregation = {}): UseQueryResult<OrderBook | null, Error> {
   const queryClient = useQueryClient();
+  const { nSigFigs, mantissa } = aggregation;
+  const isAggregated = !!nSigFigs;
 
   const query = useQuery({
-    queryKey: hyperliquidKeys.orderBook(coin),
-    queryFn: (): OrderBook | null => {
+    queryKey: hyperliquidKeys.orderBook(coin, nSigFigs, mantissa),
+    queryFn: async (): Promise<OrderBook | null> => {
+      if (isAggregated && coin) return hyperliquid.fetchL2Book(coin, nSigFigs, mantissa);
       return queryClient.getQueryData<OrderBook>(hyperliquidKeys.orderBook(coin)) || null;
     },
     enabled: !!coin,
     staleTime: 1000,
     gcTime: 1000 * 60 * 5,
-    refetchInterval: false,
+    refetchInterval: isAggregated ? AGGREGATED_BOOK_POLL_MS : false,
     refetchOnWindowFocus: false,
   });
 
   useEffect(() => {
-    if (!coin) return;
+    if (!coin || isAggregated) return;
 
     let isSubscribed = true;
 
@@ -98,14 +109,354 @@ export function useOrderBook(coin?: string): UseQueryResult<OrderBook | null, Er
     };
 
     console.log(`📊 Subscribing to order book for ${coin}`);
-    hyperliquid.subscribeToL2Book(coin, handleOrderBookUpdate);
+    const unsubscribe = hyperliquid.subscribeToL2Book(coin, handleOrderBookUpdate);
 
     return (): void => {
       isSubscribed = false;
-      hyperliquid.unsubscribeFromL2Book(coin);
+      unsubscribe();
       console.log(`📊 Unsubscribed from order book for ${coin}`);
     };
+  }, [coin, isAggregated, queryClient]);
+
+  return query;
+}
+
+const MAX_TRADES = 100;
+const MAX_CANDLES = 500;
+const CANDLE_BACKFILL_COUNT = 120;
+const MAX_USER_FILLS = 200;
+const MAX_ORDER_UPDATES = 100;
+const MAX_USER_EVENTS = 50;
+
+// Trades Hook - Live tape of prints, newest first
+export function useTrades(coin?: string, limit: number = MAX_TRADES): UseQueryResult<Trade[], Error> {
+  const queryClient = useQueryClient();
+
+  const query = useQuery({
+    queryKey: hyperliquidKeys.trades(coin),
+    queryFn: (): Trade[] => {
+      return queryClient.getQueryData<Trade[]>(hyperliquidKeys.trades(coin)) || [];
+    },
+    enabled: !!coin,
+    staleTime: Infinity,
+    gcTime: 1000 * 60 * 5,
+    refetchInterval: false,
+    refetchOnWindowFocus: false,
+  });
+
+  useEffect(() => {
+    if (!coin) return;
+
+    let isSubscribed = true;
+
+    const handleTrades = (trades: Trade[]): void => {
+      if (!isSubscribed) return;
+      const current = queryClient.getQueryData<Trade[]>(hyperliquidKeys.trades(coin)) || [];
+      const incoming = [...trades].sort((a, b) => b.time - a.time);
+      queryClient.setQueryData(hyperliquidKeys.trades(coin), [...incoming, ...current].slice(0, limit));
+    };
+
+    console.log(`🧾 Subscribing to trades for ${coin}`);
+    const unsubscribe = hyperliquid.subscribeToTrades(coin, handleTrades);
+
+    return (): void => {
+      isSubscribed = false;
+      unsubscribe();
+      console.log(`🧾 Unsubscribed from trades for ${coin}`);
+    };
+  }, [coin, limit, queryClient]);
+
+  return query;
+}
+
+// BBO Hook - True best bid/ask as published by the exchange
+export function useBbo(coin?: string): UseQueryResult<Bbo | null, Error> {
+  const queryClient = useQueryClient();
+
+  const query = useQuery({
+    queryKey: hyperliquidKeys.bbo(coin),
+    queryFn: (): Bbo | null => {
+      return queryClient.getQueryData<Bbo>(hyperliquidKeys.bbo(coin)) || null;
+    },
+    enabled: !!coin,
+    staleTime: 1000,
+    gcTime: 1000 * 60 * 5,
+    refetchInterval: false,
+    refetchOnWindowFocus: false,
+  });
+
+  useEffect(() => {
+    if (!coin) return;
+
+    let isSubscribed = true;
+
+    const handleBbo = (bbo: Bbo): void => {
+      if (!isSubscribed) return;
+      queryClient.setQueryData(hyperliquidKeys.bbo(coin), bbo);
+    };
+
+    const unsubscribe = hyperliquid.subscribeToBbo(coin, handleBbo);
+
+    return (): void => {
+      isSubscribed = false;
+      unsubscribe();
+    };
   }, [coin, queryClient]);
 
   return query;
+}
+
+// Candle Hook - candleSnapshot backfill merged with live candles, oldest first
+export function useCandles(coin?: string, interval: CandleInterval = '1m'): UseQueryResult<Candle[], Error> {
+  const queryClient = useQueryClient();
+
+  const query = useQuery({
+    queryKey: hyperliquidKeys.candles(coin, interval),
+    queryFn: async (): Promise<Candle[]> => {
+      if (!coin) return [];
+      const endTime = Date.now();
+      const startTime = endTime - CANDLE_INTERVAL_MS[interval] * CANDLE_BACKFILL_COUNT;
+      const snapshot = await hyperliquid.fetchCandleSnapshot(coin, interval, startTime, endTime);
+
+      // Live candles may have landed while the snapshot was in flight; they are newer
+      const live = queryClient.getQueryData<Candle[]>(hyperliquidKeys.candles(coin, interval)) || [];
+      return mergeCandles(snapshot, live);
+    },
+    enabled: !!coin,
+    staleTime: Infinity,
+    gcTime: 1000 * 60 * 5,
+    refetchInterval: false,
+    refetchOnWindowFocus: false,
+  });
+
+  useEffect(() => {
+    if (!coin) return;
+
+    let isSubscribed = true;
+
+    const handleCandle = (candle: Candle): void => {
+      if (!isSubscribed) return;
+      const current = queryClient.getQueryData<Candle[]>(hyperliquidKeys.candles(coin, interval)) || [];
+      queryClient.setQueryData(hyperliquidKeys.candles(coin, interval), upsertCandle(current, candle));
+    };
+
+    console.log(`🕯️ Subscribing to ${interval} candles for ${coin}`);
+    const unsubscribe = hyperliquid.subscribeToCandles(coin, interval, handleCandle);
+
+    return (): void => {
+      isSubscribed = false;
+      unsubscribe();
+      console.log(`🕯️ Unsubscribed from ${interval} candles for ${coin}`);
+    };
+  }, [coin, interval, queryClient]);
+
+  return query;
+}
+
+// Prices older than this are not safe to trade against
+export const STALE_PRICE_THRESHOLD_MS = 5000;
+
+export interface FeedHealth {
+  status: ConnectionStatus
+  lastPriceAt: number | null
+  priceAgeMs: number | null
+  isStale: boolean
+}
+
+const subscribeToConnectionStatus = (onChange: () => void): (() => void) =>
+  hyperliquid.onConnectionStatusChange(onChange);
+const getConnectionStatus = (): ConnectionStatus => hyperliquid.getConnectionStatus();
+
+// Connection State Hook - Re-renders whenever the socket changes state
+export function useConnectionStatus(): ConnectionStatus {
+  return useSyncExternalStore(subscribeToConnectionStatus, getConnectionStatus, getConnectionStatus);
+}
+
+// Feed Health Hook - Connection state plus how old the latest allMids tick is
+export function useFeedHealth(staleAfterMs: number = STALE_PRICE_THRESHOLD_MS): FeedHealth {
+  const status = useConnectionStatus();
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const intervalId = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(intervalId);
+  }, []);
+
+  const lastPriceAt = hyperliquid.getLastMessageAt({ type: 'allMids' });
+  const priceAgeMs = lastPriceAt === null ? null : Math.max(0, now - lastPriceAt);
+
+  return {
+    status,
+    lastPriceAt,
+    priceAgeMs,
+    isStale: status.state !== 'CONNECTED' || priceAgeMs === null || priceAgeMs > staleAfterMs,
+  };
+}
+
+// Invalidate everything derived from the account's positions so it refetches now
+function invalidateAccountQueries(queryClient: QueryClient, address: string): void {
+  queryClient.invalidateQueries({ queryKey: hyperliquidKeys.pnl(address) });
+  queryClient.invalidateQueries({ queryKey: hyperliquidKeys.positions(address) });
+  queryClient.invalidateQueries({ queryKey: [...hyperliquidKeys.all, 'assetPnl', address] });
+}
+
+// User Fills Hook - Authenticated fill stream for an address, newest first
+export function useUserFills(address?: string): UseQueryResult<UserFill[], Error> {
+  const queryClient = useQueryClient();
+
+  const query = useQuery({
+    queryKey: hyperliquidKeys.userFills(address),
+    queryFn: (): UserFill[] => {
+      return queryClient.getQueryData<UserFill[]>(hyperliquidKeys.userFills(address)) || [];
+    },
+    enabled: !!address,
+    staleTime: Infinity,
+    gcTime: 1000 * 60 * 30,
+    refetchInterval: false,
+    refetchOnWindowFocus: false,
+  });
+
+  useEffect(() => {
+    if (!address) return;
+
+    let isSubscribed = true;
+
+    const handleFills = (data: UserFillsData): void => {
+      if (!isSubscribed) return;
+      const incoming = [...data.fills].sort((a, b) => b.time - a.time);
+
+      if (data.isSnapshot) {
+        queryClient.setQueryData(hyperliquidKeys.userFills(address), incoming.slice(0, MAX_USER_FILLS));
+        return;
+      }
+
+      const current = queryClient.getQueryData<UserFill[]>(hyperliquidKeys.userFills(address)) || [];
+      const seen = new Set(current.map(fill => fill.tid));
+      const fresh = incoming.filter(fill => !seen.has(fill.tid));
+      if (fresh.length === 0) return;
+
+      console.log(`💸 ${fresh.length} new fill(s) for ${address}`);
+      queryClient.setQueryData(hyperliquidKeys.userFills(address), [...fresh, ...current].slice(0, MAX_USER_FILLS));
+      invalidateAccountQueries(queryClient, address);
+    };
+
+    const unsubscribe = hyperliquid.subscribeToUserFills(address, handleFills);
+
+    return (): void => {
+      isSubscribed = false;
+      unsubscribe();
+    };
+  }, [address, queryClient]);
+
+  return query;
+}
+
+// Order Updates Hook - Latest status per order id, most recently updated first
+export function useOrderUpdates(address?: string): UseQueryResult<OrderUpdate[], Error> {
+  const queryClient = useQueryClient();
+
+  const query = useQuery({
+    queryKey: hyperliquidKeys.orderUpdates(address),
+    queryFn: (): OrderUpdate[] => {
+      return queryClient.getQueryData<OrderUpdate[]>(hyperliquidKeys.orderUpdates(address)) || [];
+    },
+    enabled: !!address,
+    staleTime: Infinity,
+    gcTime: 1000 * 60 * 30,
+    refetchInterval: false,
+    refetchOnWindowFocus: false,
+  });
+
+  useEffect(() => {
+    if (!address) return;
+
+    let isSubscribed = true;
+
+    const handleOrderUpdates = (updates: OrderUpdate[]): void => {
+      if (!isSubscribed) return;
+      const current = queryClient.getQueryData<OrderUpdate[]>(hyperliquidKeys.orderUpdates(address)) || [];
+      const updatedOids = new Set(updates.map(update => update.order.oid));
+      const incoming = [...updates].sort((a, b) => b.statusTimestamp - a.statusTimestamp);
+      queryClient.setQueryData(
+        hyperliquidKeys.orderUpdates(address),
+        [...incoming, ...current.filter(update => !updatedOids.has(update.order.oid))].slice(0, MAX_ORDER_UPDATES)
+      );
+    };
+
+    const unsubscribe = hyperliquid.subscribeToOrderUpdates(address, handleOrderUpdates);
+
+    return (): void => {
+      isSubscribed = false;
+      unsubscribe();
+    };
+  }, [address, queryClient]);
+
+  return query;
+}
+
+// User Events Hook - Fills, funding, liquidations and system cancels, newest first
+export function useUserEvents(address?: string): UseQueryResult<UserEvent[], Error> {
+  const queryClient = useQueryClient();
+
+  const query = useQuery({
+    queryKey: hyperliquidKeys.userEvents(address),
+    queryFn: (): UserEvent[] => {
+      return queryClient.getQueryData<UserEvent[]>(hyperliquidKeys.userEvents(address)) || [];
+    },
+    enabled: !!address,
+    staleTime: Infinity,
+    gcTime: 1000 * 60 * 30,
+    refetchInterval: false,
+    refetchOnWindowFocus: false,
+  });
+
+  useEffect(() => {
+    if (!address) return;
+
+    let isSubscribed = true;
+
+    const handleUserEvent = (event: UserEvent): void => {
+      if (!isSubscribed) return;
+      const current = queryClient.getQueryData<UserEvent[]>(hyperliquidKeys.userEvents(address)) || [];
+      queryClient.setQueryData(hyperliquidKeys.userEvents(address), [event, ...current].slice(0, MAX_USER_EVENTS));
+
+      if ('liquidation' in event) {
+        console.warn(`🚨 Liquidation event for ${address}:`, event.liquidation);
+        invalidateAccountQueries(queryClient, address);
+      } else if ('nonUserCancel' in event) {
+        console.warn(`🚫 Orders cancelled by the exchange for ${address}:`, event.nonUserCancel);
+      }
+    };
+
+    const unsubscribe = hyperliquid.subscribeToUserEvents(address, handleUserEvent);
+
+    return (): void => {
+      isSubscribed = false;
+      unsubscribe();
+    };
+  }, [address, queryClient]);
+
+  return query;
+}
+
+// Union by open time, preferring `newer` where both have the same candle
+function mergeCandles(older: Candle[], newer: Candle[]): Candle[] {
+  const byOpenTime = new Map<number, Candle>();
+  older.forEach(candle => byOpenTime.set(candle.t, candle));
+  newer.forEach(candle => byOpenTime.set(candle.t, candle));
+  return Array.from(byOpenTime.values())
+    .sort((a, b) => a.t - b.t)
+    .slice(-MAX_CANDLES);
+}
+
+// The socket re-sends the open candle on every update; replace it in place
+function upsertCandle(candles: Candle[], candle: Candle): Candle[] {
+  const last = candles[candles.length - 1];
+  if (last && last.t === candle.t) {
+    return [...candles.slice(0, -1), candle];
+  }
+  if (last && candle.t < last.t) {
+    return candles;
+  }
+  return [...candles, candle].slice(-MAX_CANDLES);
 }
\ No newline at end of file
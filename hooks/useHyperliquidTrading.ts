@@ -1,15 +1,19 @@
 // src/hooks/hyperliquid/useHyperliquidOrders.ts
 import { useMutation, useQueryClient, UseMutationResult } from '@tanstack/react-query';
 import { useSignTypedData, useSwitchChain } from 'wagmi';
-import { hyperliquidOrders, OrderRequest as ServiceOrderRequest, OrderResponse as ServiceOrderResponse, SignTypedDataFunction as ServiceSignTypedDataFunction } from '@/service/hyperliquidOrders'; // Aliased to avoid name clash if local types exist
+import { CloseResult, hyperliquidOrders, OrderRequest as ServiceOrderRequest, OrderResponse as ServiceOrderResponse, SignTypedDataFunction as ServiceSignTypedDataFunction } from '@/service/hyperliquidOrders'; // Aliased to avoid name clash if local types exist
 import {
     hyperliquidKeys,
     handleApiError,
+    HyperliquidAsset,
+    validateLeverage,
     PlaceOrderParams, // Assuming this includes { request: ServiceOrderRequest, signTypedDataAsync: ServiceSignTypedDataFunction, userAddress: string, currentMarketPrice?: number }
     CancelOrderParams, // Assuming this includes { asset: string; orderId: string; signTypedDataAsync: ServiceSignTypedDataFunction; userAddress: string }
 } from '@/lib/utils';
 import { Address, Chain } from 'viem';
 import { Asset } from '@/lib/types';
+import { getNetworkConfig } from '@/lib/network';
+import { positionReconciler, PositionDrift, ReconciliationActionResult } from '@/service/positionReconciler';
 
 // Re-export or use aliased types if needed locally, otherwise service types are used.
 export type OrderRequest = ServiceOrderRequest;
@@ -22,9 +26,15 @@ export interface ExplicitClosePositionParams {
     // but explicitClosePositionByCloid in service doesn't directly take them as it uses initialized agent.
 }
 
-export interface ExplicitClosePositionResponse {
+export type ExplicitClosePositionResponse = CloseResult;
+
+export interface UpdateIsolatedMarginParams {
+    cloid: string;
+    amount: number; // USDC; negative removes margin
+}
+
+export interface UpdateIsolatedMarginResponse {
     success: boolean;
-    exitPrice?: number;
     error?: string;
 }
 
@@ -32,16 +42,19 @@ export interface UseHyperliquidOrderMutations {
     placePredictionOrder: UseMutationResult<OrderResponse, Error, PlaceOrderParams, unknown>;
     cancelOrder: UseMutationResult<boolean, Error, CancelOrderParams, unknown>;
     explicitClosePosition: UseMutationResult<ExplicitClosePositionResponse, Error, ExplicitClosePositionParams, unknown>;
+    updateIsolatedMargin: UseMutationResult<UpdateIsolatedMarginResponse, Error, UpdateIsolatedMarginParams, unknown>;
 }
 
 export interface UseHyperliquidOrdersReturn {
     placePredictionOrder: (params: { request: OrderRequest, currentMarketPrice?: number }) => Promise<OrderResponse>;
     cancelOrder: (params: { asset: string; orderId: string }) => Promise<boolean>;
     explicitClosePosition: (params: ExplicitClosePositionParams) => Promise<ExplicitClosePositionResponse>;
+    updateIsolatedMargin: (params: UpdateIsolatedMarginParams) => Promise<UpdateIsolatedMarginResponse>;
     mutations: UseHyperliquidOrderMutations;
     isProcessingOrder: boolean;
     isCancellingOrder: boolean;
     isClosingPosition: boolean;
+    isUpdatingMargin: boolean;
 }
 
 export function useHyperliquidOrders(address: Address | undefined, isWalletConnected: boolean, chain: Chain | undefined): UseHyperliquidOrdersReturn {
@@ -106,11 +119,12 @@ export function useHyperliquidOrders(address: Address | undefined, isWalletConne
             return hyperliquidOrders.explicitClosePositionByCloid(cloid);
         },
         onSuccess: (result, variables) => {
+            // Unresolved positions stay tracked, so refresh either way
+            queryClient.invalidateQueries({ queryKey: hyperliquidKeys.positions(address) });
             if (result.success) {
-                queryClient.invalidateQueries({ queryKey: hyperliquidKeys.positions(address) });
                 console.log(`✅ Position ${variables.cloid} explicitly closed, refreshing positions. Exit: $${result.exitPrice}`);
             } else {
-                console.warn(`⚠️ Position ${variables.cloid} explicit close reported success:false by API:`, result.error);
+                console.warn(`⚠️ Position ${variables.cloid} close unresolved (${result.status}):`, result.error);
             }
         },
         onError: (error: Error, variables) => {
@@ -119,32 +133,52 @@ export function useHyperliquidOrders(address: Address | undefined, isWalletConne
         },
     });
 
+    const updateIsolatedMarginMutation = useMutation<UpdateIsolatedMarginResponse, Error, UpdateIsolatedMarginParams, unknown>({
+        mutationFn: async ({ cloid, amount }: UpdateIsolatedMarginParams): Promise<UpdateIsolatedMarginResponse> => {
+            return hyperliquidOrders.updateIsolatedMargin(cloid, amount);
+        },
+        onSuccess: (result, variables) => {
+            if (result.success) {
+                // Margin and liquidation price come from clearinghouseState
+                queryClient.invalidateQueries({ queryKey: hyperliquidKeys.pnl(address) });
+                queryClient.invalidateQueries({ queryKey: [...hyperliquidKeys.all, 'assetPnl', address] });
+                console.log(`✅ Margin of ${variables.cloid} updated by $${variables.amount}`);
+            } else {
+                console.warn(`⚠️ Margin update of ${variables.cloid} failed:`, result.error);
+            }
+        },
+        onError: (error: Error, variables) => {
+            const apiError = handleApiError(error);
+            console.error(`❌ Margin update of ${variables.cloid} mutation failed:`, apiError.message, apiError.details);
+        },
+    });
+
     const placePredictionOrder = async ({ request, currentMarketPrice }: { request: OrderRequest, currentMarketPrice?: number }): Promise<OrderResponse> => {
         if (!isWalletConnected || !address || !signTypedDataAsync) {
             return { success: false, error: 'Wallet not connected or signature function unavailable.' };
         }
 
-        const maxLeverage = request.asset === 'BTC' ? 40 : request.asset === 'ETH' ? 25 : 50;
-        if (request.leverage && request.leverage > maxLeverage) {
-            return { success: false, error: `Maximum leverage for ${request.asset} is ${maxLeverage}x` };
-        }
-        if (request.leverage && request.leverage <= 0) {
-            console.warn(`Invalid leverage ${request.leverage} for ${request.asset}, defaulting to 20x.`);
-            request.leverage = 20; // Default or handle error
+        // The service re-checks against `meta` before updating leverage; this fails fast on cached metadata
+        const metadata = queryClient.getQueryData<HyperliquidAsset[]>(hyperliquidKeys.assetMetadata())?.find(a => a.name === request.asset);
+        if (request.leverage !== undefined && metadata?.maxLeverage) {
+            const leverageError = validateLeverage(request.asset, request.leverage, metadata.maxLeverage);
+            if (leverageError) {
+                return { success: false, error: leverageError };
+            }
         }
 
 
-        const expectedChainId = hyperliquidOrders.getApiUrl().includes('testnet') ? 421614 : 42161; // Assuming mainnet Arbitrum One
-        if (chain?.id !== expectedChainId) {
+        const expectedChain = getNetworkConfig().chain;
+        if (chain?.id !== expectedChain.id) {
             if (switchChainAsync) {
                 try {
-                    await switchChainAsync({ chainId: expectedChainId });
+                    await switchChainAsync({ chainId: expectedChain.id });
                 } catch (switchError: unknown) {
                     const handledError = handleApiError(switchError);
-                    return { success: false, error: `Please switch to ${expectedChainId === 421614 ? 'Arbitrum Sepolia' : 'Arbitrum One'}. Error: ${handledError.message}` };
+                    return { success: false, error: `Please switch to ${expectedChain.name}. Error: ${handledError.message}` };
                 }
             } else {
-                return { success: false, error: `Please switch to ${expectedChainId === 421614 ? 'Arbitrum Sepolia' : 'Arbitrum One'}. Wallet does not support chain switching.` };
+                return { success: false, error: `Please switch to ${expectedChain.name}. Wallet does not support chain switching.` };
             }
         }
 
@@ -182,13 +216,25 @@ export function useHyperliquidOrders(address: Address | undefined, isWalletConne
 
     const explicitClosePosition = async ({ cloid }: ExplicitClosePositionParams): Promise<ExplicitClosePositionResponse> => {
         if (!isWalletConnected || !address) { // signTypedDataAsync not directly needed for this call to service, but wallet must be connected.
-            return { success: false, error: 'Wallet not connected for closing position.' };
+            return { success: false, status: 'error', attempts: 0, error: 'Wallet not connected for closing position.' };
         }
         try {
             return await explicitClosePositionMutation.mutateAsync({ cloid });
         } catch (error) {
             const handledError = handleApiError(error);
-            return { success: false, error: `Failed to initiate close for position ${cloid}: ${handledError.message}` };
+            return { success: false, status: 'error', attempts: 0, error: `Failed to initiate close for position ${cloid}: ${handledError.message}` };
+        }
+    };
+
+    const updateIsolatedMargin = async (params: UpdateIsolatedMarginParams): Promise<UpdateIsolatedMarginResponse> => {
+        if (!isWalletConnected || !address) {
+            return { success: false, error: 'Wallet not connected for updating margin.' };
+        }
+        try {
+            return await updateIsolatedMarginMutation.mutateAsync(params);
+        } catch (error) {
+            const handledError = handleApiError(error);
+            return { success: false, error: handledError.message };
         }
     };
 
@@ -196,13 +242,70 @@ export function useHyperliquidOrders(address: Address | undefined, isWalletConne
         placePredictionOrder,
         cancelOrder,
         explicitClosePosition,
+        updateIsolatedMargin,
         mutations: {
             placePredictionOrder: placePredictionOrderMutation,
             cancelOrder: cancelOrderMutation,
             explicitClosePosition: explicitClosePositionMutation,
+            updateIsolatedMargin: updateIsolatedMarginMutation,
         },
         isProcessingOrder: placePredictionOrderMutation.isPending,
         isCancellingOrder: cancelOrderMutation.isPending,
         isClosingPosition: explicitClosePositionMutation.isPending,
+        isUpdatingMargin: updateIsolatedMarginMutation.isPending,
     };
-}
\ No newline at end of file
+}
+export interface ReconciliationActionParams {
+    drift: PositionDrift;
+    roundDuration?: number; // Seconds; round length given to an adopted position
+}
+
+export interface UseReconciliationActionsReturn {
+    flatten: (drift: PositionDrift) => Promise<ReconciliationActionResult>;
+    adopt: (params: ReconciliationActionParams) => Promise<ReconciliationActionResult>;
+    pendingDriftId: string | null;
+}
+
+export function useReconciliationActions(address: Address | undefined): UseReconciliationActionsReturn {
+    const queryClient = useQueryClient();
+
+    const refresh = (): void => {
+        queryClient.invalidateQueries({ queryKey: hyperliquidKeys.positions(address) });
+        queryClient.invalidateQueries({ queryKey: hyperliquidKeys.reconciliation(address) });
+    };
+
+    const flattenMutation = useMutation<ReconciliationActionResult, Error, ReconciliationActionParams, unknown>({
+        mutationFn: async ({ drift }: ReconciliationActionParams): Promise<ReconciliationActionResult> => {
+            if (!address) return { success: false, error: 'Wallet not connected.' };
+            return positionReconciler.flatten(address, drift);
+        },
+        onSettled: refresh,
+    });
+
+    const adoptMutation = useMutation<ReconciliationActionResult, Error, ReconciliationActionParams, unknown>({
+        mutationFn: async ({ drift, roundDuration }: ReconciliationActionParams): Promise<ReconciliationActionResult> => {
+            if (!address) return { success: false, error: 'Wallet not connected.' };
+            return positionReconciler.adopt(address, drift, roundDuration ?? 0);
+        },
+        onSettled: refresh,
+    });
+
+    const run = async (
+        mutation: typeof flattenMutation,
+        params: ReconciliationActionParams
+    ): Promise<ReconciliationActionResult> => {
+        try {
+            return await mutation.mutateAsync(params);
+        } catch (error) {
+            return { success: false, error: handleApiError(error).message };
+        }
+    };
+
+    const pending = flattenMutation.isPending ? flattenMutation.variables : adoptMutation.isPending ? adoptMutation.variables : undefined;
+
+    return {
+        flatten: (drift: PositionDrift) => run(flattenMutation, { drift }),
+        adopt: (params: ReconciliationActionParams) => run(adoptMutation, params),
+        pendingDriftId: pending?.drift.id ?? null,
+    };
+}
@@ -0,0 +1,95 @@
+// src/lib/agentKeyVault.ts
+
+// Agent keys are encrypted with an AES-GCM key that WebCrypto generates as non-extractable and
+// IndexedDB keeps as a CryptoKey object: scripts on the page can use it, but nothing can read
+// its bytes out, so a copied localStorage entry is useless on its own.
+
+const DB_NAME = 'hypurr-rekt'
+const STORE_NAME = 'keys'
+const VAULT_KEY_ID = 'agent-vault-key-v1'
+
+export interface EncryptedSecret {
+  version: 1
+  iv: string // base64, 12 bytes, fresh per encryption
+  ciphertext: string // base64, AES-GCM output including its tag
+}
+
+let vaultKeyPromise: Promise<CryptoKey> | null = null
+
+export function isVaultAvailable(): boolean {
+  return typeof window !== 'undefined' && !!window.indexedDB && !!window.crypto?.subtle
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 1)
+    request.onupgradeneeded = () => request.result.createObjectStore(STORE_NAME)
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+function runRequest<T>(db: IDBDatabase, mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const request = operation(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME))
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+async function loadOrCreateVaultKey(): Promise<CryptoKey> {
+  const db = await openDatabase()
+  try {
+    const existing = await runRequest<CryptoKey | undefined>(db, 'readonly', store => store.get(VAULT_KEY_ID))
+    if (existing) return existing
+
+    const key = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt'])
+    // `add` fails if another tab stored its key first; use theirs then
+    try {
+      await runRequest(db, 'readwrite', store => store.add(key, VAULT_KEY_ID))
+      console.log('🔐 Created agent key vault')
+      return key
+    } catch {
+      const stored = await runRequest<CryptoKey | undefined>(db, 'readonly', store => store.get(VAULT_KEY_ID))
+      if (!stored) throw new Error('Agent key vault could not be created')
+      return stored
+    }
+  } finally {
+    db.close()
+  }
+}
+
+function getVaultKey(): Promise<CryptoKey> {
+  if (!isVaultAvailable()) {
+    return Promise.reject(new Error('Encrypted key storage needs IndexedDB and WebCrypto'))
+  }
+  vaultKeyPromise ??= loadOrCreateVaultKey().catch(error => {
+    vaultKeyPromise = null // Let the next call try again
+    throw error
+  })
+  return vaultKeyPromise
+}
+
+const toBase64 = (bytes: Uint8Array): string => btoa(String.fromCharCode(...bytes))
+const fromBase64 = (value: string): Uint8Array => Uint8Array.from(atob(value), char => char.charCodeAt(0))
+
+export async function encryptSecret(plaintext: string): Promise<EncryptedSecret> {
+  const key = await getVaultKey()
+  const iv = crypto.getRandomValues(new Uint8Array(12))
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(plaintext))
+  return { version: 1, iv: toBase64(iv), ciphertext: toBase64(new Uint8Array(ciphertext)) }
+}
+
+/**
+ * Throws when the secret was encrypted under another vault key (IndexedDB cleared, other browser)
+ */
+export async function decryptSecret(secret: EncryptedSecret): Promise<string> {
+  const key = await getVaultKey()
+  const plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(secret.iv) }, key, fromBase64(secret.ciphertext))
+  return new TextDecoder().decode(plaintext)
+}
+
+export function isEncryptedSecret(value: unknown): value is EncryptedSecret {
+  const secret = value as EncryptedSecret | null
+  return !!secret && secret.version === 1 && typeof secret.iv === 'string' && typeof secret.ciphertext === 'string'
+}
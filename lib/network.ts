@@ -0,0 +1,113 @@
+// src/lib/network.ts
+import { useSyncExternalStore } from 'react'
+import { Chain } from 'viem'
+import { arbitrum } from 'wagmi/chains'
+
+export type HyperliquidNetwork = 'mainnet' | 'testnet'
+
+export interface NetworkConfig {
+  network: HyperliquidNetwork
+  isTestnet: boolean
+  apiUrl: string
+  wsUrl: string
+  // `hyperliquidChain` / `signatureChainId` fields of user-signed actions (approveAgent, withdraw...)
+  hyperliquidChain: 'Mainnet' | 'Testnet'
+  signatureChainId: `0x${string}`
+  // Chain the wallet has to be on to sign
+  chain: Chain
+  appUrl: string
+  depositUrl: string
+  faucetUrl: string | null
+}
+
+// Arbitrum Sepolia (backup/alternative)
+export const arbitrumTestnet: Chain = {
+  id: 421614,
+  name: 'Arbitrum Sepolia',
+  nativeCurrency: { name: 'Ether', symbol: 'ETH', decimals: 18 },
+  rpcUrls: {
+    default: { http: ['https://sepolia-rollup.arbitrum.io/rpc'] },
+  },
+  blockExplorers: {
+    default: { name: 'Arbiscan', url: 'https://sepolia.arbiscan.io' },
+  },
+  testnet: true,
+} as const
+
+// NEXT_PUBLIC_HYPERLIQUID_API_URL / _WS_URL point both networks at another server,
+// e.g. the local mock from `npm run mock:hl`
+const API_OVERRIDE = process.env.NEXT_PUBLIC_HYPERLIQUID_API_URL
+const WS_OVERRIDE = process.env.NEXT_PUBLIC_HYPERLIQUID_WS_URL
+
+export const NETWORKS: Record<HyperliquidNetwork, NetworkConfig> = {
+  mainnet: {
+    network: 'mainnet',
+    isTestnet: false,
+    apiUrl: API_OVERRIDE || 'https://api.hyperliquid.xyz',
+    wsUrl: WS_OVERRIDE || 'wss://api.hyperliquid.xyz/ws',
+    hyperliquidChain: 'Mainnet',
+    signatureChainId: '0xa4b1',
+    chain: arbitrum,
+    appUrl: 'https://app.hyperliquid.xyz',
+    depositUrl: 'https://app.hyperliquid.xyz/portfolio',
+    faucetUrl: null,
+  },
+  testnet: {
+    network: 'testnet',
+    isTestnet: true,
+    apiUrl: API_OVERRIDE || 'https://api.hyperliquid-testnet.xyz',
+    wsUrl: WS_OVERRIDE || 'wss://api.hyperliquid-testnet.xyz/ws',
+    hyperliquidChain: 'Testnet',
+    signatureChainId: '0x66eee',
+    chain: arbitrumTestnet,
+    appUrl: 'https://app.hyperliquid-testnet.xyz',
+    depositUrl: 'https://app.hyperliquid-testnet.xyz',
+    faucetUrl: 'https://app.hyperliquid-testnet.xyz/drip',
+  },
+}
+
+let activeNetwork: HyperliquidNetwork = process.env.NEXT_PUBLIC_IS_TESTNET === 'true' ? 'testnet' : 'mainnet'
+const networkListeners: Set<(network: HyperliquidNetwork) => void> = new Set()
+
+/**
+ * Config of the network every service talks to. Read it at call time rather than
+ * caching it, so a runtime switch takes effect everywhere at once.
+ */
+export function getNetworkConfig(): NetworkConfig {
+  return NETWORKS[activeNetwork]
+}
+
+export function getActiveNetwork(): HyperliquidNetwork {
+  return activeNetwork
+}
+
+/**
+ * Only flips the config and notifies listeners. Use `useHyperliquid().setNetwork`
+ * to also move sockets, agent and caches over.
+ */
+export function setActiveNetwork(network: HyperliquidNetwork): void {
+  if (network === activeNetwork) return
+  console.log(`🌐 Switching network: ${activeNetwork} → ${network}`)
+  activeNetwork = network
+  networkListeners.forEach(listener => {
+    try {
+      listener(network)
+    } catch (error) {
+      console.error('Network listener threw:', error)
+    }
+  })
+}
+
+export function onNetworkChange(listener: (network: HyperliquidNetwork) => void): () => void {
+  networkListeners.add(listener)
+  return () => {
+    networkListeners.delete(listener)
+  }
+}
+
+/**
+ * Active network config for components, re-rendering on switch
+ */
+export function useNetworkConfig(): NetworkConfig {
+  return useSyncExternalStore(onNetworkChange, getNetworkConfig, getNetworkConfig)
+}
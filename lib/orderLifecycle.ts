@@ -0,0 +1,70 @@
+// src/lib/orderLifecycle.ts
+
+export type OrderStatus = 'submitted' | 'resting' | 'partiallyFilled' | 'filled' | 'cancelled' | 'rejected'
+
+export interface OrderLifecycle {
+  cloid: string
+  asset: string
+  status: OrderStatus
+  requestedSize: number
+  filledSize: number
+  avgFillPrice?: number
+  oid?: number
+  submittedAt: number
+  firstFillAt?: number // Rounds are timed from here, not from submission
+  updatedAt: number
+  error?: string
+}
+
+const TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  submitted: ['resting', 'partiallyFilled', 'filled', 'cancelled', 'rejected'],
+  resting: ['partiallyFilled', 'filled', 'cancelled'],
+  partiallyFilled: ['partiallyFilled', 'filled', 'cancelled'],
+  filled: [],
+  cancelled: [],
+  rejected: []
+}
+
+export function isTerminal(status: OrderStatus): boolean {
+  return TRANSITIONS[status].length === 0
+}
+
+export function createOrder(cloid: string, asset: string, requestedSize: number, now: number = Date.now()): OrderLifecycle {
+  return { cloid, asset, status: 'submitted', requestedSize, filledSize: 0, submittedAt: now, updatedAt: now }
+}
+
+/**
+ * Move `order` to `status`. Transitions the state machine doesn't allow (a late 'resting'
+ * after a fill, anything after a terminal state) leave the order untouched.
+ */
+export function transition(
+  order: OrderLifecycle,
+  status: OrderStatus,
+  patch: Partial<Pick<OrderLifecycle, 'oid' | 'error'>> = {},
+  now: number = Date.now()
+): OrderLifecycle {
+  if (!TRANSITIONS[order.status].includes(status)) {
+    if (order.status !== status) {
+      console.warn(`⚠️ Ignoring order ${order.cloid} transition ${order.status} → ${status}`)
+    }
+    return order
+  }
+  return { ...order, ...patch, status, updatedAt: now }
+}
+
+/**
+ * Record the order's cumulative fills, from the /exchange response or the fill stream,
+ * whichever has seen more. Fills after a cancel still count: it only stopped the remainder.
+ */
+export function applyFills(order: OrderLifecycle, filledSize: number, avgFillPrice: number, fillTime: number): OrderLifecycle {
+  if (filledSize <= order.filledSize || order.status === 'rejected') return order
+  const updated = {
+    ...order,
+    filledSize,
+    avgFillPrice,
+    firstFillAt: Math.min(order.firstFillAt ?? fillTime, fillTime),
+    updatedAt: Math.max(order.updatedAt, fillTime)
+  }
+  if (isTerminal(order.status)) return updated
+  return transition(updated, filledSize + 1e-9 >= order.requestedSize ? 'filled' : 'partiallyFilled', {}, updated.updatedAt)
+}
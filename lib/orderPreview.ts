@@ -0,0 +1,95 @@
+// src/lib/orderPreview.ts
+import type { OrderBook } from '@/service/hyperliquid'
+import type { MarginMode, PositionInfo } from '@/service/hyperliquidOrders'
+import type { Asset } from './types'
+import { liquidationPrice } from './pnl'
+import { estimateFill, FillEstimate } from './slippage'
+import { calculateOrderSizeWithTrueLeverage, validateLeverage, validateNetting, validateStake } from './utils'
+
+// Base-tier perp taker rate; volume tiers and referral discounts only lower it
+export const TAKER_FEE_RATE = 0.00035
+
+export interface OrderPreviewInput {
+  asset: Asset
+  direction: 'up' | 'down'
+  stake: number
+  leverage: number
+  marginMode: MarginMode
+  maxSlippageBps: number
+  book?: OrderBook | null // Unknown until the first l2Book snapshot arrives
+  withdrawable?: number // Unknown until clearinghouseState loads
+  openPositions?: PositionInfo[] // Rounds still running, which a new one on their asset would net with
+}
+
+export interface OrderPreview {
+  direction: 'up' | 'down'
+  size: number // Rounded down to szDecimals, as the order will be sent
+  entryPrice: number // Expected average fill, falling back to mid/mark
+  notional: number
+  takerFee: number
+  liquidationPrice: number
+  marginRequired: number // Initial margin plus the entry fee
+  marginAvailable?: number
+  fill: FillEstimate | null
+  errors: string[] // Any entry blocks the order
+}
+
+/**
+ * Everything the player commits to before the countdown: sized with the same
+ * calculateOrderSizeWithTrueLeverage as placePredictionOrder and priced off the same book
+ * walk, so its checks fail here first. Sizes from the asset's displayed price, which the
+ * order path is handed as request.price.
+ */
+export function buildOrderPreview({
+  asset,
+  direction,
+  stake,
+  leverage,
+  marginMode,
+  maxSlippageBps,
+  book,
+  withdrawable,
+  openPositions = []
+}: OrderPreviewInput): OrderPreview {
+  const errors: string[] = []
+  const leverageError = validateLeverage(asset.id, leverage, asset.maxLeverage)
+  if (leverageError) errors.push(leverageError)
+  const stakeError = validateStake(stake, leverage, withdrawable)
+  if (stakeError) errors.push(stakeError)
+  const nettingError = validateNetting(asset.id, direction, leverage, marginMode, openPositions)
+  if (nettingError) errors.push(nettingError)
+
+  const size = parseFloat(calculateOrderSizeWithTrueLeverage(asset.price, asset.szDecimals, leverage, stake))
+  const fill = book && size > 0 ? estimateFill(book, direction === 'up', size, maxSlippageBps) : null
+  const entryPrice = fill?.expectedPrice ?? fill?.midPrice ?? asset.price
+  const notional = size * entryPrice
+  const takerFee = notional * TAKER_FEE_RATE
+  const marginRequired = notional / Math.max(leverage, 1) + takerFee
+
+  if (size <= 0) {
+    errors.push(`$${stake} × ${leverage}x is below one ${asset.id} size increment`)
+  }
+  if (fill && !fill.isFillable) {
+    errors.push(`Not enough ${direction === 'up' ? 'ask' : 'bid'} depth within ${maxSlippageBps} bps to fill ${size} ${asset.id}`)
+  }
+  if (!stakeError && withdrawable !== undefined && marginRequired > withdrawable) {
+    errors.push(`Margin plus fee ($${marginRequired.toFixed(2)}) exceeds your $${withdrawable.toFixed(2)} available balance`)
+  }
+
+  // Cross positions can lean on the free balance before liquidating
+  const marginBacking = marginMode === 'cross' ? stake + (withdrawable ?? 0) : stake
+  const effectiveLeverage = marginBacking > 0 ? (stake * leverage) / marginBacking : leverage
+
+  return {
+    direction,
+    size,
+    entryPrice,
+    notional,
+    takerFee,
+    liquidationPrice: liquidationPrice(direction, entryPrice, effectiveLeverage, asset.maxLeverage),
+    marginRequired,
+    marginAvailable: withdrawable,
+    fill,
+    errors
+  }
+}
@@ -0,0 +1,116 @@
+// src/lib/pnl.ts
+import type { UserFill } from '@/service/hyperliquid'
+
+export interface PnLBreakdown {
+  gross: number // Price PnL before costs
+  fees: number // Fees paid on entry and exit fills (positive = cost)
+  funding: number // Funding received (+) or paid (-) while the position was open
+  net: number // gross - fees + funding
+  margin: number // Collateral behind the position: entry notional / leverage
+  roe: number // net / margin, in percent
+  result: 'win' | 'loss'
+  isExact: boolean // Derived from entry and exit fills; otherwise estimated from prices
+}
+
+export interface PnLPosition {
+  direction: 'up' | 'down'
+  entryPrice: number
+  size: number
+  leverage: number
+}
+
+const sum = (values: number[]): number => values.reduce((total, value) => total + (Number.isFinite(value) ? value : 0), 0)
+
+export function feesOf(fills: UserFill[]): number {
+  return sum(fills.map(f => parseFloat(f.fee)))
+}
+
+function marginFor({ entryPrice, size, leverage }: PnLPosition): number {
+  const notional = entryPrice * size
+  return leverage > 0 ? notional / leverage : notional
+}
+
+function priceMove({ direction, entryPrice, size }: PnLPosition, price: number): number {
+  return (direction === 'up' ? price - entryPrice : entryPrice - price) * size
+}
+
+function breakdown(gross: number, fees: number, funding: number, margin: number, isExact: boolean): PnLBreakdown {
+  const net = gross - fees + funding
+  return {
+    gross,
+    fees,
+    funding,
+    net,
+    margin,
+    roe: margin > 0 ? (net / margin) * 100 : 0,
+    result: net >= 0 ? 'win' : 'loss',
+    isExact
+  }
+}
+
+/**
+ * Realized PnL of a closed round. Hyperliquid reports `closedPnl` on closing fills before
+ * fees and a `fee` on every fill, so net = Σ closedPnl − Σ fee + funding.
+ * Exact only when both legs' fills are known; a missing entry leg means missing entry fees.
+ */
+export function realizedPnL(
+  position: PnLPosition,
+  entryFills: UserFill[],
+  exitFills: UserFill[],
+  funding: number = 0
+): PnLBreakdown {
+  const gross = sum(exitFills.map(f => parseFloat(f.closedPnl)))
+  const fees = feesOf(entryFills) + feesOf(exitFills)
+  return breakdown(gross, fees, funding, marginFor(position), entryFills.length > 0 && exitFills.length > 0)
+}
+
+/**
+ * Mark-to-market PnL of an open round. Prefers the exchange's `unrealizedPnl` when given;
+ * entry fees already paid are deducted either way.
+ */
+export function openPnL(position: PnLPosition, markPrice: number, entryFees: number = 0, unrealizedPnl?: number): PnLBreakdown {
+  const gross = unrealizedPnl ?? priceMove(position, markPrice)
+  return breakdown(gross, entryFees, 0, marginFor(position), false)
+}
+
+/**
+ * Fallback for a closed round whose fills never arrived: price move only, no costs
+ */
+export function estimatedPnL(position: PnLPosition, exitPrice: number): PnLBreakdown {
+  return breakdown(priceMove(position, exitPrice), 0, 0, marginFor(position), false)
+}
+
+export interface BracketConfig {
+  takeProfitPct: number | null // Gain on margin that takes profit, e.g. 50 = +50% ROE
+  stopLossPct: number | null // Loss on margin that stops out
+}
+
+/**
+ * Trigger prices for brackets set as % of margin. At L× leverage a p% ROE is a p/L % price
+ * move from entry (fees aside); a stop at or beyond 100% would sit past liquidation.
+ */
+export function bracketPrices(
+  direction: 'up' | 'down',
+  entryPrice: number,
+  leverage: number,
+  config: BracketConfig
+): { takeProfit?: number; stopLoss?: number } {
+  const sign = direction === 'up' ? 1 : -1
+  const move = (pct: number) => pct / 100 / Math.max(leverage, 1)
+  return {
+    ...(config.takeProfitPct && { takeProfit: entryPrice * (1 + sign * move(config.takeProfitPct)) }),
+    ...(config.stopLossPct && { stopLoss: entryPrice * (1 - sign * move(config.stopLossPct)) })
+  }
+}
+
+/**
+ * Estimated liquidation price of an isolated position opened at `entryPrice`, per Hyperliquid's
+ * formula with maintenance margin at half the initial margin of `maxLeverage`. Fees and
+ * funding move it; treat it as a guide.
+ */
+export function liquidationPrice(direction: 'up' | 'down', entryPrice: number, leverage: number, maxLeverage: number): number {
+  const side = direction === 'up' ? 1 : -1
+  const maintenance = 1 / (2 * Math.max(maxLeverage, 1))
+  const marginAvailable = 1 / Math.max(leverage, 1) - maintenance // Per unit of entry notional
+  return Math.max(entryPrice * (1 - side * marginAvailable / (1 - side * maintenance)), 0)
+}
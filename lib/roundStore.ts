@@ -0,0 +1,78 @@
+// src/lib/roundStore.ts
+import { useSyncExternalStore } from 'react'
+import type { CloseResult } from '@/service/hyperliquidOrders'
+import type { PnLBreakdown } from './pnl'
+import type { Prediction } from './types'
+
+// Rounds running at once in multi-slot mode; each holds its own margin
+export const MAX_CONCURRENT_ROUNDS = 4
+
+export interface Round {
+  cloid: string // Entry order cloid, same key as the service's position
+  gameId?: string // Database game ID
+  prediction: Prediction
+  entryPrice: number
+  positionSize: string // Filled size
+  requestedSize?: string // Entry order size; larger after a partial fill
+  leverage: number
+  deadline: number // Epoch ms; timers derive their time left from it, so remounts don't restart them
+  status: 'active' | 'settled'
+  settlement?: { exitPrice: number; pnl: PnLBreakdown } // Set with status 'settled'
+  unresolvedClose?: CloseResult // Close could not be confirmed; no result until it is
+}
+
+const NO_ROUNDS: Round[] = []
+let rounds: Round[] = NO_ROUNDS
+const roundListeners: Set<() => void> = new Set()
+
+function setRounds(next: Round[]): void {
+  rounds = next
+  roundListeners.forEach(listener => {
+    try {
+      listener()
+    } catch (error) {
+      console.error('Round listener threw:', error)
+    }
+  })
+}
+
+/**
+ * Every round on the board, oldest first. Settled rounds stay until their result is dismissed.
+ */
+export function getRounds(): Round[] {
+  return rounds
+}
+
+export function getRound(cloid: string): Round | undefined {
+  return rounds.find(round => round.cloid === cloid)
+}
+
+export function addRound(round: Round): void {
+  if (getRound(round.cloid)) return
+  console.log(`🎲 Round ${round.cloid} on ${round.prediction.asset.id} added (${rounds.length + 1} on the board)`)
+  setRounds([...rounds, round])
+}
+
+export function updateRound(cloid: string, patch: Partial<Omit<Round, 'cloid'>>): void {
+  if (!getRound(cloid)) return
+  setRounds(rounds.map(round => round.cloid === cloid ? { ...round, ...patch } : round))
+}
+
+export function removeRound(cloid: string): void {
+  if (!getRound(cloid)) return
+  setRounds(rounds.filter(round => round.cloid !== cloid))
+}
+
+export function onRoundsChange(listener: () => void): () => void {
+  roundListeners.add(listener)
+  return () => {
+    roundListeners.delete(listener)
+  }
+}
+
+/**
+ * Rounds for components, re-rendering on every change
+ */
+export function useRounds(): Round[] {
+  return useSyncExternalStore(onRoundsChange, getRounds, () => NO_ROUNDS)
+}
@@ -0,0 +1,73 @@
+// src/lib/slippage.ts
+import type { OrderBook } from '@/service/hyperliquid'
+
+export interface FillEstimate {
+  isBuy: boolean
+  size: number
+  midPrice: number
+  limitPrice: number // IOC limit: mid moved by the max-slippage bound
+  expectedPrice: number | null // Average fill walking the book up to the limit; null if nothing is in range
+  expectedSlippageBps: number | null // Expected price vs mid, positive = worse for the taker
+  fillableSize: number // Book depth available inside the limit
+  isFillable: boolean
+}
+
+export interface SlippageRecord {
+  midPrice: number
+  expectedPrice: number | null
+  expectedSlippageBps: number | null
+  realizedSlippageBps: number | null // Actual fill vs the same mid
+}
+
+export const DEFAULT_MAX_SLIPPAGE_BPS = 100
+export const MAX_SLIPPAGE_OPTIONS_BPS = [10, 50, 100, 300]
+
+/**
+ * Slippage of `price` against `reference`, in basis points; positive means the taker paid up
+ */
+export function slippageBps(isBuy: boolean, reference: number, price: number): number {
+  if (reference <= 0) return 0
+  return ((isBuy ? price - reference : reference - price) / reference) * 10_000
+}
+
+export function midPrice(book: OrderBook): number | null {
+  const [bids, asks] = book.levels
+  const bestBid = bids[0] ? parseFloat(bids[0].px) : null
+  const bestAsk = asks[0] ? parseFloat(asks[0].px) : null
+  if (bestBid !== null && bestAsk !== null) return (bestBid + bestAsk) / 2
+  return bestBid ?? bestAsk
+}
+
+/**
+ * Walk the opposite side of the book to estimate an IOC's average fill for `size`, counting
+ * only levels inside the max-slippage limit. Size beyond the visible depth counts as unfillable.
+ */
+export function estimateFill(book: OrderBook, isBuy: boolean, size: number, maxSlippageBps: number = DEFAULT_MAX_SLIPPAGE_BPS): FillEstimate | null {
+  const mid = midPrice(book)
+  if (mid === null || size <= 0) return null
+
+  const limitPrice = mid * (1 + ((isBuy ? 1 : -1) * maxSlippageBps) / 10_000)
+  const levels = isBuy ? book.levels[1] : book.levels[0]
+  let filled = 0
+  let cost = 0
+  for (const level of levels) {
+    const px = parseFloat(level.px)
+    if (isBuy ? px > limitPrice : px < limitPrice) break
+    const take = Math.min(parseFloat(level.sz), size - filled)
+    filled += take
+    cost += take * px
+    if (filled >= size) break
+  }
+
+  const expectedPrice = filled > 0 ? cost / filled : null
+  return {
+    isBuy,
+    size,
+    midPrice: mid,
+    limitPrice,
+    expectedPrice,
+    expectedSlippageBps: expectedPrice !== null ? slippageBps(isBuy, mid, expectedPrice) : null,
+    fillableSize: filled,
+    isFillable: filled + 1e-12 >= size
+  }
+}
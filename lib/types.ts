@@ -8,8 +8,15 @@ export type Asset = {
   symbol: string
   price: number
   maxLeverage: number
-  change24h: number
+  szDecimals: number
+  change24h: number // vs prevDayPx from metaAndAssetCtxs
   timestamp: number
+  prevDayPrice?: number
+  markPrice?: number
+  oraclePrice?: number
+  fundingRate?: number // hourly, as a fraction
+  openInterest?: number // in USD (base units * mark)
+  volume24h?: number // notional USD
 }
 
 export type GameState = 'idle' | 'countdown' | 'active' | 'result'
@@ -23,7 +30,10 @@ export type Prediction = {
   timestamp: number
   result?: 'win' | 'loss'
   leverage?: number
+  stake?: number // USDC margin
   exitPrice?: number
+  takeProfit?: number // Bracket trigger prices, when set
+  stopLoss?: number
 }
 
 export type GameStats = {
@@ -8,8 +8,8 @@ export function cn(...inputs: ClassValue[]) {
 
 // src/hooks/hyperliquid/shared.ts
 import type { SignTypedDataMutateAsync } from '@wagmi/core/query';
-import { OrderBook, OrderBookLevel, HyperliquidAsset as SDKHyperliquidAsset, PriceFeed, hyperliquid } from '@/service/hyperliquid'; // Assuming these are SDK types
-import { AssetConfig, hyperliquidOrders, HyperliquidOrderService, OrderRequest, PositionPnL, RealTimePnLData } from "@/service/hyperliquidOrders";
+import { OpenOrder, OrderBook, UserFill, OrderBookLevel, HyperliquidAsset as SDKHyperliquidAsset, L2BookAggregation, PriceFeed, hyperliquid } from '@/service/hyperliquid'; // Assuming these are SDK types
+import { AssetConfig, hyperliquidOrders, HyperliquidOrderService, MarginMode, OrderRequest, PositionInfo, PositionPnL, RealTimePnLData } from "@/service/hyperliquidOrders";
 import { useQuery, UseQueryResult } from "@tanstack/react-query";
 import { ethers } from "ethers";
 import { Asset } from "./types";
@@ -54,9 +54,18 @@ export const hyperliquidKeys = {
   priceData: () => [...hyperliquidKeys.all, 'priceData'] as const,
   priceHistory: () => [...hyperliquidKeys.all, 'priceHistory'] as const,
   positions: (address?: string) => [...hyperliquidKeys.all, 'positions', address] as const,
+  restoredPositions: (address?: string) => [...hyperliquidKeys.all, 'restoredPositions', address] as const,
+  reconciliation: (address?: string) => [...hyperliquidKeys.all, 'reconciliation', address] as const,
   pnl: (address?: string) => [...hyperliquidKeys.all, 'pnl', address] as const,
   assetPnl: (address?: string, asset?: string) => [...hyperliquidKeys.all, 'assetPnl', address, asset] as const,
-  orderBook: (coin?: string) => [...hyperliquidKeys.all, 'orderBook', coin] as const,
+  orderBook: (coin?: string, nSigFigs?: number | null, mantissa?: number) =>
+    [...hyperliquidKeys.all, 'orderBook', coin, nSigFigs ?? null, mantissa ?? null] as const,
+  trades: (coin?: string) => [...hyperliquidKeys.all, 'trades', coin] as const,
+  bbo: (coin?: string) => [...hyperliquidKeys.all, 'bbo', coin] as const,
+  candles: (coin?: string, interval?: string) => [...hyperliquidKeys.all, 'candles', coin, interval] as const,
+  userFills: (address?: string) => [...hyperliquidKeys.all, 'userFills', address] as const,
+  orderUpdates: (address?: string) => [...hyperliquidKeys.all, 'orderUpdates', address] as const,
+  userEvents: (address?: string) => [...hyperliquidKeys.all, 'userEvents', address] as const,
 } as const;
 
 // Custom error handler with proper typing
@@ -83,27 +92,18 @@ export const handleApiError = (error: unknown): HyperliquidError => {
 export const transformAssets = (
   metadata: HyperliquidAsset[],
   prices: PriceFeed,
-  previousPrices: Record<string, number>,
   timestamp: number
 ): Asset[] => {
-  const popularAssets = ['BTC', 'ETH', 'SOL', 'ARB', 'DOGE'] as const;
-
   return metadata
     .filter(asset => prices[asset.name])
-    .sort((a, b) => {
-      const aIndex = popularAssets.indexOf(a.name as typeof popularAssets[number]);
-      const bIndex = popularAssets.indexOf(b.name as typeof popularAssets[number]);
-      if (aIndex !== -1 && bIndex !== -1) return aIndex - bIndex;
-      if (aIndex !== -1) return -1;
-      if (bIndex !== -1) return 1;
-      return a.name.localeCompare(b.name);
-    })
     .map((asset): Asset => {
       const currentPrice = parseFloat(prices[asset.name]);
-      const previousPrice = previousPrices[asset.name];
-      const change24h = previousPrice
-        ? ((currentPrice - previousPrice) / previousPrice) * 100
-        : (Math.random() - 0.5) * 10; // Fallback, consider fetching historical for true 24h
+      const ctx = asset.ctx;
+      const prevDayPrice = ctx ? parseFloat(ctx.prevDayPx) : NaN;
+      const markPrice = ctx ? parseFloat(ctx.markPx) : NaN;
+      const change24h = prevDayPrice > 0
+        ? ((currentPrice - prevDayPrice) / prevDayPrice) * 100
+        : 0;
 
       return {
         id: asset.name,
@@ -112,10 +112,39 @@ export const transformAssets = (
         price: currentPrice,
         change24h,
         maxLeverage: asset.maxLeverage ?? 0,
-        timestamp
+        szDecimals: asset.szDecimals,
+        timestamp,
+        prevDayPrice: prevDayPrice > 0 ? prevDayPrice : undefined,
+        markPrice: ctx ? markPrice : undefined,
+        oraclePrice: ctx ? parseFloat(ctx.oraclePx) : undefined,
+        fundingRate: ctx ? parseFloat(ctx.funding) : undefined,
+        openInterest: ctx ? parseFloat(ctx.openInterest) * (markPrice || currentPrice) : undefined,
+        volume24h: ctx ? parseFloat(ctx.dayNtlVlm) : undefined,
       };
     })
-    .slice(0, 8); // Limiting to 8 assets
+    .sort((a, b) => (b.volume24h ?? 0) - (a.volume24h ?? 0));
+};
+
+export type AssetSortKey = 'volume' | 'openInterest' | 'volatility' | 'leverage';
+
+// Volatility is approximated by the absolute 24h move
+export const sortAssets = (assets: Asset[], sortBy: AssetSortKey): Asset[] => {
+  const value = (asset: Asset): number => {
+    switch (sortBy) {
+      case 'volume': return asset.volume24h ?? 0;
+      case 'openInterest': return asset.openInterest ?? 0;
+      case 'volatility': return Math.abs(asset.change24h);
+      case 'leverage': return asset.maxLeverage;
+    }
+  };
+  return [...assets].sort((a, b) => value(b) - value(a) || a.id.localeCompare(b.id));
+};
+
+export const formatCompactUsd = (value: number): string => {
+  if (value >= 1e9) return `$${(value / 1e9).toFixed(2)}B`;
+  if (value >= 1e6) return `$${(value / 1e6).toFixed(2)}M`;
+  if (value >= 1e3) return `$${(value / 1e3).toFixed(1)}K`;
+  return `$${value.toFixed(0)}`;
 };
 
 export const getAssetDisplayName = (symbol: string): string => {
@@ -149,13 +178,13 @@ export interface ProcessedOrderLevel {
   totalPercent: number;
 }
 
-export function processOrderBook(orderBook: OrderBook | null): ProcessedOrderBook | null {
+export function processOrderBook(orderBook: OrderBook | null, depth: number = 10): ProcessedOrderBook | null {
   if (!orderBook || !orderBook.levels) return null;
 
   const [rawBids, rawAsks] = orderBook.levels;
 
   const bids: ProcessedOrderLevel[] = rawBids
-    .slice(0, 10)
+    .slice(0, depth)
     .map((bid: OrderBookLevel) => ({
       price: parseFloat(bid.px),
       size: parseFloat(bid.sz),
@@ -166,7 +195,7 @@ export function processOrderBook(orderBook: OrderBook | null): ProcessedOrderBoo
     .sort((a, b) => b.price - a.price);
 
   const asks: ProcessedOrderLevel[] = rawAsks
-    .slice(0, 10)
+    .slice(0, depth)
     .map((ask: OrderBookLevel) => ({
       price: parseFloat(ask.px),
       size: parseFloat(ask.sz),
@@ -214,6 +243,44 @@ export function processOrderBook(orderBook: OrderBook | null): ProcessedOrderBoo
   };
 }
 
+/**
+ * Decimals a perp price can carry on Hyperliquid: at most 5 significant figures
+ * and at most (6 - szDecimals) decimal places. Integer prices are always valid.
+ */
+export function getPriceDecimals(price: number, szDecimals: number): number {
+  const maxDecimals = Math.max(0, 6 - szDecimals);
+  if (!price || !isFinite(price)) return maxDecimals;
+  const integerDigits = Math.floor(Math.log10(Math.abs(price))) + 1;
+  return Math.min(maxDecimals, Math.max(0, 5 - integerDigits));
+}
+
+export function formatDisplayPrice(price: number, szDecimals: number): string {
+  const decimals = getPriceDecimals(price, szDecimals);
+  return price.toLocaleString(undefined, {
+    minimumFractionDigits: decimals,
+    maximumFractionDigits: decimals
+  });
+}
+
+export function formatDisplaySize(size: number, szDecimals: number): string {
+  return size.toLocaleString(undefined, {
+    minimumFractionDigits: 0,
+    maximumFractionDigits: szDecimals
+  });
+}
+
+/**
+ * Price step of an l2Book aggregation at a given price level.
+ * nSigFigs = null means the book is unaggregated (native tick).
+ */
+export function getAggregationTick(price: number, szDecimals: number, aggregation: L2BookAggregation): number {
+  const integerDigits = price > 0 ? Math.floor(Math.log10(price)) + 1 : 1;
+  if (!aggregation.nSigFigs) {
+    return Math.pow(10, -getPriceDecimals(price, szDecimals));
+  }
+  return Math.pow(10, integerDigits - aggregation.nSigFigs) * (aggregation.mantissa ?? 1);
+}
+
 export function getTopLeverageAssets(
   metadataUniverse: HyperliquidAsset[] | undefined | null,
   count: number = 10
@@ -239,25 +306,21 @@ export function getTopLeverageAssets(
   return sortedAssets.slice(0, count);
 }
 
-// 1. Asset Metadata Hook - No caching (as requested)
+// 1. Asset Metadata Hook - Universe plus live context (funding, OI, 24h stats)
 export function useAssetMetadata(): UseQueryResult<HyperliquidAsset[], Error> {
   return useQuery({
     queryKey: hyperliquidKeys.assetMetadata(),
     queryFn: async (): Promise<HyperliquidAsset[]> => {
-      const metadata = await hyperliquid.fetchPerpetualMeta();
-
-      // Sort by maxLeverage in descending order and take top 10
-      return metadata.universe
-        .sort((a, b) => {
-          const leverageA = a.maxLeverage ?? 0;
-          const leverageB = b.maxLeverage ?? 0;
-          return leverageB - leverageA;
-        })
-        .slice(0, 10);
+      const [meta, assetCtxs] = await hyperliquid.fetchMetaAndAssetCtxs();
+
+      // Contexts are index-aligned with the universe; keep the index before filtering
+      return meta.universe
+        .map((asset, index) => ({ ...asset, index, ctx: assetCtxs[index] }))
+        .filter(asset => !asset.isDelisted);
     },
-    // MODIFIED CACHE TIMES:
-    staleTime: 1000 * 60 * 60,    // Consider data fresh for 60 minutes
-    gcTime: 1000 * 60 * 60,     // Keep unused data for 60 minutes
+    staleTime: 1000 * 30,
+    gcTime: 1000 * 60 * 60,
+    refetchInterval: 1000 * 60, // Refresh 24h change, funding and OI every minute
     refetchOnWindowFocus: false,
     retry: 3,
   });
@@ -326,6 +389,14 @@ export function formatPrice(price: number, assetDecimals: number): string {
   }
 }
 
+/**
+ * Order size for the wire: truncated (never rounded up) to szDecimals
+ */
+export function formatSize(size: number, szDecimals: number): string {
+  const factor = Math.pow(10, szDecimals);
+  return String(Math.floor(size * factor + 1e-9) / factor);
+}
+
 
 /**
  * Generate a unique client order ID
@@ -362,6 +433,7 @@ export async function getRealTimePnL(userAddress: string): Promise<RealTimePnLDa
       return {
         totalUnrealizedPnl: 0,
         positions: [],
+        withdrawable: parseFloat(result?.withdrawable ?? '0') || 0,
         lastUpdate: Date.now()
       }
     }
@@ -378,7 +450,10 @@ export async function getRealTimePnL(userAddress: string): Promise<RealTimePnLDa
         unrealizedPnl: pos.position.unrealizedPnl || '0',
         returnOnEquity: pos.position.returnOnEquity || '0',
         positionValue: pos.position.positionValue || '0',
-        leverage: pos.position.leverage || '1'
+        leverage: String(pos.position.leverage?.value ?? 1),
+        marginMode: pos.position.leverage?.type === 'cross' ? 'cross' : 'isolated',
+        marginUsed: pos.position.marginUsed || '0',
+        liquidationPx: pos.position.liquidationPx ?? null
       }))
 
     // Calculate total unrealized P&L
@@ -389,6 +464,7 @@ export async function getRealTimePnL(userAddress: string): Promise<RealTimePnLDa
     return {
       totalUnrealizedPnl,
       positions,
+      withdrawable: parseFloat(result.withdrawable ?? '0') || 0,
       lastUpdate: Date.now()
     }
 
@@ -398,6 +474,111 @@ export async function getRealTimePnL(userAddress: string): Promise<RealTimePnLDa
   }
 }
 
+/**
+ * Fetch the user's resting orders, or null if the request failed
+ */
+export async function getOpenOrders(userAddress: string): Promise<OpenOrder[] | null> {
+  try {
+    const response = await fetch(`${hyperliquidOrders.getApiUrl()}/info`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        type: 'openOrders',
+        user: userAddress.toLowerCase()
+      })
+    })
+
+    if (!response.ok) {
+      console.warn('Failed to fetch open orders:', response.status)
+      return null
+    }
+
+    const result = await response.json()
+    return Array.isArray(result) ? result : []
+  } catch (error) {
+    console.error('Error fetching open orders:', error)
+    return null
+  }
+}
+
+export interface FundingPayment {
+  time: number
+  coin: string
+  usdc: string // Signed: negative when the user paid
+  szi: string // Signed position size the payment was charged on
+}
+
+/**
+ * Fetch the user's fills in a time window, or null if the request failed
+ */
+export async function getUserFillsByTime(userAddress: string, startTime: number, endTime?: number): Promise<UserFill[] | null> {
+  try {
+    const response = await fetch(`${hyperliquidOrders.getApiUrl()}/info`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        type: 'userFillsByTime',
+        user: userAddress.toLowerCase(),
+        startTime,
+        ...(endTime !== undefined && { endTime })
+      })
+    })
+
+    if (!response.ok) {
+      console.warn('Failed to fetch fills:', response.status)
+      return null
+    }
+
+    const result = await response.json()
+    return Array.isArray(result) ? result : []
+  } catch (error) {
+    console.error('Error fetching fills:', error)
+    return null
+  }
+}
+
+/**
+ * Fetch funding paid or received in a time window, or null if the request failed
+ */
+export async function getUserFunding(userAddress: string, startTime: number, endTime?: number): Promise<FundingPayment[] | null> {
+  try {
+    const response = await fetch(`${hyperliquidOrders.getApiUrl()}/info`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        type: 'userFunding',
+        user: userAddress.toLowerCase(),
+        startTime,
+        ...(endTime !== undefined && { endTime })
+      })
+    })
+
+    if (!response.ok) {
+      console.warn('Failed to fetch funding:', response.status)
+      return null
+    }
+
+    const result = await response.json()
+    if (!Array.isArray(result)) return []
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    return result.map((entry: any) => ({
+      time: entry.time,
+      coin: entry.delta?.coin,
+      usdc: entry.delta?.usdc ?? '0',
+      szi: entry.delta?.szi ?? '0'
+    }))
+  } catch (error) {
+    console.error('Error fetching funding:', error)
+    return null
+  }
+}
+
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 export async function checkUserAccount(userAddress: string): Promise<{ exists: boolean, balance?: any }> {
   try {
@@ -471,20 +652,127 @@ export async function getAssetConfig(assetSymbol: string): Promise<AssetConfig>
 }
 
 
-export function calculateTrueLeveragePosition(leverage: number = 20): number {
-  const positionValue = HyperliquidOrderService.MARGIN_AMOUNT * leverage
-  console.log(`💰 True leverage: $${HyperliquidOrderService.MARGIN_AMOUNT} margin × ${leverage}x = $${positionValue} position`)
+export function calculateTrueLeveragePosition(leverage: number = 20, stake: number = HyperliquidOrderService.DEFAULT_STAKE): number {
+  const positionValue = stake * leverage
+  console.log(`💰 True leverage: $${stake} margin × ${leverage}x = $${positionValue} position`)
   return positionValue
 }
 
+/**
+ * Why a stake can't be placed, or null when it can. `withdrawable` comes from clearinghouseState;
+ * pass undefined while it is unknown to only check the order minimum.
+ */
+export function validateStake(stake: number, leverage: number, withdrawable?: number): string | null {
+  if (!Number.isFinite(stake) || stake <= 0) {
+    return 'Stake must be a positive USDC amount'
+  }
+  if (stake * leverage < HyperliquidOrderService.MIN_ORDER_VALUE) {
+    return `Stake too small: $${stake} × ${leverage}x is below the $${HyperliquidOrderService.MIN_ORDER_VALUE} minimum order value`
+  }
+  if (withdrawable !== undefined && stake > withdrawable) {
+    return `$${stake} stake exceeds your $${withdrawable.toFixed(2)} available balance`
+  }
+  return null
+}
+
 
-export function calculateOrderSizeWithTrueLeverage(price: number, assetDecimals: number, leverage: number = 20): string {
-  const positionValue = calculateTrueLeveragePosition(leverage);
+/**
+ * Why a leverage can't be used on an asset, or null when it can. Limits come from `meta`.
+ */
+export function validateLeverage(asset: string, leverage: number, maxLeverage: number): string | null {
+  if (!Number.isInteger(leverage) || leverage < 1) {
+    return `Leverage must be a whole number of at least 1x`
+  }
+  if (leverage > maxLeverage) {
+    return `Maximum leverage for ${asset} is ${maxLeverage}x`
+  }
+  return null
+}
+
+/**
+ * Why a round can't open next to the open ones, or null when it can. The exchange keeps one
+ * position per asset, so rounds on the same asset add to it: they must share its side (the
+ * other side would close the earlier round) and its leverage and margin mode (set per asset).
+ */
+export function validateNetting(
+  asset: string,
+  direction: 'up' | 'down',
+  leverage: number,
+  marginMode: MarginMode,
+  openPositions: Pick<PositionInfo, 'asset' | 'direction' | 'leverage' | 'marginMode'>[]
+): string | null {
+  const sameAsset = openPositions.filter(p => p.asset === asset)
+  if (sameAsset.some(p => p.direction !== direction)) {
+    return `A ${asset} round is already ${direction === 'up' ? 'short' : 'long'}; an opposite round would net against it`
+  }
+  if (sameAsset.some(p => p.leverage !== undefined && p.leverage !== leverage)) {
+    return `${asset} rounds share one position: use the running round's ${sameAsset[0].leverage}x leverage`
+  }
+  if (sameAsset.some(p => (p.marginMode ?? 'isolated') !== marginMode)) {
+    return `${asset} rounds share one position: use the running round's ${sameAsset[0].marginMode ?? 'isolated'} margin`
+  }
+  return null
+}
+
+const LEVERAGE_PREFERENCES_KEY = 'hypurr_leverage_preferences'
+const MARGIN_MODE_PREFERENCES_KEY = 'hypurr_margin_mode_preferences'
+
+function loadAssetPreferences<T>(key: string): Record<string, T> {
+  if (typeof window === 'undefined') return {}
+  try {
+    return JSON.parse(localStorage.getItem(key) || '{}')
+  } catch {
+    return {}
+  }
+}
+
+function saveAssetPreference<T>(key: string, asset: string, value: T): Record<string, T> {
+  const preferences = { ...loadAssetPreferences<T>(key), [asset]: value }
+  try {
+    localStorage.setItem(key, JSON.stringify(preferences))
+  } catch (error) {
+    console.warn(`⚠️ Failed to save ${key}:`, error)
+  }
+  return preferences
+}
+
+/**
+ * Leverage the user last picked per asset. Values are clamped to live limits by the caller.
+ */
+export function loadLeveragePreferences(): Record<string, number> {
+  return loadAssetPreferences<number>(LEVERAGE_PREFERENCES_KEY)
+}
+
+export function saveLeveragePreference(asset: string, leverage: number): Record<string, number> {
+  return saveAssetPreference(LEVERAGE_PREFERENCES_KEY, asset, leverage)
+}
+
+/**
+ * Cross or isolated margin the user last picked per asset
+ */
+export function loadMarginModePreferences(): Record<string, MarginMode> {
+  return loadAssetPreferences<MarginMode>(MARGIN_MODE_PREFERENCES_KEY)
+}
+
+export function saveMarginModePreference(asset: string, marginMode: MarginMode): Record<string, MarginMode> {
+  return saveAssetPreference(MARGIN_MODE_PREFERENCES_KEY, asset, marginMode)
+}
+
+
+/**
+ * Entry size for a stake at a leverage, rounded down to szDecimals. The one sizing rule for
+ * the order, the game record and the preview; quiet, since the preview calls it every tick.
+ */
+export function calculateOrderSizeWithTrueLeverage(
+  price: number,
+  assetDecimals: number,
+  leverage: number = 20,
+  stake: number = HyperliquidOrderService.DEFAULT_STAKE
+): string {
+  if (!(price > 0)) return '0';
+  const positionValue = stake * leverage;
   const assetSize = positionValue / price;
 
   // Format properly for Hyperliquid
-  const factor = Math.pow(10, assetDecimals);
-  const rounded = Math.floor(assetSize * factor) / factor;
-
-  return rounded.toString().replace(/\.?0+$/, '');
+  return formatSize(assetSize, assetDecimals);
 }
\ No newline at end of file
@@ -1,23 +1,7 @@
 // src/config/wagmi.ts
 import { getDefaultConfig } from '@rainbow-me/rainbowkit'
 import { arbitrum } from 'wagmi/chains'
-import { Chain } from 'viem'
-
-
-
-// Arbitrum Sepolia (backup/alternative)
-export const arbitrumTestnet: Chain = {
-  id: 421614,
-  name: 'Arbitrum Sepolia',
-  nativeCurrency: { name: 'Ether', symbol: 'ETH', decimals: 18 },
-  rpcUrls: {
-    default: { http: ['https://sepolia-rollup.arbitrum.io/rpc'] },
-  },
-  blockExplorers: {
-    default: { name: 'Arbiscan', url: 'https://sepolia.arbiscan.io' },
-  },
-  testnet: true,
-} as const
+import { arbitrumTestnet } from './network'
 
 export const config = getDefaultConfig({
   appName: 'Hypurrekt',
@@ -0,0 +1,309 @@
+#!/usr/bin/env node
+// scripts/keeper.mjs
+//
+// Closes game rounds the browser failed to close (tab asleep, closed, crashed).
+//
+//   KEEPER_USER_ADDRESS=0x... KEEPER_AGENT_PRIVATE_KEY=0x... npm run keeper
+//
+// Every KEEPER_INTERVAL_MS it reads the user's unfinished games from Supabase. A game past
+// its time window plus KEEPER_GRACE_MS whose position is still open on Hyperliquid is
+// closed with reduce-only IOCs (widening bands, like the app) and its result recorded.
+// Net PnL follows lib/pnl.ts: closedPnl of the exit fills, minus entry and exit fees, plus
+// the round's share of funding. As in the app, it is only stored as real_pnl_dollar when
+// both legs' fills are found; otherwise the result is estimated from prices.
+//
+// It signs with the agent key the app generated and the user approved ("Copy key for
+// keeper" on the Trading Agent card; the app only stores it encrypted). An agent can trade
+// but not withdraw. Signing uses the same @nktkas/hyperliquid signL1Action as the app.
+//
+// Environment:
+//   KEEPER_USER_ADDRESS, KEEPER_AGENT_PRIVATE_KEY    required
+//   NEXT_PUBLIC_IS_TESTNET, NEXT_PUBLIC_HYPERLIQUID_API_URL,
+//   NEXT_PUBLIC_SUPABASE_URL, NEXT_PUBLIC_SUPABASE_ANON_KEY    as for the app
+//   KEEPER_INTERVAL_MS (5000), KEEPER_GRACE_MS (15000),
+//   KEEPER_MAX_AGE_MS (86400000, older games are left alone), KEEPER_ONCE (single pass)
+
+import { randomBytes } from 'node:crypto'
+import { createClient } from '@supabase/supabase-js'
+import { privateKeyToAccount } from 'viem/accounts'
+import { signL1Action } from '@nktkas/hyperliquid/signing'
+
+const USER = process.env.KEEPER_USER_ADDRESS?.toLowerCase()
+const AGENT_KEY = process.env.KEEPER_AGENT_PRIVATE_KEY
+const IS_TESTNET = process.env.NEXT_PUBLIC_IS_TESTNET === 'true'
+const API_URL = process.env.NEXT_PUBLIC_HYPERLIQUID_API_URL
+  || (IS_TESTNET ? 'https://api.hyperliquid-testnet.xyz' : 'https://api.hyperliquid.xyz')
+const INTERVAL_MS = Number(process.env.KEEPER_INTERVAL_MS || 5000)
+const GRACE_MS = Number(process.env.KEEPER_GRACE_MS || 15000)
+const MAX_AGE_MS = Number(process.env.KEEPER_MAX_AGE_MS || 24 * 60 * 60 * 1000)
+const RUN_ONCE = !!process.env.KEEPER_ONCE
+
+// Limit offsets from mid for successive close attempts, as in HyperliquidOrderService
+const CLOSE_PRICE_BANDS = [0.01, 0.02, 0.05, 0.1]
+// How long exit fills may take to show up in userFillsByTime
+const FILL_WAIT_MS = 3000
+
+if (!USER || !AGENT_KEY) {
+  console.error('❌ KEEPER_USER_ADDRESS and KEEPER_AGENT_PRIVATE_KEY are required')
+  process.exit(1)
+}
+if (!process.env.NEXT_PUBLIC_SUPABASE_URL || !process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY) {
+  console.error('❌ NEXT_PUBLIC_SUPABASE_URL and NEXT_PUBLIC_SUPABASE_ANON_KEY are required')
+  process.exit(1)
+}
+
+const supabase = createClient(process.env.NEXT_PUBLIC_SUPABASE_URL, process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY)
+const agent = privateKeyToAccount(AGENT_KEY)
+
+// --- Hyperliquid ---
+
+async function info(body) {
+  const response = await fetch(`${API_URL}/info`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body)
+  })
+  if (!response.ok) throw new Error(`info ${body.type}: HTTP ${response.status}`)
+  return response.json()
+}
+
+// Unique per signer, like the app's NonceManager
+let lastNonce = 0
+function nextNonce() {
+  lastNonce = Math.max(Date.now(), lastNonce + 1)
+  return lastNonce
+}
+
+async function exchange(action) {
+  const nonce = nextNonce()
+  const signature = await signL1Action({ wallet: agent, action, nonce, isTestnet: IS_TESTNET })
+  const response = await fetch(`${API_URL}/exchange`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ action, signature, nonce }),
+    signal: AbortSignal.timeout(10000)
+  })
+  const result = await response.json().catch(() => null)
+  if (!response.ok || result?.status !== 'ok') {
+    throw new Error(typeof result?.response === 'string' ? result.response : `HTTP ${response.status}: ${JSON.stringify(result)}`)
+  }
+  return result.response
+}
+
+// 5 significant figures and at most 6 - szDecimals decimals
+function formatPx(price, szDecimals) {
+  return String(Number(Number(price.toPrecision(5)).toFixed(Math.max(0, 6 - szDecimals))))
+}
+
+function formatSz(size, szDecimals) {
+  const factor = Math.pow(10, szDecimals)
+  return String(Math.floor(size * factor + 1e-9) / factor)
+}
+
+function generateCloid() {
+  return '0x' + randomBytes(16).toString('hex')
+}
+
+async function openSize(coin, direction) {
+  const state = await info({ type: 'clearinghouseState', user: USER })
+  const position = state.assetPositions.find(p => p.position.coin === coin)
+  const szi = position ? parseFloat(position.position.szi) : 0
+  return (direction === 'up' ? szi > 0 : szi < 0) ? Math.abs(szi) : 0
+}
+
+/**
+ * Reduce-only IOCs for up to `size`, widening the band each attempt, never into the part of the
+ * position `siblingSize` belongs to other rounds. Returns the VWAP of what filled (null if
+ * nothing did) and the cloids the attempts were sent with.
+ */
+async function closeRound(coin, direction, size, siblingSize, assetId, szDecimals) {
+  const fills = []
+  const cloids = []
+  let remaining = size
+  for (const band of CLOSE_PRICE_BANDS) {
+    remaining = Math.min(remaining, Math.max(await openSize(coin, direction) - siblingSize, 0))
+    if (remaining <= 1e-9) break
+    if (remaining <= 0) break
+
+    const mids = await info({ type: 'allMids' })
+    const mid = parseFloat(mids[coin])
+    if (!mid) continue
+    const isBuy = direction === 'down' // Closing side
+    const px = formatPx(mid * (isBuy ? 1 + band : 1 - band), szDecimals)
+    const sz = formatSz(remaining, szDecimals)
+    console.log(`💰 Closing ${sz} ${coin} ${direction} @ ${px} (±${band * 100}% of ${mid})`)
+
+    const cloid = generateCloid()
+    cloids.push(cloid)
+    try {
+      const response = await exchange({
+        type: 'order',
+        orders: [{ a: assetId, b: isBuy, p: px, s: sz, r: true, t: { limit: { tif: 'Ioc' } }, c: cloid }],
+        grouping: 'na'
+      })
+      const status = response?.data?.statuses?.[0]
+      if (status?.filled) {
+        const filled = parseFloat(status.filled.totalSz)
+        fills.push({ size: filled, price: parseFloat(status.filled.avgPx) })
+        remaining = Math.max(remaining - filled, 0)
+      } else {
+        console.warn(`⚠️ Close attempt did not fill:`, status?.error ?? status)
+      }
+    } catch (error) {
+      console.warn(`⚠️ Close attempt failed:`, error.message)
+    }
+  }
+
+  const filledSize = fills.reduce((sum, f) => sum + f.size, 0)
+  const exitPrice = filledSize > 0 ? fills.reduce((sum, f) => sum + f.size * f.price, 0) / filledSize : null
+  return { exitPrice, cloids }
+}
+
+const sum = values => values.reduce((total, value) => total + (Number.isFinite(value) ? value : 0), 0)
+
+// Price move only, as the app's estimatedPnL when fills never show up
+function estimatedPnL(game, exitPrice, size) {
+  const net = (game.direction === 'up' ? exitPrice - game.entry_price : game.entry_price - exitPrice) * size
+  return { net, isExact: false }
+}
+
+/**
+ * PnL of a game the keeper closed, by the rule of lib/pnl.ts: net = Σ closedPnl − Σ fee + funding.
+ * Entry fills are matched by the game's entry_cloid and exit fills by the keeper's close cloids;
+ * without an entry_cloid the entry fees are unknown and the result is not exact. Funding is the
+ * game's share of each payment on the coin (its size over the position's) until the close.
+ */
+async function roundPnL(game, coin, filledSize, exitPrice, exitCloids) {
+  const startTime = new Date(game.created_at).getTime()
+  const closedAt = Date.now()
+
+  const waitUntil = closedAt + FILL_WAIT_MS
+  let history = await info({ type: 'userFillsByTime', user: USER, startTime })
+  let exitFills = history.filter(f => f.cloid && exitCloids.includes(f.cloid))
+  while (exitFills.length === 0 && Date.now() < waitUntil) {
+    await new Promise(resolve => setTimeout(resolve, 500))
+    history = await info({ type: 'userFillsByTime', user: USER, startTime })
+    exitFills = history.filter(f => f.cloid && exitCloids.includes(f.cloid))
+  }
+
+  const entryFills = game.entry_cloid ? history.filter(f => f.cloid === game.entry_cloid) : []
+
+  if (exitFills.length === 0) return estimatedPnL(game, exitPrice, filledSize)
+
+  const payments = await info({ type: 'userFunding', user: USER, startTime, endTime: closedAt })
+  const funding = sum(payments
+    .filter(p => p.delta?.coin === coin)
+    .map(p => {
+      const positionSize = Math.abs(parseFloat(p.delta.szi))
+      const share = positionSize > 0 ? Math.min(filledSize / positionSize, 1) : 0
+      return parseFloat(p.delta.usdc) * share
+    }))
+  const gross = sum(exitFills.map(f => parseFloat(f.closedPnl)))
+  const fees = sum([...entryFills, ...exitFills].map(f => parseFloat(f.fee)))
+  const net = gross - fees + funding
+  console.log(`🧮 Game ${game.id}: gross $${gross.toFixed(4)} - fees $${fees.toFixed(4)} + funding $${funding.toFixed(4)} = $${net.toFixed(4)}`)
+  return { net, isExact: entryFills.length > 0 }
+}
+
+// --- Rounds ---
+
+// Every game still without a result, expired or not: the live ones hold their share of positions
+async function unfinishedGames() {
+  const { data, error } = await supabase
+    .from('games')
+    .select('*')
+    .eq('user_address', USER)
+    .is('result', null)
+    .gte('created_at', new Date(Date.now() - MAX_AGE_MS).toISOString())
+  if (error) throw error
+  return data || []
+}
+
+const isExpired = (game, now) => new Date(game.created_at).getTime() + game.time_window * 1000 + GRACE_MS < now
+
+// Games already reported as not closable by the keeper, so each is flagged once
+const flagged = new Set()
+
+async function sweep() {
+  let games = await unfinishedGames()
+  const now = Date.now()
+  // Oldest first, like the app's restore: when the position is short of what the rounds on a side
+  // add up to, the older ones (more likely stopped out) are the ones taken as already flat
+  const expired = games
+    .filter(game => isExpired(game, now))
+    .sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime())
+  if (expired.length === 0) return
+
+  const [meta] = await info({ type: 'metaAndAssetCtxs' })
+  for (const game of expired) {
+    const coin = game.asset_symbol.replace(/-PERP$/, '')
+    const assetId = meta.universe.findIndex(asset => asset.name === coin)
+    if (assetId < 0) continue
+
+    // A round only closes its own fill; other rounds may share the asset. Without a recorded
+    // fill the round's share of the position is unknown, so it is left for the user
+    const filledSize = Number(game.filled_size)
+    if (!(filledSize > 0)) {
+      if (!flagged.has(game.id)) {
+        flagged.add(game.id)
+        console.warn(`⚠️ Game ${game.id} expired without a recorded filled_size; close it from the app`)
+      }
+      continue
+    }
+    // Unfinished rounds on the same side share the position; only what they don't hold is this one's
+    const siblingSize = sum(games
+      .filter(other => other.id !== game.id && other.asset_symbol === game.asset_symbol && other.direction === game.direction)
+      .map(other => Number(other.filled_size)))
+    const size = Math.min(filledSize, Math.max(await openSize(coin, game.direction) - siblingSize, 0))
+    if (size <= 1e-9) {
+      // Already flat: the app, a bracket or the protective stop got there first
+      games = games.filter(other => other.id !== game.id)
+      continue
+    }
+
+    console.log(`⏰ Game ${game.id} expired with ${size} ${coin} ${game.direction} still open`)
+    const { exitPrice, cloids } = await closeRound(coin, game.direction, size, siblingSize, assetId, meta.universe[assetId].szDecimals)
+    if (exitPrice === null) {
+      console.error(`❌ Could not close game ${game.id}, retrying next pass`)
+      continue
+    }
+    games = games.filter(other => other.id !== game.id)
+
+    let pnl
+    try {
+      pnl = await roundPnL(game, coin, filledSize, exitPrice, cloids)
+    } catch (error) {
+      console.warn(`⚠️ Could not read fills for game ${game.id}, estimating its PnL:`, error.message)
+      pnl = estimatedPnL(game, exitPrice, filledSize)
+    }
+    const result = pnl.net >= 0 ? 'win' : 'loss'
+    const { error } = await supabase
+      .from('games')
+      .update({
+        result,
+        exit_price: exitPrice,
+        real_pnl_dollar: pnl.isExact ? pnl.net : undefined, // Only PnL derived from fills is stored as real
+        completed_at: new Date().toISOString()
+      })
+      .eq('id', game.id)
+    if (error) console.error(`❌ Closed game ${game.id} but failed to record it:`, error.message)
+    else console.log(`✅ Game ${game.id} closed by keeper at $${exitPrice}: ${result.toUpperCase()} ($${pnl.net.toFixed(4)}${pnl.isExact ? '' : ', estimated'})`)
+  }
+}
+
+console.log(`🛡️ Keeper watching ${USER} on ${IS_TESTNET ? 'testnet' : 'mainnet'} (${API_URL}) as agent ${agent.address}`)
+
+let running = true
+process.on('SIGINT', () => { running = false })
+process.on('SIGTERM', () => { running = false })
+
+while (running) {
+  try {
+    await sweep()
+  } catch (error) {
+    console.error('❌ Keeper pass failed:', error.message ?? error)
+  }
+  if (RUN_ONCE) break
+  await new Promise(resolve => setTimeout(resolve, INTERVAL_MS))
+}
+console.log('👋 Keeper stopped')
@@ -0,0 +1,207 @@
+#!/usr/bin/env node
+// scripts/mock-flow.mjs
+//
+// Scripted round against the mock Hyperliquid: approve an agent, open a position with an IOC,
+// rest a protective stop, close with a reduce-only IOC and check the account ends flat, the stop
+// gone with the position and both legs' fills on record. Exits non-zero on the first failed check.
+//
+//   npm run mock:flow
+//
+// Starts its own mock on MOCK_FLOW_PORT (4199) with a fixed seed and stops it afterwards, so it
+// doesn't touch a mock already running for `npm run dev`. Signs the way the exchange verifies:
+// L1 actions through the phantom agent, approveAgent as a user-signed EIP-712 action.
+
+import { spawn } from 'node:child_process'
+import { randomBytes } from 'node:crypto'
+import { encode as encodeMsgpack } from '@msgpack/msgpack'
+import { ethers } from 'ethers'
+
+const PORT = Number(process.env.MOCK_FLOW_PORT || 4199)
+const API_URL = `http://localhost:${PORT}`
+const COIN = 'BTC'
+const LEVERAGE = 10
+const STAKE = 20 // USDC of margin, as a default round
+
+// --- Mock process ---
+
+async function startMock() {
+  const mock = spawn(process.execPath, ['scripts/mock-hyperliquid.mjs'], {
+    env: { ...process.env, MOCK_HL_PORT: String(PORT), MOCK_HL_SEED: '42', MOCK_HL_VOLATILITY: '0' },
+    stdio: ['ignore', 'ignore', 'inherit']
+  })
+  const readyBy = Date.now() + 10000
+  while (Date.now() < readyBy) {
+    if (mock.exitCode !== null) throw new Error(`Mock exited with code ${mock.exitCode}`)
+    try {
+      const response = await fetch(`${API_URL}/mock/state`)
+      if (response.ok) return mock
+    } catch {
+      // Not listening yet
+    }
+    await new Promise(resolve => setTimeout(resolve, 200))
+  }
+  mock.kill()
+  throw new Error(`Mock did not start on port ${PORT}`)
+}
+
+// --- Hyperliquid ---
+
+async function post(path, body) {
+  const response = await fetch(`${API_URL}${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body)
+  })
+  if (!response.ok) throw new Error(`${path}: HTTP ${response.status}`)
+  return response.json()
+}
+
+const info = body => post('/info', body)
+
+let lastNonce = 0
+function nextNonce() {
+  lastNonce = Math.max(Date.now(), lastNonce + 1)
+  return lastNonce
+}
+
+const L1_DOMAIN = { name: 'Exchange', version: '1', chainId: 1337, verifyingContract: ethers.ZeroAddress }
+const L1_TYPES = { Agent: [{ name: 'source', type: 'string' }, { name: 'connectionId', type: 'bytes32' }] }
+
+function actionHash(action, nonce) {
+  const nonceBytes = new Uint8Array(8)
+  new DataView(nonceBytes.buffer).setBigUint64(0, BigInt(nonce))
+  return ethers.keccak256(ethers.concat([encodeMsgpack(action), nonceBytes, new Uint8Array(1)]))
+}
+
+async function exchange(wallet, action) {
+  const nonce = nextNonce()
+  const connectionId = actionHash(action, nonce)
+  const signature = ethers.Signature.from(await wallet.signTypedData(L1_DOMAIN, L1_TYPES, { source: 'b', connectionId }))
+  const result = await post('/exchange', { action, signature: { r: signature.r, s: signature.s, v: signature.v }, nonce })
+  if (result?.status !== 'ok') throw new Error(`${action.type}: ${JSON.stringify(result?.response)}`)
+  return result.response
+}
+
+async function approveAgent(master, agentAddress) {
+  const nonce = nextNonce()
+  const action = { type: 'approveAgent', hyperliquidChain: 'Testnet', signatureChainId: '0x66eee', agentAddress, nonce }
+  const signature = ethers.Signature.from(await master.signTypedData(
+    { name: 'HyperliquidSignTransaction', version: '1', chainId: 0x66eee, verifyingContract: ethers.ZeroAddress },
+    {
+      'HyperliquidTransaction:ApproveAgent': [
+        { name: 'hyperliquidChain', type: 'string' },
+        { name: 'agentAddress', type: 'address' },
+        { name: 'agentName', type: 'string' },
+        { name: 'nonce', type: 'uint64' }
+      ]
+    },
+    { hyperliquidChain: action.hyperliquidChain, agentAddress, agentName: '', nonce }
+  ))
+  const result = await post('/exchange', { action, signature: { r: signature.r, s: signature.s, v: signature.v }, nonce })
+  if (result?.status !== 'ok') throw new Error(`approveAgent: ${JSON.stringify(result?.response)}`)
+}
+
+// 5 significant figures and at most 6 - szDecimals decimals
+function formatPx(price, szDecimals) {
+  return String(Number(Number(price.toPrecision(5)).toFixed(Math.max(0, 6 - szDecimals))))
+}
+
+function formatSz(size, szDecimals) {
+  const factor = Math.pow(10, szDecimals)
+  return String(Math.floor(size * factor + 1e-9) / factor)
+}
+
+const generateCloid = () => '0x' + randomBytes(16).toString('hex')
+
+async function positionSize(user) {
+  const state = await info({ type: 'clearinghouseState', user })
+  const position = state.assetPositions.find(p => p.position.coin === COIN)
+  return position ? parseFloat(position.position.szi) : 0
+}
+
+// --- Flow ---
+
+let step = 0
+function check(condition, message) {
+  if (!condition) throw new Error(`Check failed: ${message}`)
+  console.log(`✅ ${++step}. ${message}`)
+}
+
+async function runFlow() {
+  await post('/mock/reset')
+  const master = ethers.Wallet.createRandom()
+  const agent = ethers.Wallet.createRandom()
+  const user = master.address.toLowerCase()
+
+  await approveAgent(master, agent.address.toLowerCase())
+  const state = await fetch(`${API_URL}/mock/state`).then(response => response.json())
+  check(state.agents[agent.address.toLowerCase()] === user, 'agent approved for the master account')
+
+  const [meta] = await info({ type: 'metaAndAssetCtxs' })
+  const assetId = meta.universe.findIndex(asset => asset.name === COIN)
+  const { szDecimals } = meta.universe[assetId]
+  const leverage = await exchange(agent, { type: 'updateLeverage', asset: assetId, isCross: false, leverage: LEVERAGE })
+  check(leverage.type === 'default', `${COIN} leverage set to ${LEVERAGE}x isolated by the agent`)
+
+  // Entry: IOC buy bounded 1% above mid, as placePredictionOrder prices it
+  const entryMid = parseFloat((await info({ type: 'allMids' }))[COIN])
+  const size = formatSz((STAKE * LEVERAGE) / entryMid, szDecimals)
+  const entryCloid = generateCloid()
+  const entry = await exchange(agent, {
+    type: 'order',
+    orders: [{ a: assetId, b: true, p: formatPx(entryMid * 1.01, szDecimals), s: size, r: false, t: { limit: { tif: 'Ioc' } }, c: entryCloid }],
+    grouping: 'na'
+  })
+  const entryStatus = entry.data.statuses[0]
+  check(entryStatus.filled?.totalSz === size, `entry IOC filled ${size} ${COIN} at ${entryStatus.filled?.avgPx}`)
+  check(Math.abs(await positionSize(user) - Number(size)) < 1e-9, `long ${size} ${COIN} open on the account`)
+
+  // Protective stop: reduce-only trigger below entry that must rest, not fill
+  const stopCloid = generateCloid()
+  const stopPx = formatPx(entryMid * 0.95, szDecimals)
+  const stop = await exchange(agent, {
+    type: 'order',
+    orders: [{ a: assetId, b: false, p: stopPx, s: size, r: true, t: { trigger: { isMarket: true, triggerPx: stopPx, tpsl: 'sl' } }, c: stopCloid }],
+    grouping: 'na'
+  })
+  check(!!stop.data.statuses[0].resting, `protective stop resting at ${stopPx}`)
+
+  // Close: reduce-only IOC sell bounded 1% below mid, as closePosition's first band
+  await post('/mock/price', { coin: COIN, price: entryMid * 1.002 })
+  const exitMid = parseFloat((await info({ type: 'allMids' }))[COIN])
+  const exitCloid = generateCloid()
+  const exit = await exchange(agent, {
+    type: 'order',
+    orders: [{ a: assetId, b: false, p: formatPx(exitMid * 0.99, szDecimals), s: size, r: true, t: { limit: { tif: 'Ioc' } }, c: exitCloid }],
+    grouping: 'na'
+  })
+  const exitStatus = exit.data.statuses[0]
+  check(exitStatus.filled?.totalSz === size, `close IOC filled ${size} ${COIN} at ${exitStatus.filled?.avgPx}`)
+  check(await positionSize(user) === 0, 'account flat after the close')
+
+  // The exchange drops reduce-only triggers of a flat position by itself
+  const openOrders = await info({ type: 'openOrders', user })
+  check(!openOrders.some(order => order.cloid === stopCloid) && openOrders.length === 0, 'protective stop dropped with the position')
+
+  // Realized PnL the way lib/pnl.ts takes it: closedPnl of the exit minus both legs' fees
+  const fills = await info({ type: 'userFillsByTime', user, startTime: 0 })
+  const entryFills = fills.filter(f => f.cloid === entryCloid)
+  const exitFills = fills.filter(f => f.cloid === exitCloid)
+  check(entryFills.length > 0 && exitFills.length > 0, 'entry and exit fills recorded with their cloids')
+  const gross = exitFills.reduce((sum, f) => sum + parseFloat(f.closedPnl), 0)
+  const fees = [...entryFills, ...exitFills].reduce((sum, f) => sum + parseFloat(f.fee), 0)
+  check(gross > 0, `price move up closed in profit: gross $${gross.toFixed(4)} - fees $${fees.toFixed(4)} = $${(gross - fees).toFixed(4)}`)
+}
+
+const mock = await startMock()
+let failed = false
+try {
+  await runFlow()
+  console.log('🎉 Mock flow passed')
+} catch (error) {
+  failed = true
+  console.error('❌', error.message ?? error)
+} finally {
+  mock.kill()
+}
+process.exit(failed ? 1 : 0)
@@ -0,0 +1,1078 @@
+#!/usr/bin/env node
+// scripts/mock-hyperliquid.mjs
+//
+// Self-contained mock of the Hyperliquid API for offline development and tests.
+//
+//   npm run mock:hl
+//   NEXT_PUBLIC_HYPERLIQUID_API_URL=http://localhost:4100 \
+//   NEXT_PUBLIC_HYPERLIQUID_WS_URL=ws://localhost:4100/ws npm run dev
+//
+// Serves POST /info, POST /exchange and the /ws WebSocket. Prices random-walk on a
+// synthetic order book; IOC/GTC/ALO and trigger orders fill against that book and
+// update per-user positions, balances and fills. Signatures are verified the same
+// way the exchange does (L1 phantom agent / user-signed EIP-712), so an agent has to
+// be approved before it can trade for a user.
+//
+// Control endpoints for scripting scenarios in tests:
+//   GET  /mock/state                          accounts, prices, open orders
+//   POST /mock/price   { coin, price }        jump a coin's price (next tick uses it)
+//   POST /mock/drift   { coin, drift }        per-tick drift, e.g. 0.001 = +0.1%/tick
+//   POST /mock/freeze  { mode }               'none' | 'prices' (stop broadcasts) | 'all' (also ignore pings)
+//   POST /mock/drop                           terminate every WebSocket connection
+//   POST /mock/balance { user, balance }      set a user's USDC balance
+//   POST /mock/reset                          clear accounts, agents and orders
+//
+// Environment:
+//   MOCK_HL_PORT (4100), MOCK_HL_TICK_MS (1000), MOCK_HL_BALANCE (1000),
+//   MOCK_HL_VOLATILITY (0.0005 per tick), MOCK_HL_SEED (deterministic random walk)
+
+import http from 'node:http'
+import { randomBytes } from 'node:crypto'
+import { WebSocketServer } from 'ws'
+import { encode as encodeMsgpack } from '@msgpack/msgpack'
+import { ethers } from 'ethers'
+
+const PORT = Number(process.env.MOCK_HL_PORT || 4100)
+const TICK_MS = Number(process.env.MOCK_HL_TICK_MS || 1000)
+const DEFAULT_BALANCE = Number(process.env.MOCK_HL_BALANCE || 1000)
+const VOLATILITY = Number(process.env.MOCK_HL_VOLATILITY || 0.0005)
+const TAKER_FEE = 0.00035
+const MAKER_FEE = 0.0001
+const BOOK_LEVELS = 20
+const CANDLE_HISTORY_MINUTES = 3 * 24 * 60
+
+// --- Scripted universe ---
+
+const UNIVERSE = [
+  { name: 'BTC', szDecimals: 5, maxLeverage: 40, price: 104000, dayVolume: 1.2e9, oi: 9000 },
+  { name: 'ETH', szDecimals: 4, maxLeverage: 25, price: 2500, dayVolume: 6.5e8, oi: 250000 },
+  { name: 'SOL', szDecimals: 2, maxLeverage: 20, price: 150, dayVolume: 2.1e8, oi: 2500000 },
+  { name: 'DOGE', szDecimals: 0, maxLeverage: 10, price: 0.18, dayVolume: 6e7, oi: 400000000 },
+  { name: 'ARB', szDecimals: 1, maxLeverage: 10, price: 0.35, dayVolume: 2e7, oi: 60000000 },
+]
+
+const CANDLE_INTERVAL_MS = {
+  '1m': 60_000, '3m': 180_000, '5m': 300_000, '15m': 900_000, '30m': 1_800_000,
+  '1h': 3_600_000, '2h': 7_200_000, '4h': 14_400_000, '8h': 28_800_000, '12h': 43_200_000,
+  '1d': 86_400_000, '3d': 259_200_000, '1w': 604_800_000, '1M': 2_592_000_000,
+}
+
+// Deterministic PRNG when MOCK_HL_SEED is set, so scripted runs are reproducible
+let seed = process.env.MOCK_HL_SEED ? Number(process.env.MOCK_HL_SEED) : null
+function random() {
+  if (seed === null) return Math.random()
+  seed = (seed * 1664525 + 1013904223) % 4294967296
+  return seed / 4294967296
+}
+function gaussian() {
+  const u = Math.max(random(), 1e-12)
+  const v = random()
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v)
+}
+
+// --- Market state ---
+
+const markets = new Map() // coin -> { meta, index, price, prevDayPx, drift, candles: 1m candles }
+
+function resetMarkets() {
+  markets.clear()
+  const now = Date.now()
+  UNIVERSE.forEach((asset, index) => {
+    // Walk backwards from the current price to synthesise history
+    const candles = []
+    let close = asset.price
+    const currentMinute = Math.floor(now / 60_000) * 60_000
+    for (let i = 0; i < CANDLE_HISTORY_MINUTES; i++) {
+      const t = currentMinute - i * 60_000
+      const open = close * (1 + gaussian() * VOLATILITY * 4)
+      const high = Math.max(open, close) * (1 + random() * VOLATILITY * 2)
+      const low = Math.min(open, close) * (1 - random() * VOLATILITY * 2)
+      candles.push({ t, o: open, h: high, l: low, c: close, v: random() * asset.dayVolume / 1440 / asset.price, n: 1 + Math.floor(random() * 50) })
+      close = open
+    }
+    candles.reverse()
+    const dayAgo = candles[Math.max(0, candles.length - 1440)]
+
+    markets.set(asset.name, {
+      meta: asset,
+      index,
+      price: asset.price,
+      prevDayPx: dayAgo.o,
+      drift: 0,
+      candles,
+    })
+  })
+}
+
+function priceDecimals(price, szDecimals) {
+  const maxDecimals = Math.max(0, 6 - szDecimals)
+  const integerDigits = price > 0 ? Math.floor(Math.log10(price)) + 1 : 1
+  return Math.min(maxDecimals, Math.max(0, 5 - integerDigits))
+}
+
+// Render a price the way the exchange does: 5 significant figures, (6 - szDecimals) decimals max
+function formatPx(price, szDecimals) {
+  return String(Number(price.toFixed(priceDecimals(price, szDecimals))))
+}
+
+function formatSz(size, szDecimals) {
+  const factor = Math.pow(10, szDecimals)
+  return String(Math.floor(size * factor + 1e-9) / factor)
+}
+
+function isValidPx(px, szDecimals) {
+  const value = Number(px)
+  if (!isFinite(value) || value <= 0) return false
+  if (Number.isInteger(value)) return true
+  const [, decimals = ''] = String(px).split('.')
+  const digits = String(px).replace('.', '').replace(/^0+/, '')
+  return decimals.length <= Math.max(0, 6 - szDecimals) && digits.length <= 5
+}
+
+function isValidSz(sz, szDecimals) {
+  const value = Number(sz)
+  if (!isFinite(value) || value <= 0) return false
+  const [, decimals = ''] = String(sz).split('.')
+  return decimals.length <= szDecimals
+}
+
+function tickSize(market) {
+  return Math.pow(10, -priceDecimals(market.price, market.meta.szDecimals))
+}
+
+// Synthetic book: levels spread ~1bp apart around the mid, roughly $2-10k each
+function buildBook(market) {
+  const { szDecimals } = market.meta
+  const tick = tickSize(market)
+  const step = Math.max(tick, Math.round((market.price * 0.0001) / tick) * tick)
+  const bids = []
+  const asks = []
+  for (let i = 1; i <= BOOK_LEVELS; i++) {
+    const notional = 2000 * (1 + ((i * 7 + Math.floor(market.price / step)) % 5))
+    const size = Number(formatSz(notional / market.price, szDecimals)) || Math.pow(10, -szDecimals)
+    const n = 1 + ((i * 3) % 7)
+    bids.push({ px: Math.floor((market.price - i * step) / tick) * tick, sz: size, n })
+    asks.push({ px: Math.ceil((market.price + i * step) / tick) * tick, sz: size, n })
+  }
+  return { bids, asks }
+}
+
+function serializeLevels(levels, szDecimals) {
+  return levels.map(level => ({ px: formatPx(level.px, szDecimals), sz: formatSz(level.sz, szDecimals), n: level.n }))
+}
+
+function aggregateLevels(levels, market, nSigFigs, mantissa, isBid) {
+  if (!nSigFigs) return levels
+  const integerDigits = market.price > 0 ? Math.floor(Math.log10(market.price)) + 1 : 1
+  const bucket = Math.pow(10, integerDigits - nSigFigs) * (mantissa || 1)
+  const grouped = new Map()
+  for (const level of levels) {
+    const px = (isBid ? Math.floor(level.px / bucket) : Math.ceil(level.px / bucket)) * bucket
+    const existing = grouped.get(px)
+    grouped.set(px, existing
+      ? { px, sz: existing.sz + level.sz, n: existing.n + level.n }
+      : { px, sz: level.sz, n: level.n })
+  }
+  return Array.from(grouped.values())
+}
+
+function l2BookFor(coin, nSigFigs, mantissa) {
+  const market = markets.get(coin)
+  if (!market) return null
+  const book = buildBook(market)
+  const { szDecimals } = market.meta
+  return {
+    coin,
+    time: Date.now(),
+    levels: [
+      serializeLevels(aggregateLevels(book.bids, market, nSigFigs, mantissa, true), szDecimals),
+      serializeLevels(aggregateLevels(book.asks, market, nSigFigs, mantissa, false), szDecimals),
+    ],
+  }
+}
+
+function allMids() {
+  const mids = {}
+  markets.forEach((market, coin) => {
+    mids[coin] = formatPx(market.price, market.meta.szDecimals)
+  })
+  return mids
+}
+
+function candlesFor(coin, interval, startTime, endTime) {
+  const market = markets.get(coin)
+  const intervalMs = CANDLE_INTERVAL_MS[interval]
+  if (!market || !intervalMs) return []
+  const { szDecimals } = market.meta
+
+  const buckets = new Map()
+  for (const candle of market.candles) {
+    const t = Math.floor(candle.t / intervalMs) * intervalMs
+    if (t + intervalMs <= startTime || t > endTime) continue
+    const bucket = buckets.get(t)
+    if (!bucket) {
+      buckets.set(t, { ...candle, t })
+    } else {
+      bucket.h = Math.max(bucket.h, candle.h)
+      bucket.l = Math.min(bucket.l, candle.l)
+      bucket.c = candle.c
+      bucket.v += candle.v
+      bucket.n += candle.n
+    }
+  }
+  return Array.from(buckets.values()).sort((a, b) => a.t - b.t).map(c => ({
+    t: c.t,
+    T: c.t + intervalMs - 1,
+    s: coin,
+    i: interval,
+    o: formatPx(c.o, szDecimals),
+    c: formatPx(c.c, szDecimals),
+    h: formatPx(c.h, szDecimals),
+    l: formatPx(c.l, szDecimals),
+    v: formatSz(c.v, szDecimals),
+    n: c.n,
+  }))
+}
+
+// --- Accounts ---
+
+const accounts = new Map() // user -> { balance, positions, leverage, openOrders, fills, nonces, scheduledCancel }
+const agents = new Map() // agent address -> master user
+let nextOid = 1_000_000
+let nextTid = 1
+
+function getAccount(user) {
+  const key = user.toLowerCase()
+  if (!accounts.has(key)) {
+    accounts.set(key, {
+      user: key,
+      balance: DEFAULT_BALANCE,
+      positions: new Map(), // coin -> { szi, entryPx, cumFunding }
+      leverage: new Map(), // coin -> { type, value }
+      openOrders: new Map(), // oid -> order
+      orderHistory: new Map(), // oid -> { order, status, statusTimestamp }
+      fills: [],
+      scheduledCancel: null,
+    })
+  }
+  return accounts.get(key)
+}
+
+function leverageFor(account, coin) {
+  const market = markets.get(coin)
+  return account.leverage.get(coin) || { type: 'cross', value: Math.min(20, market.meta.maxLeverage) }
+}
+
+function positionSnapshot(account, coin, position) {
+  const market = markets.get(coin)
+  const { szDecimals } = market.meta
+  const leverage = leverageFor(account, coin)
+  const size = Math.abs(position.szi)
+  const positionValue = size * market.price
+  const unrealizedPnl = (market.price - position.entryPx) * position.szi
+  // Margin added with updateIsolatedMargin pushes the liquidation price away
+  const extraMargin = leverage.type === 'isolated' ? position.extraMargin || 0 : 0
+  const marginUsed = positionValue / leverage.value + extraMargin
+  const initialMargin = (size * position.entryPx) / leverage.value
+  const liquidationPx = position.szi > 0
+    ? position.entryPx * (1 - 0.9 / leverage.value) - (0.9 * extraMargin) / size
+    : position.entryPx * (1 + 0.9 / leverage.value) + (0.9 * extraMargin) / size
+
+  return {
+    coin,
+    szi: formatSz(position.szi, szDecimals),
+    leverage: leverage.type === 'cross'
+      ? { type: 'cross', value: leverage.value }
+      : { type: 'isolated', value: leverage.value, rawUsd: (-position.szi * position.entryPx + initialMargin + extraMargin).toFixed(6) },
+    entryPx: formatPx(position.entryPx, szDecimals),
+    positionValue: positionValue.toFixed(4),
+    unrealizedPnl: unrealizedPnl.toFixed(6),
+    returnOnEquity: initialMargin > 0 ? (unrealizedPnl / initialMargin).toFixed(8) : '0.0',
+    liquidationPx: formatPx(Math.max(liquidationPx, 0), szDecimals),
+    marginUsed: marginUsed.toFixed(6),
+    maxLeverage: market.meta.maxLeverage,
+    cumFunding: { allTime: position.cumFunding.toFixed(6), sinceOpen: position.cumFunding.toFixed(6), sinceChange: '0.0' },
+  }
+}
+
+function clearinghouseState(user) {
+  const account = getAccount(user)
+  const assetPositions = []
+  let totalNtlPos = 0
+  let totalMarginUsed = 0
+  let unrealized = 0
+
+  account.positions.forEach((position, coin) => {
+    if (position.szi === 0) return
+    const snapshot = positionSnapshot(account, coin, position)
+    assetPositions.push({ type: 'oneWay', position: snapshot })
+    totalNtlPos += Number(snapshot.positionValue)
+    totalMarginUsed += Number(snapshot.marginUsed)
+    unrealized += Number(snapshot.unrealizedPnl)
+  })
+
+  const accountValue = account.balance + unrealized
+  const summary = {
+    accountValue: accountValue.toFixed(6),
+    totalNtlPos: totalNtlPos.toFixed(6),
+    totalRawUsd: account.balance.toFixed(6),
+    totalMarginUsed: totalMarginUsed.toFixed(6),
+  }
+  return {
+    marginSummary: summary,
+    crossMarginSummary: summary,
+    crossMaintenanceMarginUsed: (totalMarginUsed / 2).toFixed(6),
+    withdrawable: Math.max(0, accountValue - totalMarginUsed).toFixed(6),
+    assetPositions,
+    time: Date.now(),
+  }
+}
+
+function availableMargin(account) {
+  const state = clearinghouseState(account.user)
+  return Number(state.marginSummary.accountValue) - Number(state.marginSummary.totalMarginUsed)
+}
+
+function serializeOrder(order) {
+  const market = markets.get(order.coin)
+  const { szDecimals } = market.meta
+  return {
+    coin: order.coin,
+    side: order.isBuy ? 'B' : 'A',
+    limitPx: formatPx(order.limitPx, szDecimals),
+    sz: formatSz(order.remaining, szDecimals),
+    oid: order.oid,
+    timestamp: order.timestamp,
+    origSz: formatSz(order.size, szDecimals),
+    ...(order.cloid && { cloid: order.cloid }),
+    ...(order.trigger && {
+      isTrigger: true,
+      triggerPx: formatPx(order.trigger.triggerPx, szDecimals),
+      triggerCondition: order.trigger.tpsl === 'tp' ? 'Take Profit' : 'Stop Loss',
+      isPositionTpsl: order.isPositionTpsl,
+      orderType: `${order.trigger.tpsl === 'tp' ? 'Take Profit' : 'Stop'} ${order.trigger.isMarket ? 'Market' : 'Limit'}`,
+    }),
+    reduceOnly: order.reduceOnly,
+    tif: order.tif,
+  }
+}
+
+function setOrderStatus(account, order, status) {
+  const update = { order: serializeOrder(order), status, statusTimestamp: Date.now() }
+  account.orderHistory.set(order.oid, update)
+  if (status !== 'open') account.openOrders.delete(order.oid)
+  pushToUser(account.user, 'orderUpdates', [update])
+}
+
+// Apply one execution to the user's position and balance, and publish it
+function applyFill(account, order, size, px, crossed) {
+  const market = markets.get(order.coin)
+  const { szDecimals } = market.meta
+  const position = account.positions.get(order.coin) || { szi: 0, entryPx: 0, cumFunding: 0, extraMargin: 0 }
+  const startPosition = position.szi
+  const delta = order.isBuy ? size : -size
+  let closedPnl = 0
+  let dir
+
+  if (position.szi === 0 || Math.sign(position.szi) === Math.sign(delta)) {
+    const newSize = Math.abs(position.szi) + size
+    position.entryPx = (Math.abs(position.szi) * position.entryPx + size * px) / newSize
+    dir = order.isBuy ? 'Open Long' : 'Open Short'
+  } else {
+    const closing = Math.min(Math.abs(position.szi), size)
+    closedPnl = (px - position.entryPx) * closing * Math.sign(position.szi)
+    dir = position.szi > 0 ? 'Close Long' : 'Close Short'
+    if (size > Math.abs(position.szi)) {
+      position.entryPx = px // flipped through zero
+      dir = position.szi > 0 ? 'Long > Short' : 'Short > Long'
+    }
+  }
+  position.szi = Number((position.szi + delta).toFixed(szDecimals))
+  if (position.szi === 0) {
+    position.entryPx = 0
+    position.extraMargin = 0
+  }
+  account.positions.set(order.coin, position)
+
+  const fee = size * px * (crossed ? TAKER_FEE : MAKER_FEE)
+  account.balance += closedPnl - fee
+
+  const fill = {
+    coin: order.coin,
+    px: formatPx(px, szDecimals),
+    sz: formatSz(size, szDecimals),
+    side: order.isBuy ? 'B' : 'A',
+    time: Date.now(),
+    startPosition: formatSz(startPosition, szDecimals),
+    dir,
+    closedPnl: closedPnl.toFixed(6),
+    hash: `0x${randomBytes(32).toString('hex')}`,
+    oid: order.oid,
+    crossed,
+    fee: fee.toFixed(6),
+    tid: nextTid++,
+    feeToken: 'USDC',
+    ...(order.cloid && { cloid: order.cloid }),
+  }
+  account.fills.unshift(fill)
+  account.fills.length = Math.min(account.fills.length, 2000)
+
+  pushToUser(account.user, 'userFills', { user: account.user, fills: [fill] })
+  pushToUser(account.user, 'user', { fills: [fill] })
+  broadcastToSubscribers(sub => sub.type === 'trades' && sub.coin === order.coin, 'trades', [{
+    coin: order.coin, side: fill.side, px: fill.px, sz: fill.sz, hash: fill.hash, time: fill.time, tid: fill.tid,
+  }])
+
+  console.log(`💸 ${account.user.slice(0, 8)} ${dir} ${fill.sz} ${order.coin} @ ${fill.px} (pnl ${fill.closedPnl})`)
+
+  // A flat position takes its reduce-only TP/SL orders with it
+  if (position.szi === 0) {
+    account.openOrders.forEach(open => {
+      if (open.coin === order.coin && open.reduceOnly && open.trigger) setOrderStatus(account, open, 'canceled')
+    })
+  }
+  return fill
+}
+
+// Walk the synthetic book up to the limit price; returns { filled, avgPx }
+function matchAgainstBook(order, maxSize) {
+  const market = markets.get(order.coin)
+  const book = buildBook(market)
+  const levels = order.isBuy ? book.asks : book.bids
+  let remaining = maxSize
+  let notional = 0
+  for (const level of levels) {
+    if (remaining <= 0) break
+    const crosses = order.isBuy ? level.px <= order.limitPx : level.px >= order.limitPx
+    if (!crosses) break
+    const take = Math.min(level.sz, remaining)
+    notional += take * level.px
+    remaining -= take
+  }
+  const filled = Number((maxSize - remaining).toFixed(market.meta.szDecimals))
+  return { filled, avgPx: filled > 0 ? notional / (maxSize - remaining) : 0 }
+}
+
+function reduceOnlyCap(account, order) {
+  const position = account.positions.get(order.coin)
+  const szi = position?.szi || 0
+  if (szi === 0 || (order.isBuy && szi > 0) || (!order.isBuy && szi < 0)) return 0
+  return Math.abs(szi)
+}
+
+// Execute against the book; fills are published and the filled size returned
+function execute(account, order, maxSize) {
+  const { filled, avgPx } = matchAgainstBook(order, maxSize)
+  if (filled <= 0) return 0
+  applyFill(account, order, filled, avgPx, true)
+  order.remaining = Number((order.remaining - filled).toFixed(markets.get(order.coin).meta.szDecimals))
+  return filled
+}
+
+// --- Exchange actions ---
+
+function placeOrder(account, wire, grouping) {
+  const coin = UNIVERSE[wire.a]?.name
+  const market = coin && markets.get(coin)
+  if (!market) return { error: `Asset ${wire.a} not found` }
+  const { szDecimals } = market.meta
+  const assetLabel = `asset=${wire.a}`
+
+  if (!isValidPx(wire.p, szDecimals)) return { error: `Order has invalid price. ${assetLabel}` }
+  if (!isValidSz(wire.s, szDecimals) && !(wire.r && Number(wire.s) === 0)) return { error: `Order has invalid size. ${assetLabel}` }
+  if (wire.c && !/^0x[0-9a-fA-F]{32}$/.test(wire.c)) return { error: `Invalid cloid. ${assetLabel}` }
+
+  const oid = nextOid++
+  const order = {
+    oid,
+    coin,
+    isBuy: wire.b,
+    limitPx: Number(wire.p),
+    size: Number(wire.s),
+    remaining: Number(wire.s),
+    reduceOnly: wire.r,
+    cloid: wire.c,
+    timestamp: Date.now(),
+    tif: wire.t.limit?.tif ?? null,
+    trigger: wire.t.trigger ? { ...wire.t.trigger, triggerPx: Number(wire.t.trigger.triggerPx) } : null,
+    isPositionTpsl: grouping === 'positionTpsl',
+  }
+
+  if (order.trigger) {
+    // positionTpsl with size 0 means "the whole position, whatever it is when triggered"
+    account.openOrders.set(oid, order)
+    setOrderStatus(account, order, 'open')
+    return { resting: { oid, ...(order.cloid && { cloid: order.cloid }) } }
+  }
+
+  let maxSize = order.size
+  if (order.reduceOnly) {
+    maxSize = Math.min(maxSize, reduceOnlyCap(account, order))
+    if (maxSize <= 0) return { error: `Reduce only order would increase position. ${assetLabel}` }
+  } else if (order.size * order.limitPx < 10) {
+    return { error: `Order must have minimum value of $10. ${assetLabel}` }
+  } else {
+    const leverage = leverageFor(account, coin)
+    const required = (order.size * market.price) / leverage.value
+    if (required > availableMargin(account)) return { error: `Insufficient margin to place order. ${assetLabel}` }
+  }
+
+  const book = buildBook(market)
+  const bestBid = book.bids[0].px
+  const bestAsk = book.asks[0].px
+  const crosses = order.isBuy ? order.limitPx >= bestAsk : order.limitPx <= bestBid
+
+  if (order.tif === 'Alo' && crosses) {
+    return { error: `Post only order would have immediately matched, bbo was ${formatPx(bestBid, szDecimals)}@${formatPx(bestAsk, szDecimals)}. ${assetLabel}` }
+  }
+
+  const filled = order.tif === 'Alo' ? 0 : execute(account, order, maxSize)
+
+  if (order.tif === 'Ioc') {
+    if (filled <= 0) return { error: `Order could not immediately match against any resting orders. ${assetLabel}` }
+    setOrderStatus(account, order, 'filled')
+    const fills = account.fills.filter(f => f.oid === oid)
+    const avgPx = fills.reduce((sum, f) => sum + Number(f.px) * Number(f.sz), 0) / filled
+    return { filled: { totalSz: formatSz(filled, szDecimals), avgPx: formatPx(avgPx, szDecimals), oid, ...(order.cloid && { cloid: order.cloid }) } }
+  }
+
+  if (order.remaining <= 0) {
+    setOrderStatus(account, order, 'filled')
+    const fills = account.fills.filter(f => f.oid === oid)
+    const avgPx = fills.reduce((sum, f) => sum + Number(f.px) * Number(f.sz), 0) / filled
+    return { filled: { totalSz: formatSz(filled, szDecimals), avgPx: formatPx(avgPx, szDecimals), oid, ...(order.cloid && { cloid: order.cloid }) } }
+  }
+
+  account.openOrders.set(oid, order)
+  setOrderStatus(account, order, 'open')
+  return { resting: { oid, ...(order.cloid && { cloid: order.cloid }) } }
+}
+
+function cancelOrder(account, predicate, assetIndex) {
+  for (const order of account.openOrders.values()) {
+    if (predicate(order)) {
+      setOrderStatus(account, order, 'canceled')
+      return 'success'
+    }
+  }
+  return { error: `Order was never placed, already canceled, or filled. asset=${assetIndex}` }
+}
+
+function handleAction(account, action) {
+  switch (action.type) {
+    case 'order': {
+      const statuses = action.orders.map(wire => placeOrder(account, wire, action.grouping))
+      return { status: 'ok', response: { type: 'order', data: { statuses } } }
+    }
+    case 'cancel': {
+      const statuses = action.cancels.map(c => cancelOrder(account, order => order.oid === c.o, c.a))
+      return { status: 'ok', response: { type: 'cancel', data: { statuses } } }
+    }
+    case 'cancelByCloid': {
+      const statuses = action.cancels.map(c => cancelOrder(account, order => order.cloid === c.cloid, c.asset))
+      return { status: 'ok', response: { type: 'cancel', data: { statuses } } }
+    }
+    case 'updateLeverage': {
+      const market = markets.get(UNIVERSE[action.asset]?.name)
+      if (!market) return { status: 'err', response: `Asset ${action.asset} not found` }
+      if (action.leverage < 1 || action.leverage > market.meta.maxLeverage) {
+        return { status: 'err', response: `Invalid leverage value` }
+      }
+      account.leverage.set(market.meta.name, { type: action.isCross ? 'cross' : 'isolated', value: action.leverage })
+      return { status: 'ok', response: { type: 'default' } }
+    }
+    case 'updateIsolatedMargin': {
+      const market = markets.get(UNIVERSE[action.asset]?.name)
+      if (!market) return { status: 'err', response: `Asset ${action.asset} not found` }
+      const position = account.positions.get(market.meta.name)
+      if (!position || position.szi === 0) return { status: 'err', response: 'No position to update margin for' }
+      if (leverageFor(account, market.meta.name).type !== 'isolated') {
+        return { status: 'err', response: 'Cannot update margin of a cross position' }
+      }
+      const amount = action.ntli / 1e6
+      if (amount > availableMargin(account)) return { status: 'err', response: 'Insufficient margin to add' }
+      if (-amount > (position.extraMargin || 0)) return { status: 'err', response: 'Cannot remove more margin than was added' }
+      position.extraMargin = (position.extraMargin || 0) + amount
+      return { status: 'ok', response: { type: 'default' } }
+    }
+    case 'scheduleCancel': {
+      if (action.time === undefined) {
+        account.scheduledCancel = null
+        return { status: 'ok', response: { type: 'default' } }
+      }
+      if (action.time < Date.now() + 5000) {
+        return { status: 'err', response: 'Scheduled cancel time too early, must be at least 5 seconds from now.' }
+      }
+      account.scheduledCancel = action.time
+      return { status: 'ok', response: { type: 'default' } }
+    }
+    default:
+      return { status: 'err', response: `Unsupported action in mock: ${action.type}` }
+  }
+}
+
+// --- Signature verification ---
+
+const L1_DOMAIN = { name: 'Exchange', version: '1', chainId: 1337, verifyingContract: ethers.ZeroAddress }
+const L1_TYPES = { Agent: [{ name: 'source', type: 'string' }, { name: 'connectionId', type: 'bytes32' }] }
+
+function actionHash(action, nonce, vaultAddress, expiresAfter) {
+  const nonceBytes = new Uint8Array(8)
+  new DataView(nonceBytes.buffer).setBigUint64(0, BigInt(nonce))
+  const chunks = [encodeMsgpack(action), nonceBytes]
+  if (vaultAddress) {
+    chunks.push(Uint8Array.of(1), ethers.getBytes(vaultAddress))
+  } else {
+    chunks.push(new Uint8Array(1))
+  }
+  if (expiresAfter !== undefined && expiresAfter !== null) {
+    const expiresBytes = new Uint8Array(8)
+    new DataView(expiresBytes.buffer).setBigUint64(0, BigInt(expiresAfter))
+    chunks.push(new Uint8Array(1), expiresBytes)
+  }
+  return ethers.keccak256(ethers.concat(chunks))
+}
+
+// Recover the L1 signer; the source byte differs between mainnet ('a') and testnet ('b')
+function recoverL1Signers(body) {
+  const connectionId = actionHash(body.action, body.nonce, body.vaultAddress, body.expiresAfter)
+  const signature = ethers.Signature.from(body.signature)
+  return ['a', 'b'].map(source =>
+    ethers.verifyTypedData(L1_DOMAIN, L1_TYPES, { source, connectionId }, signature).toLowerCase()
+  )
+}
+
+function recoverApproveAgentSigner(body) {
+  const { action, signature } = body
+  const domain = {
+    name: 'HyperliquidSignTransaction',
+    version: '1',
+    chainId: parseInt(action.signatureChainId, 16),
+    verifyingContract: ethers.ZeroAddress,
+  }
+  const types = {
+    'HyperliquidTransaction:ApproveAgent': [
+      { name: 'hyperliquidChain', type: 'string' },
+      { name: 'agentAddress', type: 'address' },
+      { name: 'agentName', type: 'string' },
+      { name: 'nonce', type: 'uint64' },
+    ],
+  }
+  const message = {
+    hyperliquidChain: action.hyperliquidChain,
+    agentAddress: action.agentAddress,
+    agentName: action.agentName ?? '', // Stripped from the wire when empty, but still signed
+    nonce: action.nonce,
+  }
+  return ethers.verifyTypedData(domain, types, message, ethers.Signature.from(signature)).toLowerCase()
+}
+
+// Nonces must be unique per signer and newer than the oldest of the 100 most recent
+const signerNonces = new Map()
+
+function checkNonce(signer, nonce) {
+  const now = Date.now()
+  if (nonce < now - 2 * 24 * 60 * 60 * 1000 || nonce > now + 24 * 60 * 60 * 1000) {
+    return `Invalid nonce: nonce ${nonce} is outside the allowed time window`
+  }
+  const nonces = signerNonces.get(signer) || []
+  if (nonces.includes(nonce)) return `Invalid nonce: duplicate nonce ${nonce}`
+  if (nonces.length >= 100 && nonce <= nonces[0]) return `Invalid nonce: nonce ${nonce} is too low`
+  nonces.push(nonce)
+  nonces.sort((a, b) => a - b)
+  if (nonces.length > 100) nonces.shift()
+  signerNonces.set(signer, nonces)
+  return null
+}
+
+function handleExchange(body) {
+  if (!body?.action || !body.signature || body.nonce === undefined) {
+    return { code: 422, payload: 'Failed to deserialize the JSON body into the target type' }
+  }
+
+  if (body.action.type === 'approveAgent') {
+    const master = recoverApproveAgentSigner(body)
+    const nonceError = checkNonce(master, body.nonce)
+    if (nonceError) return { code: 200, payload: { status: 'err', response: nonceError } }
+    agents.set(body.action.agentAddress.toLowerCase(), master)
+    getAccount(master)
+    console.log(`🔐 Approved agent ${body.action.agentAddress} for ${master}`)
+    return { code: 200, payload: { status: 'ok', response: { type: 'default' } } }
+  }
+
+  const signers = recoverL1Signers(body)
+  const signer = signers.find(address => agents.has(address)) || signers.find(address => accounts.has(address))
+  if (!signer) {
+    return { code: 200, payload: { status: 'err', response: `User or API Wallet ${signers[1]} does not exist.` } }
+  }
+  const nonceError = checkNonce(signer, body.nonce)
+  if (nonceError) return { code: 200, payload: { status: 'err', response: nonceError } }
+
+  const user = agents.get(signer) || signer
+  return { code: 200, payload: handleAction(getAccount(user), body.action) }
+}
+
+// --- Info requests ---
+
+function metaAndAssetCtxs() {
+  const meta = { universe: UNIVERSE.map(({ name, szDecimals, maxLeverage }) => ({ name, szDecimals, maxLeverage })) }
+  const ctxs = UNIVERSE.map(asset => {
+    const market = markets.get(asset.name)
+    const { szDecimals } = asset
+    const book = buildBook(market)
+    return {
+      funding: '0.0000125',
+      openInterest: String(asset.oi),
+      prevDayPx: formatPx(market.prevDayPx, szDecimals),
+      dayNtlVlm: String(asset.dayVolume),
+      premium: '0.0',
+      oraclePx: formatPx(market.price * 0.9999, szDecimals),
+      markPx: formatPx(market.price, szDecimals),
+      midPx: formatPx(market.price, szDecimals),
+      impactPxs: [formatPx(book.bids[1].px, szDecimals), formatPx(book.asks[1].px, szDecimals)],
+      dayBaseVlm: formatSz(asset.dayVolume / market.price, szDecimals),
+    }
+  })
+  return [meta, ctxs]
+}
+
+function handleInfo(body) {
+  switch (body?.type) {
+    case 'meta':
+      return metaAndAssetCtxs()[0]
+    case 'metaAndAssetCtxs':
+      return metaAndAssetCtxs()
+    case 'spotMeta':
+      return { universe: [], tokens: [] }
+    case 'allMids':
+      return allMids()
+    case 'l2Book':
+      return l2BookFor(body.coin, body.nSigFigs, body.mantissa)
+    case 'candleSnapshot':
+      return candlesFor(body.req?.coin, body.req?.interval, body.req?.startTime ?? 0, body.req?.endTime ?? Date.now())
+    case 'clearinghouseState':
+      return clearinghouseState(body.user)
+    case 'openOrders':
+    case 'frontendOpenOrders':
+      return Array.from(getAccount(body.user).openOrders.values()).map(serializeOrder)
+    case 'userFills':
+      return getAccount(body.user).fills
+    case 'userFillsByTime':
+      return getAccount(body.user).fills.filter(f => f.time >= (body.startTime ?? 0) && f.time <= (body.endTime ?? Date.now()))
+    case 'userFunding':
+      return [] // Rounds are far shorter than the hourly funding interval; none is charged here
+    case 'orderStatus': {
+      const account = getAccount(body.user)
+      const entry = typeof body.oid === 'string'
+        ? Array.from(account.orderHistory.values()).find(e => e.order.cloid === body.oid)
+        : account.orderHistory.get(body.oid)
+      return entry ? { status: 'order', order: entry } : { status: 'unknownOid' }
+    }
+    default:
+      return undefined
+  }
+}
+
+// --- WebSocket ---
+
+const clients = new Set() // { socket, subscriptions: Map<key, subscription> }
+let freezeMode = 'none'
+
+function send(client, channel, data) {
+  if (client.socket.readyState === client.socket.OPEN) {
+    client.socket.send(JSON.stringify({ channel, data }))
+  }
+}
+
+function broadcastToSubscribers(matches, channel, data) {
+  if (freezeMode !== 'none') return
+  clients.forEach(client => {
+    for (const subscription of client.subscriptions.values()) {
+      if (matches(subscription)) {
+        send(client, channel, typeof data === 'function' ? data(subscription) : data)
+        break
+      }
+    }
+  })
+}
+
+// userEvents arrive on the 'user' channel; orderUpdates don't echo the user
+function pushToUser(user, channel, data) {
+  const type = channel === 'user' ? 'userEvents' : channel
+  broadcastToSubscribers(sub => sub.type === type && sub.user?.toLowerCase() === user, channel, data)
+}
+
+function currentCandle(coin, interval) {
+  const candles = candlesFor(coin, interval, Date.now() - CANDLE_INTERVAL_MS[interval], Date.now())
+  return candles[candles.length - 1]
+}
+
+function handleSubscribe(client, subscription) {
+  const key = JSON.stringify(subscription)
+  client.subscriptions.set(key, subscription)
+  send(client, 'subscriptionResponse', { method: 'subscribe', subscription })
+
+  // Snapshots the real API sends immediately on subscribe
+  switch (subscription.type) {
+    case 'l2Book':
+      send(client, 'l2Book', l2BookFor(subscription.coin, subscription.nSigFigs, subscription.mantissa))
+      break
+    case 'userFills':
+      send(client, 'userFills', { user: subscription.user.toLowerCase(), fills: getAccount(subscription.user).fills.slice(0, 100), isSnapshot: true })
+      break
+    case 'orderUpdates': {
+      const open = Array.from(getAccount(subscription.user).openOrders.keys())
+      const updates = open.map(oid => getAccount(subscription.user).orderHistory.get(oid)).filter(Boolean)
+      if (updates.length > 0) send(client, 'orderUpdates', updates)
+      break
+    }
+  }
+}
+
+function tick() {
+  const now = Date.now()
+
+  markets.forEach(market => {
+    market.price = Math.max(market.price * (1 + market.drift + gaussian() * VOLATILITY), tickSize(market))
+    const minute = Math.floor(now / 60_000) * 60_000
+    const last = market.candles[market.candles.length - 1]
+    if (last.t === minute) {
+      last.c = market.price
+      last.h = Math.max(last.h, market.price)
+      last.l = Math.min(last.l, market.price)
+      last.n += 1
+    } else {
+      market.candles.push({ t: minute, o: last.c, h: Math.max(last.c, market.price), l: Math.min(last.c, market.price), c: market.price, v: 0, n: 1 })
+      if (market.candles.length > CANDLE_HISTORY_MINUTES) market.candles.shift()
+    }
+  })
+
+  accounts.forEach(account => {
+    // Dead man's switch
+    if (account.scheduledCancel && now >= account.scheduledCancel) {
+      console.log(`⏰ Scheduled cancel fired for ${account.user}`)
+      account.scheduledCancel = null
+      account.openOrders.forEach(order => setOrderStatus(account, order, 'canceled'))
+    }
+
+    account.openOrders.forEach(order => {
+      const market = markets.get(order.coin)
+      if (order.trigger) {
+        const { triggerPx, tpsl, isMarket } = order.trigger
+        // Closing a long (sell) takes profit above and stops below; mirrored for shorts
+        const fired = order.isBuy
+          ? (tpsl === 'tp' ? market.price <= triggerPx : market.price >= triggerPx)
+          : (tpsl === 'tp' ? market.price >= triggerPx : market.price <= triggerPx)
+        if (!fired) return
+
+        setOrderStatus(account, order, 'triggered')
+        const cap = order.reduceOnly ? reduceOnlyCap(account, order) : order.remaining
+        const size = order.size === 0 ? cap : Math.min(order.remaining, cap)
+        if (isMarket) order.limitPx = order.isBuy ? market.price * 1.1 : market.price * 0.9
+        const filled = size > 0 ? execute(account, order, size) : 0
+        setOrderStatus(account, order, filled > 0 ? 'filled' : 'canceled')
+        return
+      }
+
+      // Resting limit orders fill (as maker) once the book trades through them,
+      // at most the top level's size per tick so partial fills happen naturally
+      const book = buildBook(market)
+      const crosses = order.isBuy ? book.asks[0].px <= order.limitPx : book.bids[0].px >= order.limitPx
+      if (!crosses) return
+      let size = Math.min(order.remaining, (order.isBuy ? book.asks[0] : book.bids[0]).sz)
+      if (order.reduceOnly) size = Math.min(size, reduceOnlyCap(account, order))
+      if (size <= 0) {
+        setOrderStatus(account, order, 'canceled')
+        return
+      }
+      applyFill(account, order, size, order.limitPx, false)
+      order.remaining = Number((order.remaining - size).toFixed(market.meta.szDecimals))
+      setOrderStatus(account, order, order.remaining <= 0 ? 'filled' : 'open')
+    })
+  })
+
+  if (freezeMode !== 'none') return
+
+  const mids = allMids()
+  broadcastToSubscribers(sub => sub.type === 'allMids', 'allMids', { mids })
+  broadcastToSubscribers(sub => sub.type === 'l2Book', 'l2Book', sub => l2BookFor(sub.coin, sub.nSigFigs, sub.mantissa))
+  broadcastToSubscribers(sub => sub.type === 'bbo', 'bbo', sub => {
+    const book = l2BookFor(sub.coin)
+    return { coin: sub.coin, time: book.time, bbo: [book.levels[0][0] ?? null, book.levels[1][0] ?? null] }
+  })
+  broadcastToSubscribers(sub => sub.type === 'candle', 'candle', sub => currentCandle(sub.coin, sub.interval))
+  broadcastToSubscribers(sub => sub.type === 'trades', 'trades', sub => {
+    const market = markets.get(sub.coin)
+    const { szDecimals } = market.meta
+    return [{
+      coin: sub.coin,
+      side: random() > 0.5 ? 'B' : 'A',
+      px: formatPx(market.price, szDecimals),
+      sz: formatSz((500 + random() * 5000) / market.price, szDecimals) || String(Math.pow(10, -szDecimals)),
+      hash: `0x${randomBytes(32).toString('hex')}`,
+      time: Date.now(),
+      tid: nextTid++,
+    }]
+  })
+}
+
+// --- HTTP server ---
+
+function readJson(req) {
+  return new Promise((resolve, reject) => {
+    let raw = ''
+    req.on('data', chunk => { raw += chunk })
+    req.on('end', () => {
+      if (!raw) return resolve(undefined)
+      try {
+        resolve(JSON.parse(raw))
+      } catch (error) {
+        reject(error)
+      }
+    })
+    req.on('error', reject)
+  })
+}
+
+function respond(res, code, payload) {
+  res.writeHead(code, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'Content-Type, Accept',
+    'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+  })
+  res.end(JSON.stringify(payload))
+}
+
+function handleControl(path, body) {
+  switch (path) {
+    case '/mock/state':
+      return {
+        prices: allMids(),
+        freezeMode,
+        agents: Object.fromEntries(agents),
+        accounts: Array.from(accounts.values()).map(account => ({
+          ...clearinghouseState(account.user),
+          user: account.user,
+          balance: account.balance,
+          openOrders: Array.from(account.openOrders.values()).map(serializeOrder),
+          scheduledCancel: account.scheduledCancel,
+        })),
+      }
+    case '/mock/price': {
+      const market = markets.get(body?.coin)
+      if (!market || !(Number(body.price) > 0)) return { error: 'Expected { coin, price }' }
+      market.price = Number(body.price)
+      return { ok: true, price: allMids()[body.coin] }
+    }
+    case '/mock/drift': {
+      const market = markets.get(body?.coin)
+      if (!market) return { error: 'Expected { coin, drift }' }
+      market.drift = Number(body.drift) || 0
+      return { ok: true }
+    }
+    case '/mock/freeze':
+      freezeMode = ['none', 'prices', 'all'].includes(body?.mode) ? body.mode : 'none'
+      return { ok: true, freezeMode }
+    case '/mock/drop':
+      clients.forEach(client => client.socket.terminate())
+      return { ok: true }
+    case '/mock/balance':
+      if (!body?.user) return { error: 'Expected { user, balance }' }
+      getAccount(body.user).balance = Number(body.balance) || 0
+      return { ok: true }
+    case '/mock/reset':
+      accounts.clear()
+      agents.clear()
+      signerNonces.clear()
+      resetMarkets()
+      return { ok: true }
+    default:
+      return undefined
+  }
+}
+
+const server = http.createServer(async (req, res) => {
+  if (req.method === 'OPTIONS') return respond(res, 204, null)
+
+  let body
+  try {
+    body = await readJson(req)
+  } catch {
+    return respond(res, 400, 'Invalid JSON')
+  }
+
+  const path = new URL(req.url, `http://localhost:${PORT}`).pathname
+
+  if (path.startsWith('/mock/')) {
+    const result = handleControl(path, body)
+    return result === undefined ? respond(res, 404, 'Unknown control endpoint') : respond(res, 200, result)
+  }
+
+  if (req.method !== 'POST') return respond(res, 405, 'Method not allowed')
+
+  try {
+    if (path === '/info') {
+      const result = handleInfo(body)
+      return result === undefined
+        ? respond(res, 422, 'Failed to deserialize the JSON body into the target type')
+        : respond(res, 200, result)
+    }
+    if (path === '/exchange') {
+      const { code, payload } = handleExchange(body)
+      return respond(res, code, payload)
+    }
+  } catch (error) {
+    console.error('❌ Request failed:', error)
+    return respond(res, 500, { status: 'err', response: String(error?.message || error) })
+  }
+
+  return respond(res, 404, 'Not found')
+})
+
+const wss = new WebSocketServer({ server, path: '/ws' })
+
+wss.on('connection', socket => {
+  const client = { socket, subscriptions: new Map() }
+  clients.add(client)
+
+  socket.on('message', raw => {
+    let message
+    try {
+      message = JSON.parse(String(raw))
+    } catch {
+      return send(client, 'error', 'Invalid JSON')
+    }
+
+    if (message.method === 'ping') {
+      if (freezeMode !== 'all') send(client, 'pong', undefined)
+      return
+    }
+    if (message.method === 'subscribe' && message.subscription) {
+      handleSubscribe(client, message.subscription)
+      return
+    }
+    if (message.method === 'unsubscribe' && message.subscription) {
+      client.subscriptions.delete(JSON.stringify(message.subscription))
+      send(client, 'subscriptionResponse', { method: 'unsubscribe', subscription: message.subscription })
+    }
+  })
+
+  socket.on('close', () => clients.delete(client))
+})
+
+resetMarkets()
+const tickInterval = setInterval(tick, TICK_MS)
+
+server.listen(PORT, () => {
+  console.log(`🧪 Mock Hyperliquid listening on http://localhost:${PORT} (ws://localhost:${PORT}/ws)`)
+})
+
+function shutdown() {
+  clearInterval(tickInterval)
+  wss.close()
+  server.close(() => process.exit(0))
+  clients.forEach(client => client.socket.terminate())
+}
+process.on('SIGINT', shutdown)
+process.on('SIGTERM', shutdown)
@@ -0,0 +1,205 @@
+// src/services/exchangeClient.ts
+import { getNetworkConfig } from '@/lib/network'
+import type { AgentWallet } from './hyperLiquidAgent'
+const { privateKeyToAccount } = await import('viem/accounts');
+const { signL1Action } = await import('@nktkas/hyperliquid/signing')
+
+export interface ExchangeSignature {
+  r: string
+  s: string
+  v: number
+}
+
+export interface OrderWire {
+  a: number // Asset index from meta
+  b: boolean // isBuy
+  p: string // Limit price; for market triggers the worst price accepted once triggered
+  s: string
+  r: boolean // reduceOnly
+  t: { limit: { tif: 'Ioc' | 'Gtc' | 'Alo' } } | { trigger: { isMarket: boolean; triggerPx: string; tpsl: 'tp' | 'sl' } }
+  c?: string // cloid
+}
+
+export type OrderGrouping = 'na' | 'normalTpsl' | 'positionTpsl'
+
+// Action-specific `response` payload of an 'ok' reply
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type ExchangeResponse = any
+
+/**
+ * One taxonomy for every exchange failure, transport or venue side
+ */
+export type ExchangeErrorCode =
+  | 'NO_SIGNER' // No agent key to sign with
+  | 'TIMEOUT'
+  | 'NETWORK'
+  | 'HTTP'
+  | 'INVALID_RESPONSE'
+  | 'NONCE' // Duplicate, too low or outside the exchange's time window
+  | 'AGENT_NOT_APPROVED'
+  | 'NEEDS_DEPOSIT'
+  | 'INSUFFICIENT_MARGIN'
+  | 'NOT_FILLED' // IOC found nothing to match inside its limit
+  | 'REJECTED' // Anything else the exchange refused
+
+export class ExchangeError extends Error {
+  constructor(
+    readonly code: ExchangeErrorCode,
+    message: string,
+    readonly httpStatus?: number
+  ) {
+    super(message)
+    this.name = 'ExchangeError'
+  }
+}
+
+/**
+ * Per-order (or per-cancel) outcome, in the order the wires were sent
+ */
+export type ExchangeStatus =
+  | { type: 'filled'; oid: number; totalSz: string; avgPx: string }
+  | { type: 'resting'; oid: number }
+  | { type: 'waiting' } // Trigger legs: 'waitingForFill' / 'waitingForTrigger', no oid yet
+  | { type: 'success' } // Cancels
+  | { type: 'error'; code: ExchangeErrorCode; error: string }
+
+export function classifyExchangeError(message: string): ExchangeErrorCode {
+  if (/nonce/i.test(message)) return 'NONCE'
+  if (/User or API Wallet .* does not exist/i.test(message)) return 'AGENT_NOT_APPROVED'
+  if (/Must deposit|account does not exist|insufficient funds/i.test(message)) return 'NEEDS_DEPOSIT'
+  if (/Insufficient margin/i.test(message)) return 'INSUFFICIENT_MARGIN'
+  if (/could not immediately match/i.test(message)) return 'NOT_FILLED'
+  return 'REJECTED'
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function parseStatus(raw: any): ExchangeStatus {
+  if (raw === 'success') return { type: 'success' }
+  if (raw === 'waitingForFill' || raw === 'waitingForTrigger') return { type: 'waiting' }
+  if (raw?.filled) return { type: 'filled', oid: raw.filled.oid, totalSz: String(raw.filled.totalSz), avgPx: String(raw.filled.avgPx) }
+  if (raw?.resting) return { type: 'resting', oid: raw.resting.oid }
+  const error = typeof raw?.error === 'string' ? raw.error : `Unrecognized status: ${JSON.stringify(raw)}`
+  return { type: 'error', code: classifyExchangeError(error), error }
+}
+
+/**
+ * Nonces must be unique per signer. Date.now() repeats for actions fired within the same
+ * millisecond, so hand out the clock or one past the last nonce, whichever is later.
+ */
+export class NonceManager {
+  private lastNonce = 0
+
+  next(): number {
+    this.lastNonce = Math.max(Date.now(), this.lastNonce + 1)
+    return this.lastNonce
+  }
+}
+
+export class HyperliquidExchangeClient {
+  static readonly REQUEST_TIMEOUT_MS = 10_000
+
+  constructor(private nonces: NonceManager = new NonceManager()) { }
+
+  /**
+   * Sign with a fresh nonce and POST to /exchange. Resolves with the `response` payload of
+   * an 'ok' reply; every failure throws an ExchangeError.
+   */
+  async submit<T extends { type: string }>(
+    label: string,
+    sign: (nonce: number) => Promise<{ action: T; signature: ExchangeSignature }>,
+    timeoutMs: number = HyperliquidExchangeClient.REQUEST_TIMEOUT_MS
+  ): Promise<ExchangeResponse> {
+    const nonce = this.nonces.next()
+    const { action, signature } = await sign(nonce)
+
+    const controller = new AbortController()
+    const timeoutId = setTimeout(() => controller.abort(), timeoutMs)
+    let response: Response
+    try {
+      response = await fetch(`${getNetworkConfig().apiUrl}/exchange`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Accept': 'application/json'
+        },
+        body: JSON.stringify({ action, signature, nonce }),
+        signal: controller.signal
+      })
+    } catch (error) {
+      if (controller.signal.aborted) {
+        throw new ExchangeError('TIMEOUT', `${label} timed out after ${timeoutMs / 1000}s`)
+      }
+      throw new ExchangeError('NETWORK', `${label} failed: ${error instanceof Error ? error.message : String(error)}`)
+    } finally {
+      clearTimeout(timeoutId)
+    }
+
+    const responseText = await response.text()
+    if (!response.ok) {
+      console.error(`❌ ${label} HTTP error:`, response.status, responseText)
+      throw new ExchangeError('HTTP', `HTTP ${response.status}: ${responseText || response.statusText}`, response.status)
+    }
+
+    let result: ExchangeResponse
+    try {
+      result = JSON.parse(responseText)
+    } catch {
+      console.error(`❌ ${label} returned invalid JSON:`, responseText)
+      throw new ExchangeError('INVALID_RESPONSE', 'Invalid JSON response from exchange')
+    }
+    console.log(`📥 ${label} response:`, JSON.stringify(result))
+
+    if (result?.status !== 'ok') {
+      const message = typeof result?.response === 'string'
+        ? result.response
+        : result?.error?.message || result?.message || JSON.stringify(result)
+      throw new ExchangeError(classifyExchangeError(message), message)
+    }
+    return result.response
+  }
+
+  /**
+   * An L1 action signed by the agent key
+   */
+  private async submitL1<T extends { type: string }>(label: string, wallet: AgentWallet | null, action: T): Promise<ExchangeResponse> {
+    if (!wallet?.privateKey) {
+      throw new ExchangeError('NO_SIGNER', `Agent wallet not available for ${label.toLowerCase()}`)
+    }
+    const account = privateKeyToAccount(wallet.privateKey as `0x${string}`)
+    return this.submit(label, async nonce => ({
+      action,
+      signature: await signL1Action({ wallet: account, action, nonce, isTestnet: getNetworkConfig().isTestnet })
+    }))
+  }
+
+  private async submitWithStatuses<T extends { type: string }>(label: string, wallet: AgentWallet | null, action: T, expected: number): Promise<ExchangeStatus[]> {
+    const response = await this.submitL1(label, wallet, action)
+    const statuses = response?.data?.statuses
+    if (!Array.isArray(statuses) || statuses.length < expected) {
+      throw new ExchangeError('INVALID_RESPONSE', `${label} response is missing statuses`)
+    }
+    return statuses.map(parseStatus)
+  }
+
+  async order(wallet: AgentWallet | null, orders: OrderWire[], grouping: OrderGrouping = 'na'): Promise<ExchangeStatus[]> {
+    return this.submitWithStatuses('Order', wallet, { type: 'order', orders, grouping }, orders.length)
+  }
+
+  async cancel(wallet: AgentWallet | null, cancels: { a: number; o: number }[]): Promise<ExchangeStatus[]> {
+    return this.submitWithStatuses('Cancel', wallet, { type: 'cancel', cancels }, cancels.length)
+  }
+
+  async cancelByCloid(wallet: AgentWallet | null, cancels: { asset: number; cloid: string }[]): Promise<ExchangeStatus[]> {
+    return this.submitWithStatuses('Cancel by cloid', wallet, { type: 'cancelByCloid', cancels }, cancels.length)
+  }
+
+  async updateLeverage(wallet: AgentWallet | null, asset: number, isCross: boolean, leverage: number): Promise<void> {
+    await this.submitL1('Leverage update', wallet, { type: 'updateLeverage', asset, isCross, leverage })
+  }
+
+  async updateIsolatedMargin(wallet: AgentWallet | null, asset: number, isBuy: boolean, ntli: number): Promise<void> {
+    await this.submitL1('Isolated margin update', wallet, { type: 'updateIsolatedMargin', asset, isBuy, ntli })
+  }
+}
+
+export const exchangeClient = new HyperliquidExchangeClient()
@@ -2,6 +2,9 @@
 // src/services/hyperliquidAgent.ts
 import { ethers } from 'ethers'
 import * as hl from '@nktkas/hyperliquid'
+import { getNetworkConfig } from '@/lib/network'
+import { decryptSecret, encryptSecret, isEncryptedSecret } from '@/lib/agentKeyVault'
+import { exchangeClient, ExchangeError } from './exchangeClient'
 
 interface HyperliquidSignature {
   r: string
@@ -17,21 +20,28 @@ export interface AgentWallet {
   exchangeClient?: ExchangeClient
 }
 
+// What localStorage holds per master address and network. The private key is only ever
+// stored encrypted; `privateKey` is the plaintext field of entries written before that.
+interface StoredAgent {
+  address: string
+  isApproved: boolean
+  masterAddress: string
+  network: string
+  createdAt: number
+  encryptedKey?: unknown
+  privateKey?: string
+}
+
+const AGENT_STORAGE_PREFIX = 'hyperliquid_agent_'
+
 export class HyperliquidAgentService {
-  private useTestnet: boolean
   private agentWallet: AgentWallet | null = null
+  private migration: Promise<void> | null = null
   private transport: hl.HttpTransport
   private infoClient: hl.InfoClient
-  private baseUrl: string
 
-  constructor(useTestnet: boolean = true) {
-    this.useTestnet = useTestnet
-    this.baseUrl = useTestnet
-      ? 'https://api.hyperliquid-testnet.xyz'
-      : 'https://api.hyperliquid.xyz'
-
-    // Create transport with the correct base URL
-    this.transport = new hl.HttpTransport()
+  constructor() {
+    this.transport = this.createTransport()
 
     // Initialize info client with the transport
     this.infoClient = new hl.InfoClient({
@@ -39,6 +49,18 @@ export class HyperliquidAgentService {
     })
   }
 
+  private createTransport(): hl.HttpTransport {
+    const { isTestnet, apiUrl } = getNetworkConfig()
+    // Create transport with the correct base URL
+    return new hl.HttpTransport({
+      isTestnet,
+      server: {
+        mainnet: { api: apiUrl },
+        testnet: { api: apiUrl }
+      }
+    })
+  }
+
   /**
    * Generate a new agent wallet
    */
@@ -81,6 +103,14 @@ export class HyperliquidAgentService {
     return this.agentWallet
   }
 
+  /**
+   * The agent in memory, or null. Unlike getAgentWallet it never generates one: a fresh agent
+   * isn't approved, so closes and cancels signed by it would be rejected.
+   */
+  getLoadedAgentWallet(): AgentWallet | null {
+    return this.agentWallet
+  }
+
   /**
    * Approve agent using the master account's signature - SDK Compatible Version
    */
@@ -93,26 +123,12 @@ export class HyperliquidAgentService {
       console.log('🔐 Approving agent:', {
         agentAddress: agentWallet.address,
         agentName,
-        network: this.useTestnet ? 'testnet' : 'mainnet'
+        network: getNetworkConfig().network
       })
 
       // ✅ Import the signing function from the SDK
       const { signUserSignedAction } = await import('@nktkas/hyperliquid/signing')
 
-      const nonce = Date.now()
-
-      // ✅ Create action exactly like the SDK does
-      const action = {
-        agentAddress: agentWallet.address,
-        agentName: agentName || "", // SDK uses empty string as default
-        type: 'approveAgent',
-        hyperliquidChain: this.useTestnet ? 'Testnet' : 'Mainnet',
-        signatureChainId: this.useTestnet ? '0x66eee' : '0xa4b1',
-        nonce
-      }
-
-      console.log('🔐 Creating approval action:', action)
-
       // ✅ Create a wallet adapter for the SDK
       const walletAdapter = {
         signTypedData: async (params: any) => {
@@ -125,80 +141,53 @@ export class HyperliquidAgentService {
         }
       }
 
-      // ✅ Use the SDK's signing function with the exact types
-      const signature = await signUserSignedAction({
-        wallet: walletAdapter,
-        action,
-        types: {
-          'HyperliquidTransaction:ApproveAgent': [
-            { name: 'hyperliquidChain', type: 'string' },
-            { name: 'agentAddress', type: 'address' },
-            { name: 'agentName', type: 'string' },
-            { name: 'nonce', type: 'uint64' }
-          ]
-        },
-        chainId: parseInt(action.signatureChainId, 16)
-      })
-
-      console.log('✅ Master account signed approval with SDK')
-
-      // ✅ Clean up empty agentName like the SDK does
-      if (action.agentName === "") {
-        delete (action as any).agentName
-      }
+      console.log('📤 Sending approval request to:', `${getNetworkConfig().apiUrl}/exchange`)
+
+      await exchangeClient.submit('Agent approval', async nonce => {
+        // ✅ Create action exactly like the SDK does
+        const action = {
+          agentAddress: agentWallet.address,
+          agentName: agentName || "", // SDK uses empty string as default
+          type: 'approveAgent',
+          hyperliquidChain: getNetworkConfig().hyperliquidChain,
+          signatureChainId: getNetworkConfig().signatureChainId,
+          nonce
+        }
 
-      // ✅ Send request with exact SDK format
-      const requestBody = {
-        action,
-        signature,
-        nonce: action.nonce
-      }
+        console.log('🔐 Creating approval action:', action)
+
+        // ✅ Use the SDK's signing function with the exact types
+        const signature = await signUserSignedAction({
+          wallet: walletAdapter,
+          action,
+          types: {
+            'HyperliquidTransaction:ApproveAgent': [
+              { name: 'hyperliquidChain', type: 'string' },
+              { name: 'agentAddress', type: 'address' },
+              { name: 'agentName', type: 'string' },
+              { name: 'nonce', type: 'uint64' }
+            ]
+          },
+          chainId: parseInt(action.signatureChainId, 16)
+        })
 
-      console.log('📤 Sending approval request to:', `${this.baseUrl}/exchange`)
+        console.log('✅ Master account signed approval with SDK')
 
-      const response = await fetch(`${this.baseUrl}/exchange`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify(requestBody)
+        // ✅ Clean up empty agentName like the SDK does
+        if (action.agentName === "") {
+          delete (action as any).agentName
+        }
+        return { action, signature }
       })
 
-      const responseText = await response.text()
-      console.log('📥 Raw response:', response.status, responseText)
-
-      if (!response.ok) {
-        console.error('❌ Approval request failed:', response.status, responseText)
-        throw new Error(`HTTP ${response.status}: ${responseText}`)
-      }
-
-      let result: any
-      try {
-        result = JSON.parse(responseText)
-      } catch (e) {
-        console.log(e)
-        console.error('Failed to parse response as JSON:', responseText)
-        throw new Error('Invalid JSON response from exchange')
-      }
-
-      console.log('✅ Agent approval response:', result)
-
-      if (result.status === 'ok') {
-        agentWallet.isApproved = true
-        console.log('✅ Agent approved successfully!')
-        return { success: true }
-      } else {
-        const errorMessage = result.error?.message || result.message || JSON.stringify(result)
-        console.error('❌ Agent approval failed:', errorMessage)
-        throw new Error(errorMessage)
-      }
+      agentWallet.isApproved = true
+      console.log('✅ Agent approved successfully!')
+      return { success: true }
     } catch (error: any) {
       console.error('❌ Error approving agent:', error)
 
       // Check for specific deposit requirement error
-      if (error.message?.includes('Must deposit before performing actions') ||
-        error.message?.includes('insufficient funds') ||
-        error.message?.includes('account does not exist')) {
+      if (error instanceof ExchangeError && error.code === 'NEEDS_DEPOSIT') {
         return {
           success: false,
           needsDeposit: true,
@@ -407,52 +396,73 @@ export class HyperliquidAgentService {
   }
 
   /**
-   * Set network
+   * Rebuild the transport for the active network and forget the in-memory agent.
+   * Agents are stored per network, so callers reload with `loadAgent` afterwards.
    */
-  setNetwork(useTestnet: boolean): void {
-    this.useTestnet = useTestnet
+  resetForNetworkChange(): void {
+    this.transport = this.createTransport()
+    this.infoClient = new hl.InfoClient({
+      transport: this.transport
+    })
+    this.agentWallet = null
+  }
+
+  private storageKey(masterAddress: string): string {
+    return `${AGENT_STORAGE_PREFIX}${masterAddress.toLowerCase()}_${getNetworkConfig().network}`
   }
 
   /**
-   * Save agent to localStorage (including unapproved agents)
+   * Save agent to localStorage (including unapproved agents), its key encrypted. Without
+   * encrypted storage nothing is saved: the agent lasts for the session and is re-approved next time.
    */
-  saveAgent(masterAddress: string): void {
-    if (this.agentWallet) {
-      const agentData = {
-        ...this.agentWallet,
-        masterAddress: masterAddress.toLowerCase(),
-        network: this.useTestnet ? 'testnet' : 'mainnet',
-        createdAt: Date.now()
-      }
-
-      const storageKey = `hyperliquid_agent_${masterAddress.toLowerCase()}_${this.useTestnet ? 'testnet' : 'mainnet'}`
+  async saveAgent(masterAddress: string): Promise<void> {
+    if (!this.agentWallet) return
+    const storageKey = this.storageKey(masterAddress)
 
-      try {
-        localStorage.setItem(storageKey, JSON.stringify(agentData))
-        console.log('✅ Agent saved to localStorage:', storageKey, 'Approved:', this.agentWallet.isApproved)
-      } catch (error) {
-        console.error('❌ Failed to save agent to localStorage:', error)
+    try {
+      const agentData: StoredAgent = {
+        address: this.agentWallet.address,
+        isApproved: this.agentWallet.isApproved,
+        masterAddress: masterAddress.toLowerCase(),
+        network: getNetworkConfig().network,
+        createdAt: Date.now(),
+        encryptedKey: await encryptSecret(this.agentWallet.privateKey)
       }
+      localStorage.setItem(storageKey, JSON.stringify(agentData))
+      console.log('✅ Agent saved to localStorage:', storageKey, 'Approved:', this.agentWallet.isApproved)
+    } catch (error) {
+      console.error('❌ Failed to save agent to localStorage:', error)
     }
   }
 
-  loadAgent(masterAddress: string): AgentWallet | null {
-    const storageKey = `hyperliquid_agent_${masterAddress.toLowerCase()}_${this.useTestnet ? 'testnet' : 'mainnet'}`
+  async loadAgent(masterAddress: string): Promise<AgentWallet | null> {
+    await this.migratePlaintextAgents()
+    const storageKey = this.storageKey(masterAddress)
 
     try {
       const saved = localStorage.getItem(storageKey)
       if (saved) {
-        const agentData = JSON.parse(saved)
+        const agentData: StoredAgent = JSON.parse(saved)
 
         // Validate the saved data
-        if (agentData.address && agentData.privateKey && agentData.network === (this.useTestnet ? 'testnet' : 'mainnet')) {
+        if (agentData.address && isEncryptedSecret(agentData.encryptedKey) && agentData.network === (getNetworkConfig().network)) {
+          let privateKey: string
+          try {
+            privateKey = await decryptSecret(agentData.encryptedKey)
+          } catch (error) {
+            // Encrypted under a vault key this browser no longer has; a new agent replaces it
+            console.warn('⚠️ Saved agent key can no longer be decrypted, discarding it:', error)
+            localStorage.removeItem(storageKey)
+            return null
+          }
+
           this.agentWallet = {
             address: agentData.address,
-            privateKey: agentData.privateKey,
+            privateKey,
             isApproved: agentData.isApproved || false,
             // ✅ Initialize exchangeClient when loading from localStorage
             exchangeClient: new hl.ExchangeClient({
-              wallet: new ethers.Wallet(agentData.privateKey),
+              wallet: new ethers.Wallet(privateKey),
               transport: this.transport
             })
           }
@@ -468,6 +478,48 @@ export class HyperliquidAgentService {
     return null
   }
 
+  /**
+   * Re-encrypt agents saved with a plaintext key, for every address and network, and drop the
+   * plaintext. Runs once per page load; entries it can't encrypt are left for the next load.
+   */
+  private migratePlaintextAgents(): Promise<void> {
+    this.migration ??= (async () => {
+      if (typeof window === 'undefined') return
+      const storageKeys = Array.from({ length: localStorage.length }, (_, index) => localStorage.key(index))
+        .filter((key): key is string => !!key?.startsWith(AGENT_STORAGE_PREFIX))
+
+      for (const storageKey of storageKeys) {
+        try {
+          const agentData: StoredAgent = JSON.parse(localStorage.getItem(storageKey) || '{}')
+          if (!agentData.privateKey) continue
+
+          // Rebuilt field by field: old entries also carried a serialized exchangeClient
+          const migrated: StoredAgent = {
+            address: agentData.address,
+            isApproved: agentData.isApproved,
+            masterAddress: agentData.masterAddress,
+            network: agentData.network,
+            createdAt: agentData.createdAt,
+            encryptedKey: await encryptSecret(agentData.privateKey)
+          }
+          localStorage.setItem(storageKey, JSON.stringify(migrated))
+          console.log('🔐 Encrypted plaintext agent key:', storageKey)
+        } catch (error) {
+          console.error('❌ Failed to encrypt plaintext agent key:', storageKey, error)
+        }
+      }
+    })()
+    return this.migration
+  }
+
+  /**
+   * Decrypted key of the saved agent, for running scripts/keeper.mjs with the same agent
+   */
+  async exportAgentKey(masterAddress: string): Promise<string | null> {
+    const agent = await this.loadAgent(masterAddress)
+    return agent?.privateKey ?? null
+  }
+
   /**
    * Clear agent data (for testing or reset)
    */
@@ -475,7 +527,7 @@ export class HyperliquidAgentService {
     this.agentWallet = null
 
     if (masterAddress) {
-      const storageKey = `hyperliquid_agent_${masterAddress.toLowerCase()}_${this.useTestnet ? 'testnet' : 'mainnet'}`
+      const storageKey = this.storageKey(masterAddress)
       try {
         localStorage.removeItem(storageKey)
         console.log('✅ Agent cleared from localStorage')
@@ -498,10 +550,10 @@ export class HyperliquidAgentService {
       exists: !!this.agentWallet,
       approved: this.agentWallet?.isApproved || false,
       address: this.agentWallet?.address || null,
-      network: this.useTestnet ? 'testnet' : 'mainnet'
+      network: getNetworkConfig().network
     }
   }
 }
 
 // Global agent service instance
-export const hyperliquidAgent = new HyperliquidAgentService(process.env.NEXT_PUBLIC_IS_TESTNET === 'true') // Default to testnet
\ No newline at end of file
+export const hyperliquidAgent = new HyperliquidAgentService()
\ No newline at end of file
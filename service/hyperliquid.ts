@@ -1,16 +1,36 @@
 // src/service/hyperliquid.ts
+import { getNetworkConfig } from '@/lib/network'
+
 export interface HyperliquidAsset {
   name: string
   szDecimals: number
   maxLeverage?: number
   index?: number
   tokenId?: string
+  isDelisted?: boolean
+  ctx?: PerpAssetCtx // Live context, present when loaded via metaAndAssetCtxs
 }
 
 export interface AssetMetadata {
   universe: HyperliquidAsset[]
 }
 
+// Per-asset market context, same order as meta.universe
+export interface PerpAssetCtx {
+  funding: string       // current hourly funding rate
+  openInterest: string  // in base units
+  prevDayPx: string
+  dayNtlVlm: string     // 24h notional volume (USD)
+  premium: string | null
+  oraclePx: string
+  markPx: string
+  midPx: string | null
+  impactPxs: string[] | null
+  dayBaseVlm: string
+}
+
+export type MetaAndAssetCtxs = [AssetMetadata, PerpAssetCtx[]]
+
 export interface PriceFeed {
   [symbol: string]: string
 }
@@ -31,48 +51,263 @@ export interface OrderBook {
 export interface L2BookRequest {
   type: 'l2Book'
   coin: string
-  nSigFigs?: number | null
-  mantissa?: number
+  nSigFigs?: number | null // 2-5 aggregates levels to that many significant figures; null = full precision
+  mantissa?: number // 1, 2 or 5; only valid with nSigFigs = 5
+}
+
+export type L2BookAggregation = Pick<L2BookRequest, 'nSigFigs' | 'mantissa'>
+
+// The socket only carries full-precision books: l2Book messages don't echo nSigFigs/mantissa,
+// so an aggregated channel on the same coin would be indistinguishable from this one
+export interface L2BookSubscription {
+  type: 'l2Book'
+  coin: string
+}
+
+export interface AllMidsSubscription {
+  type: 'allMids'
+}
+
+// Trades (tape) Interfaces
+export interface Trade {
+  coin: string
+  side: 'A' | 'B' // A = aggressor sold (ask side), B = aggressor bought (bid side)
+  px: string
+  sz: string
+  hash: string
+  time: number
+  tid: number
+}
+
+export interface TradesSubscription {
+  type: 'trades'
+  coin: string
+}
+
+// Best bid/offer Interfaces
+export interface Bbo {
+  coin: string
+  time: number
+  bbo: [OrderBookLevel | null, OrderBookLevel | null] // [bid, ask]
+}
+
+export interface BboSubscription {
+  type: 'bbo'
+  coin: string
+}
+
+// Candle Interfaces
+export type CandleInterval = '1m' | '3m' | '5m' | '15m' | '30m' | '1h' | '2h' | '4h' | '8h' | '12h' | '1d' | '3d' | '1w' | '1M'
+
+export const CANDLE_INTERVAL_MS: Record<CandleInterval, number> = {
+  '1m': 60_000,
+  '3m': 3 * 60_000,
+  '5m': 5 * 60_000,
+  '15m': 15 * 60_000,
+  '30m': 30 * 60_000,
+  '1h': 60 * 60_000,
+  '2h': 2 * 60 * 60_000,
+  '4h': 4 * 60 * 60_000,
+  '8h': 8 * 60 * 60_000,
+  '12h': 12 * 60 * 60_000,
+  '1d': 24 * 60 * 60_000,
+  '3d': 3 * 24 * 60 * 60_000,
+  '1w': 7 * 24 * 60 * 60_000,
+  '1M': 30 * 24 * 60 * 60_000,
+}
+
+export interface Candle {
+  t: number  // open time
+  T: number  // close time
+  s: string  // coin
+  i: CandleInterval
+  o: string
+  c: string
+  h: string
+  l: string
+  v: string  // volume in base units
+  n: number  // number of trades
+}
+
+export interface CandleSubscription {
+  type: 'candle'
+  coin: string
+  interval: CandleInterval
+}
+
+// Authenticated-user Interfaces (fills, order status, account events)
+export interface UserFill {
+  coin: string
+  px: string
+  sz: string
+  side: 'A' | 'B'
+  time: number
+  startPosition: string
+  dir: string // e.g. 'Open Long', 'Close Short'
+  closedPnl: string
+  hash: string
+  oid: number
+  crossed: boolean
+  fee: string
+  tid: number
+  feeToken: string
+  cloid?: string
+}
+
+export interface UserFillsData {
+  user: string
+  fills: UserFill[]
+  isSnapshot?: boolean // First message after subscribing replays recent history
+}
+
+export interface UserFillsSubscription {
+  type: 'userFills'
+  user: string
+}
+
+export type OrderStatus =
+  | 'open'
+  | 'filled'
+  | 'canceled'
+  | 'triggered'
+  | 'rejected'
+  | 'marginCanceled'
+
+export interface OrderUpdate {
+  order: {
+    coin: string
+    side: 'A' | 'B'
+    limitPx: string
+    sz: string // remaining size
+    oid: number
+    timestamp: number
+    origSz: string
+    cloid?: string
+  }
+  status: OrderStatus
+  statusTimestamp: number
+}
+
+// Resting order as returned by the `openOrders` info request
+export type OpenOrder = OrderUpdate['order']
+
+export interface OrderUpdatesSubscription {
+  type: 'orderUpdates'
+  user: string
+}
+
+export interface UserLiquidation {
+  lid: number
+  liquidator: string
+  liquidated_user: string
+  liquidated_ntl_pos: string
+  liquidated_account_value: string
+}
+
+export type UserEvent =
+  | { fills: UserFill[] }
+  | { funding: { time: number; coin: string; usdc: string; szi: string; fundingRate: string } }
+  | { liquidation: UserLiquidation }
+  | { nonUserCancel: Array<{ coin: string; oid: number }> }
+
+export interface UserEventsSubscription {
+  type: 'userEvents'
+  user: string
+}
+
+// Every WebSocket channel the service knows how to subscribe to and route
+export type SubscriptionDescriptor =
+  | AllMidsSubscription
+  | L2BookSubscription
+  | TradesSubscription
+  | BboSubscription
+  | CandleSubscription
+  | UserFillsSubscription
+  | OrderUpdatesSubscription
+  | UserEventsSubscription
+
+// Payload handed to listeners, keyed by subscription type
+export interface SubscriptionPayloads {
+  allMids: PriceFeed
+  l2Book: OrderBook
+  trades: Trade[]
+  bbo: Bbo
+  candle: Candle
+  userFills: UserFillsData
+  orderUpdates: OrderUpdate[]
+  userEvents: UserEvent
+}
+
+// Channel name the server uses when pushing data for a subscription type
+const CHANNEL_FOR_TYPE: Record<SubscriptionDescriptor['type'], string> = {
+  allMids: 'allMids',
+  l2Book: 'l2Book',
+  trades: 'trades',
+  bbo: 'bbo',
+  candle: 'candle',
+  userFills: 'userFills',
+  orderUpdates: 'orderUpdates',
+  userEvents: 'user',
+}
+
+export type SubscriptionListener<D extends SubscriptionDescriptor> = (payload: SubscriptionPayloads[D['type']]) => void
+
+export type ConnectionState = 'DISCONNECTED' | 'CONNECTING' | 'CONNECTED' | 'RECONNECTING'
+
+export interface ConnectionStatus {
+  state: ConnectionState
+  reconnectAttempts: number
+  nextRetryAt: number | null // Epoch ms of the scheduled retry while RECONNECTING
+}
+
+interface SubscriptionEntry {
+  descriptor: SubscriptionDescriptor
+  lastMessageAt: number | null
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  listeners: Set<(payload: any) => void>
+}
+
+/**
+ * Stable registry key for a subscription: type + coin + params.
+ * Null/undefined params are dropped so `{ nSigFigs: null }` and `{}` share a channel.
+ */
+export function subscriptionKey(descriptor: SubscriptionDescriptor): string {
+  const entries = Object.entries(descriptor)
+    .filter(([, value]) => value !== undefined && value !== null)
+    .sort(([a], [b]) => a.localeCompare(b))
+  return JSON.stringify(entries)
 }
 
 
 export class HyperliquidService {
-  private static readonly MAINNET_API = 'https://api.hyperliquid.xyz'
-  private static readonly TESTNET_API = 'https://api.hyperliquid-testnet.xyz'
-  private static readonly MAINNET_WS = 'wss://api.hyperliquid.xyz/ws'
-  private static readonly TESTNET_WS = 'wss://api.hyperliquid-testnet.xyz/ws'
+  private static readonly HEARTBEAT_INTERVAL_MS = 15000
+  private static readonly HEARTBEAT_TIMEOUT_MS = 35000 // No traffic at all (pongs included) for this long = dead socket
+  private static readonly RECONNECT_BASE_DELAY_MS = 1000
+  private static readonly RECONNECT_MAX_DELAY_MS = 30000
 
-  public useTestnet: boolean
   private ws: WebSocket | null = null
-  private connectionState: 'DISCONNECTED' | 'CONNECTING' | 'CONNECTED' | 'RECONNECTING' = 'DISCONNECTED';
+  private connectionState: ConnectionState = 'DISCONNECTED';
   private connectionPromise: Promise<void> | null = null; // To chain connection attempts
 
   private reconnectAttempts = 0
-  private maxReconnectAttempts = 5
   private reconnectTimeoutId: NodeJS.Timeout | null = null;
+  private nextRetryAt: number | null = null
+  private heartbeatIntervalId: NodeJS.Timeout | null = null
+  private lastMessageAt: number | null = null
 
-  // Store callbacks separately
-  private priceUpdateCallback: ((prices: PriceFeed) => void) | null = null;
-  private orderBookUpdateCallback: ((orderBook: OrderBook) => void) | null = null;
-  private currentSubscribedOrderBookCoin: string | null = null;
-
+  private status: ConnectionStatus = { state: 'DISCONNECTED', reconnectAttempts: 0, nextRetryAt: null }
+  private statusListeners: Set<(status: ConnectionStatus) => void> = new Set()
 
-  // Track desired subscriptions
-  private activeSubscriptions = {
-    allMids: false,
-    l2BookCoin: null as string | null,
-  };
-
-  constructor(useTestnet = true) {
-    this.useTestnet = useTestnet
-  }
+  // Reference-counted subscriptions keyed by subscriptionKey(descriptor).
+  // `unsubscribe` is only sent once the last listener of a channel leaves.
+  private subscriptions: Map<string, SubscriptionEntry> = new Map()
 
   public getApiUrl(): string {
-    return this.useTestnet ? HyperliquidService.TESTNET_API : HyperliquidService.MAINNET_API
+    return getNetworkConfig().apiUrl
   }
 
   private getWsUrl(): string {
-    return this.useTestnet ? HyperliquidService.TESTNET_WS : HyperliquidService.MAINNET_WS
+    return getNetworkConfig().wsUrl
   }
 
   /**
@@ -99,6 +334,59 @@ export class HyperliquidService {
     }
   }
 
+  /**
+   * Fetch perpetuals metadata together with live market context (funding, OI, 24h stats)
+   */
+  async fetchMetaAndAssetCtxs(): Promise<MetaAndAssetCtxs> {
+    try {
+      const response = await fetch(`${this.getApiUrl()}/info`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ type: 'metaAndAssetCtxs' })
+      })
+
+      if (!response.ok) {
+        throw new Error(`Failed to fetch asset contexts: ${response.status}`)
+      }
+
+      return await response.json()
+    } catch (error) {
+      console.error('Error fetching asset contexts:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Fetch historical candles for a coin (the exchange caps this at the most recent 5000)
+   */
+  async fetchCandleSnapshot(
+    coin: string,
+    interval: CandleInterval,
+    startTime: number,
+    endTime: number = Date.now()
+  ): Promise<Candle[]> {
+    try {
+      const response = await fetch(`${this.getApiUrl()}/info`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ type: 'candleSnapshot', req: { coin, interval, startTime, endTime } })
+      })
+
+      if (!response.ok) {
+        throw new Error(`Failed to fetch candles: ${response.status}`)
+      }
+
+      return await response.json()
+    } catch (error) {
+      console.error(`Error fetching ${interval} candles for ${coin}:`, error)
+      throw error
+    }
+  }
+
   /**
    * Fetch spot assets metadata
    */
@@ -158,6 +446,30 @@ export class HyperliquidService {
       throw error
     }
   }
+  private _setConnectionState(state: ConnectionState): void {
+    this.connectionState = state;
+    const next: ConnectionStatus = {
+      state,
+      reconnectAttempts: this.reconnectAttempts,
+      nextRetryAt: this.nextRetryAt,
+    };
+    if (
+      next.state === this.status.state &&
+      next.reconnectAttempts === this.status.reconnectAttempts &&
+      next.nextRetryAt === this.status.nextRetryAt
+    ) {
+      return;
+    }
+    this.status = next;
+    this.statusListeners.forEach(listener => {
+      try {
+        listener(next);
+      } catch (error) {
+        console.error('[HyperliquidService] Connection status listener threw:', error);
+      }
+    });
+  }
+
   private _connect(): Promise<void> {
     if (this.connectionState === 'CONNECTED' && this.ws && this.ws.readyState === WebSocket.OPEN) {
       return Promise.resolve();
@@ -167,191 +479,352 @@ export class HyperliquidService {
       return this.connectionPromise;
     }
 
-    this.connectionState = 'CONNECTING';
-    // Clear any previous ws instance and its handlers before creating a new one
-    if (this.ws) {
-      this.ws.onopen = null;
-      this.ws.onmessage = null;
-      this.ws.onerror = null;
-      this.ws.onclose = null;
-      if (this.ws.readyState !== WebSocket.CLOSED) {
-        this.ws.close();
-      }
-      this.ws = null;
-    }
+    this._detachSocket();
     if (this.reconnectTimeoutId) {
       clearTimeout(this.reconnectTimeoutId);
       this.reconnectTimeoutId = null;
     }
+    this.nextRetryAt = null;
+    this._setConnectionState('CONNECTING');
 
     console.log('🔌 [HyperliquidService] Attempting to connect WebSocket...');
 
     this.connectionPromise = new Promise<void>((resolve, reject) => {
       try {
-        this.ws = new WebSocket(this.getWsUrl());
+        const ws = new WebSocket(this.getWsUrl());
+        this.ws = ws;
 
-        this.ws.onopen = () => {
+        ws.onopen = () => {
           console.log('✅ [HyperliquidService] WebSocket Connected');
-          this.connectionState = 'CONNECTED';
           this.reconnectAttempts = 0;
+          this.lastMessageAt = Date.now();
+          this._setConnectionState('CONNECTED');
+          this._startHeartbeat();
 
-          // Send subscriptions based on active flags
-          if (this.activeSubscriptions.allMids) {
-            this.ws?.send(JSON.stringify({ method: 'subscribe', subscription: { type: 'allMids' } }));
-            console.log('Sent subscribe for allMids on connect');
-          }
-          if (this.activeSubscriptions.l2BookCoin) {
-            this.ws?.send(JSON.stringify({ method: 'subscribe', subscription: { type: 'l2Book', coin: this.activeSubscriptions.l2BookCoin } }));
-            console.log(`Sent subscribe for l2Book ${this.activeSubscriptions.l2BookCoin} on connect`);
-          }
+          // (Re)send every registered subscription
+          this.subscriptions.forEach(entry => this._sendSubscription('subscribe', entry.descriptor));
+          console.log(`Sent ${this.subscriptions.size} subscription(s) on connect`);
           resolve();
         };
 
-        this.ws.onmessage = (event) => {
+        ws.onmessage = (event) => {
+          this.lastMessageAt = Date.now();
           try {
             const message = JSON.parse(event.data as string);
-            if (message.channel === 'allMids' && message.data?.mids) {
-              this.priceUpdateCallback?.(message.data.mids);
-            }
-            if (message.channel === 'l2Book' && message.data && message.data.coin === this.currentSubscribedOrderBookCoin) {
-              const orderBook: OrderBook = {
-                coin: message.data.coin,
-                levels: message.data.levels,
-                time: Date.now(),
-              };
-              this.orderBookUpdateCallback?.(orderBook);
+            if (message.channel && message.channel !== 'pong') {
+              this._dispatch(message.channel, message.data);
             }
           } catch (error) {
             console.error('[HyperliquidService] Error parsing WebSocket message:', error);
           }
         };
 
-        this.ws.onclose = (event) => {
+        ws.onclose = (event) => {
           console.log(`💣 [HyperliquidService] WebSocket closed. Code: ${event.code}, Reason: ${event.reason}`);
-          this.ws = null; // Ensure ws is nulled
-          if (this.connectionState !== 'DISCONNECTED') { // Don't auto-reconnect if intentionally disconnected
-            this.connectionState = 'RECONNECTING';
-            this._attemptReconnect();
-          } else {
-            console.log("[HyperliquidService] WebSocket closed intentionally, no reconnect.");
-          }
-          // Do not reject the promise here, _attemptReconnect handles further actions.
+          this._stopHeartbeat();
+          this.ws = null;
+          this.connectionPromise = null;
+          reject(new Error(`WebSocket closed (${event.code})`));
+          this._attemptReconnect();
         };
 
-        this.ws.onerror = (error) => {
+        ws.onerror = (error) => {
+          // onerror is always followed by onclose, which handles the reconnect
           console.error('❌ [HyperliquidService] WebSocket error:', error);
-          // onerror is usually followed by onclose, which will trigger reconnect logic.
-          // If connectionPromise is pending, reject it.
-          if (this.connectionState === 'CONNECTING') {
-            this.connectionState = 'DISCONNECTED'; // Or RECONNECTING if appropriate
-            reject(new Error('WebSocket connection failed'));
-          }
-          // No need to call _attemptReconnect here as onclose will handle it.
         };
       } catch (error) {
         console.error('[HyperliquidService] Error instantiating WebSocket:', error);
-        this.connectionState = 'DISCONNECTED';
+        this.connectionPromise = null;
         reject(error);
-        this._attemptReconnect(); // Attempt to recover from instantiation error
+        this._attemptReconnect();
       }
     });
     return this.connectionPromise;
   }
 
-  private _attemptReconnect(): void {
-    if (this.reconnectAttempts < this.maxReconnectAttempts && this.connectionState !== 'DISCONNECTED') {
-      this.reconnectAttempts++;
-      const delay = Math.min(1000 * Math.pow(2, this.reconnectAttempts - 1), 30000); // Adjusted delay start
-      console.log(`[HyperliquidService] Attempting to reconnect in ${delay}ms (attempt ${this.reconnectAttempts}/${this.maxReconnectAttempts})`);
-      this.reconnectTimeoutId = setTimeout(() => {
-        this.reconnectTimeoutId = null;
-        if (this.connectionState !== 'DISCONNECTED') { // Check again before connecting
-          this._connect().catch(err => console.error("[HyperliquidService] Reconnect attempt failed:", err));
-        }
-      }, delay);
-    } else if (this.connectionState !== 'DISCONNECTED') {
-      console.error('[HyperliquidService] Max reconnection attempts reached.');
-      this.connectionState = 'DISCONNECTED'; // Give up
+  // Drop the current socket without triggering its onclose reconnect path
+  private _detachSocket(): void {
+    this._stopHeartbeat();
+    if (!this.ws) return;
+    this.ws.onopen = null;
+    this.ws.onmessage = null;
+    this.ws.onerror = null;
+    this.ws.onclose = null;
+    if (this.ws.readyState !== WebSocket.CLOSED && this.ws.readyState !== WebSocket.CLOSING) {
+      this.ws.close();
     }
+    this.ws = null;
+    this.connectionPromise = null;
   }
 
-  // --- Public Subscription Methods ---
+  /**
+   * Ping periodically and treat a silent socket as dead. A half-open connection
+   * never fires onclose, so without this prices would freeze while still "connected".
+   */
+  private _startHeartbeat(): void {
+    this._stopHeartbeat();
+    this.heartbeatIntervalId = setInterval(() => {
+      if (!this.ws || this.ws.readyState !== WebSocket.OPEN) return;
+
+      const silentFor = Date.now() - (this.lastMessageAt ?? 0);
+      if (silentFor > HyperliquidService.HEARTBEAT_TIMEOUT_MS) {
+        console.warn(`💔 [HyperliquidService] No message for ${silentFor}ms, dropping socket`);
+        this._detachSocket();
+        this._attemptReconnect();
+        return;
+      }
 
-  subscribeToAllMids(callback: (prices: PriceFeed) => void): () => void {
-    console.log('[HyperliquidService] Request to subscribe to allMids');
-    this.priceUpdateCallback = callback;
-    this.activeSubscriptions.allMids = true;
-
-    if (this.connectionState === 'CONNECTED' && this.ws?.readyState === WebSocket.OPEN) {
-      // If already connected, ensure subscription is sent
-      this.ws?.send(JSON.stringify({ method: 'subscribe', subscription: { type: 'allMids' } }));
-      console.log('Sent subscribe for allMids (already connected)');
-    } else if (this.connectionState === 'DISCONNECTED' || this.connectionState === 'RECONNECTING') {
-      this._connect().catch(err => console.error("[HyperliquidService] Connection failed for allMids subscription:", err));
+      this.ws.send(JSON.stringify({ method: 'ping' }));
+    }, HyperliquidService.HEARTBEAT_INTERVAL_MS);
+  }
+
+  private _stopHeartbeat(): void {
+    if (this.heartbeatIntervalId) {
+      clearInterval(this.heartbeatIntervalId);
+      this.heartbeatIntervalId = null;
     }
-    // else if CONNECTING, onopen will handle it.
+  }
 
-    return () => this.unsubscribeFromAllMids();
+  /**
+   * Retry forever while anything is subscribed, with exponential backoff and jitter
+   * so many tabs don't reconnect in lockstep after an outage.
+   */
+  private _attemptReconnect(): void {
+    if (this.subscriptions.size === 0) {
+      this._setConnectionState('DISCONNECTED');
+      return;
+    }
+    if (this.reconnectTimeoutId) return; // A retry is already scheduled
+
+    this.reconnectAttempts++;
+    const backoff = Math.min(
+      HyperliquidService.RECONNECT_BASE_DELAY_MS * Math.pow(2, this.reconnectAttempts - 1),
+      HyperliquidService.RECONNECT_MAX_DELAY_MS
+    );
+    const delay = Math.round(backoff / 2 + Math.random() * (backoff / 2));
+    this.nextRetryAt = Date.now() + delay;
+    this._setConnectionState('RECONNECTING');
+
+    console.log(`[HyperliquidService] Attempting to reconnect in ${delay}ms (attempt ${this.reconnectAttempts})`);
+    this.reconnectTimeoutId = setTimeout(() => {
+      this.reconnectTimeoutId = null;
+      if (this.subscriptions.size > 0) { // Check again before connecting
+        this._connect().catch(err => console.error("[HyperliquidService] Reconnect attempt failed:", err));
+      }
+    }, delay);
   }
 
-  unsubscribeFromAllMids(): void {
-    console.log('[HyperliquidService] Request to unsubscribe from allMids');
-    this.activeSubscriptions.allMids = false;
-    this.priceUpdateCallback = null;
+  private _sendSubscription(method: 'subscribe' | 'unsubscribe', descriptor: SubscriptionDescriptor): void {
     if (this.ws && this.ws.readyState === WebSocket.OPEN) {
-      this.ws.send(JSON.stringify({ method: 'unsubscribe', subscription: { type: 'allMids' } }));
-      console.log('Sent unsubscribe for allMids');
+      this.ws.send(JSON.stringify({ method, subscription: descriptor }));
     }
-    this._checkAndDisconnectIfNoSubscriptions();
   }
 
-  subscribeToL2Book(coin: string, callback: (orderBook: OrderBook) => void): () => void {
-    console.log(`[HyperliquidService] Request to subscribe to L2Book for ${coin}`);
-    this.orderBookUpdateCallback = callback;
-    this.currentSubscribedOrderBookCoin = coin; // For message routing
-    this.activeSubscriptions.l2BookCoin = coin;
-
-    if (this.connectionState === 'CONNECTED' && this.ws?.readyState === WebSocket.OPEN) {
-      this.ws?.send(JSON.stringify({ method: 'subscribe', subscription: { type: 'l2Book', coin } }));
-      console.log(`Sent subscribe for l2Book ${coin} (already connected)`);
-    } else if (this.connectionState === 'DISCONNECTED' || this.connectionState === 'RECONNECTING') {
-      this._connect().catch(err => console.error(`[HyperliquidService] Connection failed for L2Book ${coin} subscription:`, err));
-    }
-    // else if CONNECTING, onopen will handle it.
+  /**
+   * Fan a channel message out to every subscription it belongs to
+   */
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  private _dispatch(channel: string, data: any): void {
+    this.subscriptions.forEach(entry => {
+      const payload = this._payloadFor(entry.descriptor, channel, data);
+      if (payload === undefined) return;
+      entry.lastMessageAt = Date.now();
+
+      entry.listeners.forEach(listener => {
+        try {
+          listener(payload);
+        } catch (error) {
+          console.error(`[HyperliquidService] Listener for ${channel} threw:`, error);
+        }
+      });
+    });
+  }
 
-    return () => this.unsubscribeFromL2Book(coin);
+  /**
+   * Returns the listener payload if the message belongs to `descriptor`, otherwise undefined.
+   * l2Book is routed by coin, which is exact because only full-precision books are streamed.
+   */
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  private _payloadFor(descriptor: SubscriptionDescriptor, channel: string, data: any): unknown {
+    if (channel !== CHANNEL_FOR_TYPE[descriptor.type] || !data) return undefined;
+
+    switch (descriptor.type) {
+      case 'allMids':
+        return data.mids;
+      case 'l2Book':
+        if (data.coin !== descriptor.coin) return undefined;
+        return {
+          coin: data.coin,
+          levels: data.levels,
+          time: Date.now(),
+        } satisfies OrderBook;
+      case 'trades': {
+        if (!Array.isArray(data)) return undefined;
+        const trades = data.filter((trade: Trade) => trade.coin === descriptor.coin);
+        return trades.length > 0 ? trades : undefined;
+      }
+      case 'bbo':
+        return data.coin === descriptor.coin ? data : undefined;
+      case 'candle':
+        return data.s === descriptor.coin && data.i === descriptor.interval ? data : undefined;
+      case 'userFills':
+        return String(data.user).toLowerCase() === descriptor.user.toLowerCase() ? data : undefined;
+      case 'orderUpdates':
+      case 'userEvents':
+        // These messages don't echo the user; the app only streams one account at a time
+        return data;
+      default:
+        return undefined;
+    }
   }
 
-  unsubscribeFromL2Book(coin: string): void {
-    console.log(`[HyperliquidService] Request to unsubscribe from L2Book for ${coin}`);
-    if (this.activeSubscriptions.l2BookCoin === coin) {
-      this.activeSubscriptions.l2BookCoin = null;
-      this.orderBookUpdateCallback = null;
-      this.currentSubscribedOrderBookCoin = null;
-      if (this.ws && this.ws.readyState === WebSocket.OPEN) {
-        this.ws.send(JSON.stringify({ method: 'unsubscribe', subscription: { type: 'l2Book', coin } }));
-        console.log(`Sent unsubscribe for l2Book ${coin}`);
+  // --- Public Subscription Methods ---
+
+  /**
+   * Register a listener for a channel. Many listeners can share one channel;
+   * the returned function removes only this listener.
+   */
+  subscribe<D extends SubscriptionDescriptor>(descriptor: D, listener: SubscriptionListener<D>): () => void {
+    const key = subscriptionKey(descriptor);
+    let entry = this.subscriptions.get(key);
+
+    if (!entry) {
+      console.log(`[HyperliquidService] New subscription ${key}`);
+      entry = { descriptor, listeners: new Set(), lastMessageAt: null };
+      this.subscriptions.set(key, entry);
+
+      if (this.connectionState === 'CONNECTED' && this.ws?.readyState === WebSocket.OPEN) {
+        this._sendSubscription('subscribe', descriptor);
+      } else if (this.connectionState === 'DISCONNECTED' || this.connectionState === 'RECONNECTING') {
+        this._connect().catch(err => console.error(`[HyperliquidService] Connection failed for ${key} subscription:`, err));
       }
+      // else if CONNECTING, onopen will handle it.
     }
+
+    entry.listeners.add(listener);
+
+    let active = true;
+    return () => {
+      if (!active) return;
+      active = false;
+      this._removeListener(key, listener);
+    };
+  }
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  private _removeListener(key: string, listener: (payload: any) => void): void {
+    const entry = this.subscriptions.get(key);
+    if (!entry) return;
+
+    entry.listeners.delete(listener);
+    if (entry.listeners.size > 0) return;
+
+    console.log(`[HyperliquidService] Last listener left ${key}, unsubscribing`);
+    this.subscriptions.delete(key);
+    this._sendSubscription('unsubscribe', entry.descriptor);
     this._checkAndDisconnectIfNoSubscriptions();
   }
 
+  subscribeToAllMids(callback: (prices: PriceFeed) => void): () => void {
+    return this.subscribe({ type: 'allMids' }, callback);
+  }
+
+  /**
+   * Full-precision book only; poll fetchL2Book for aggregated levels
+   */
+  subscribeToL2Book(coin: string, callback: (orderBook: OrderBook) => void): () => void {
+    return this.subscribe({ type: 'l2Book', coin }, callback);
+  }
+
+  subscribeToTrades(coin: string, callback: (trades: Trade[]) => void): () => void {
+    return this.subscribe({ type: 'trades', coin }, callback);
+  }
+
+  subscribeToBbo(coin: string, callback: (bbo: Bbo) => void): () => void {
+    return this.subscribe({ type: 'bbo', coin }, callback);
+  }
+
+  subscribeToCandles(coin: string, interval: CandleInterval, callback: (candle: Candle) => void): () => void {
+    return this.subscribe({ type: 'candle', coin, interval }, callback);
+  }
+
+  subscribeToUserFills(user: string, callback: (data: UserFillsData) => void): () => void {
+    return this.subscribe({ type: 'userFills', user: user.toLowerCase() }, callback);
+  }
+
+  subscribeToOrderUpdates(user: string, callback: (updates: OrderUpdate[]) => void): () => void {
+    return this.subscribe({ type: 'orderUpdates', user: user.toLowerCase() }, callback);
+  }
+
+  subscribeToUserEvents(user: string, callback: (event: UserEvent) => void): () => void {
+    return this.subscribe({ type: 'userEvents', user: user.toLowerCase() }, callback);
+  }
+
+  /**
+   * Number of listeners attached to a channel (0 if not subscribed)
+   */
+  getListenerCount(descriptor: SubscriptionDescriptor): number {
+    return this.subscriptions.get(subscriptionKey(descriptor))?.listeners.size ?? 0;
+  }
+
+  /**
+   * When data last arrived for a channel, or on the socket at all if no descriptor is given.
+   * Survives reconnects, so a resubscribed-but-silent channel still reads as stale.
+   */
+  getLastMessageAt(descriptor?: SubscriptionDescriptor): number | null {
+    if (!descriptor) return this.lastMessageAt;
+    return this.subscriptions.get(subscriptionKey(descriptor))?.lastMessageAt ?? null;
+  }
+
+  getConnectionStatus(): ConnectionStatus {
+    return this.status;
+  }
+
+  /**
+   * Observe connection state changes; returns an unsubscribe function
+   */
+  onConnectionStatusChange(listener: (status: ConnectionStatus) => void): () => void {
+    this.statusListeners.add(listener);
+    return () => {
+      this.statusListeners.delete(listener);
+    };
+  }
+
   private _checkAndDisconnectIfNoSubscriptions(): void {
-    if (!this.activeSubscriptions.allMids && !this.activeSubscriptions.l2BookCoin) {
+    if (this.subscriptions.size === 0) {
       console.log('[HyperliquidService] No active subscriptions. Disconnecting WebSocket.');
-      this.connectionState = 'DISCONNECTED'; // Signal intentional disconnect
       if (this.reconnectTimeoutId) {
         clearTimeout(this.reconnectTimeoutId);
         this.reconnectTimeoutId = null;
       }
-      if (this.ws) {
-        this.ws.onclose = () => { console.log("[HyperliquidService] WebSocket intentionally closed (no subs)."); this.ws = null; }; // Override onclose
-        if (this.ws.readyState !== WebSocket.CLOSED && this.ws.readyState !== WebSocket.CLOSING) {
-          this.ws.close();
-        }
-      }
-      this.connectionPromise = null; // Clear any pending connection promise
+      this._detachSocket(); // Intentional close, so skip the onclose reconnect path
       this.reconnectAttempts = 0; // Reset reconnect attempts
+      this.nextRetryAt = null;
+      this._setConnectionState('DISCONNECTED');
+    }
+  }
+
+  /**
+   * Drop the socket and resubscribe everything against the current network config.
+   * Listeners stay registered, so hooks keep receiving data after a network switch.
+   */
+  public resetConnection(): void {
+    console.log(`🌐 [HyperliquidService] Reconnecting to ${this.getWsUrl()}`);
+    if (this.reconnectTimeoutId) {
+      clearTimeout(this.reconnectTimeoutId);
+      this.reconnectTimeoutId = null;
+    }
+    this._detachSocket();
+    this.reconnectAttempts = 0;
+    this.nextRetryAt = null;
+    this.lastMessageAt = null;
+    this.subscriptions.forEach(entry => {
+      entry.lastMessageAt = null;
+    });
+    this._setConnectionState('DISCONNECTED');
+
+    if (this.subscriptions.size > 0) {
+      this._connect().catch(err => console.error('[HyperliquidService] Reconnect after network switch failed:', err));
     }
   }
 
@@ -361,12 +834,9 @@ export class HyperliquidService {
    */
   public forceDisconnect(): void {
     console.log('[HyperliquidService] Force disconnect requested.');
-    this.activeSubscriptions.allMids = false;
-    this.activeSubscriptions.l2BookCoin = null;
-    this.priceUpdateCallback = null;
-    this.orderBookUpdateCallback = null;
+    this.subscriptions.clear();
     this._checkAndDisconnectIfNoSubscriptions(); // This will now proceed to disconnect
   }
 }
 
-export const hyperliquid = new HyperliquidService(process.env.NEXT_PUBLIC_IS_TESTNET === 'true');
\ No newline at end of file
+export const hyperliquid = new HyperliquidService();
\ No newline at end of file
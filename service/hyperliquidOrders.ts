@@ -1,10 +1,13 @@
 // src/services/hyperliquidOrders.ts
 import { ethers } from 'ethers'
-import { hyperliquid } from './hyperliquid'
+import { hyperliquid, UserFill, UserFillsData } from './hyperliquid'
 import { hyperliquidAgent, AgentWallet } from './hyperLiquidAgent'
-import { calculateOrderSizeWithTrueLeverage, checkUserAccount, formatPrice, generateCloid, getAssetConfig, getRealTimePnL } from '@/lib/utils'
-const { privateKeyToAccount } = await import('viem/accounts');
-const { signL1Action } = await import('@nktkas/hyperliquid/signing')
+import { getNetworkConfig } from '@/lib/network'
+import { calculateOrderSizeWithTrueLeverage, checkUserAccount, formatPrice, formatSize, generateCloid, getAssetConfig, getRealTimePnL, getUserFillsByTime, getUserFunding, validateLeverage, validateNetting, validateStake } from '@/lib/utils'
+import { BracketConfig, bracketPrices, liquidationPrice, PnLBreakdown, realizedPnL } from '@/lib/pnl'
+import { DEFAULT_MAX_SLIPPAGE_BPS, estimateFill, SlippageRecord, slippageBps } from '@/lib/slippage'
+import { applyFills, createOrder, isTerminal, OrderLifecycle, transition } from '@/lib/orderLifecycle'
+import { exchangeClient, ExchangeStatus, OrderWire } from './exchangeClient'
 
 export interface OrderRequest {
   asset: string
@@ -15,8 +18,17 @@ export interface OrderRequest {
   cloid?: string
   isClose?: boolean
   leverage?: number
+  stake?: number // USDC margin behind the position; defaults to DEFAULT_STAKE
+  marginMode?: MarginMode // Defaults to isolated
+  maxSlippageBps?: number // IOC limit distance from mid; defaults to DEFAULT_MAX_SLIPPAGE_BPS
+  roundDuration?: number // Seconds; round length when the UI (GameTimer) manages the close
+  gameId?: string
+  brackets?: BracketConfig
+  endRoundOnBracket?: boolean // Settle the round as soon as a bracket fills instead of at the deadline
 }
 
+export type MarginMode = 'cross' | 'isolated'
+
 export interface PositionPnL {
   asset: string
   size: string
@@ -25,33 +37,58 @@ export interface PositionPnL {
   returnOnEquity: string
   positionValue: string
   leverage: string
+  marginMode: MarginMode
+  marginUsed: string
+  liquidationPx: string | null // null when the account can't be liquidated by this position alone
 }
 
 export interface RealTimePnLData {
   totalUnrealizedPnl: number
   positions: PositionPnL[]
+  withdrawable: number // USDC free to back new positions
   lastUpdate: number
 }
 
+// protectiveStop is the service's own stop short of liquidation, there in case the tab never closes the round
+export type BracketKind = 'takeProfit' | 'stopLoss' | 'protectiveStop'
+
+export interface BracketLeg {
+  triggerPx: number
+  cloid: string
+  oid?: number // Only known once the leg rests
+  status: 'active' | 'triggered' | 'canceled' | 'rejected'
+  error?: string
+}
+
+export type PositionBrackets = Partial<Record<BracketKind, BracketLeg>>
+
 export interface OrderResponse {
   success: boolean
   orderId?: string
   cloid?: string
   error?: string
+  brackets?: PositionBrackets
+  slippage?: SlippageRecord
+  order?: OrderLifecycle // Entry order state once the response was resolved
+  voided?: boolean // Nothing filled: no position exists and the round should be voided
   fillInfo?: {
     filled: boolean
     fillPrice?: number
     fillSize?: string
+    requestedSize?: string // Larger than fillSize when the IOC only partially filled
+    fillTime?: number // First fill; the round is timed from here
   }
 }
 
 export interface PositionInfo {
   orderId: string
   cloid: string
+  userAddress?: string
   asset: string
   direction: 'up' | 'down'
   entryPrice: number
-  size: string
+  size: string // Filled size; the position's PnL and close follow this
+  requestedSize?: string // Entry order size; above `size` after a partial fill
   timestamp: number
   timeWindow: number
   filled: boolean
@@ -59,6 +96,32 @@ export interface PositionInfo {
   closed?: boolean
   result?: 'win' | 'loss'
   exitPrice?: number
+  closeStatus?: CloseStatus
+  unresolved?: boolean // Close could not be confirmed; may still be open on the exchange
+  closeError?: string
+  exitCloids?: string[] // Close orders that filled, for matching exit fills
+  pnl?: PnLBreakdown
+  brackets?: PositionBrackets
+  bracketHit?: BracketKind
+  // Round context, persisted so a reloaded page can resume the round
+  deadline?: number // Epoch ms when the round ends
+  leverage?: number
+  gameId?: string
+  endRoundOnBracket?: boolean
+  marginMode?: MarginMode
+}
+
+export type CloseStatus = 'filled' | 'partial' | 'not_filled' | 'error'
+
+export interface CloseResult {
+  success: boolean // Only when the position is verified flat and the exit price is known
+  status: CloseStatus
+  exitPrice?: number // VWAP of our close fills
+  filledSize?: string
+  remainingSize?: string
+  attempts: number
+  error?: string
+  pnl?: PnLBreakdown // Realized from fills once the close is verified
 }
 
 
@@ -80,126 +143,200 @@ export type SignTypedDataFunction = (args: {
 }) => Promise<string>
 
 export class HyperliquidOrderService {
-  public static readonly TESTNET_API = 'https://api.hyperliquid-testnet.xyz'
-  public static readonly MAINNET_API = 'https://api.hyperliquid.xyz'
-  public static readonly MARGIN_AMOUNT = 10
+  public static readonly DEFAULT_STAKE = 10
+  public static readonly STAKE_OPTIONS = [10, 25, 50, 100]
+  // Hyperliquid rejects orders below $10 notional
+  public static readonly MIN_ORDER_VALUE = 10
+  // Limit offsets from mid for successive close attempts
+  private static readonly CLOSE_PRICE_BANDS = [0.01, 0.02, 0.05, 0.1]
+  // How long to wait for exit fills on the stream before asking userFillsByTime
+  private static readonly FILL_WAIT_MS = 3000
+  // Protective stop distance, as a share of the way from entry to the estimated liquidation price
+  private static readonly PROTECTIVE_STOP_FRACTION = 0.8
 
 
-  private useTestnet: boolean = true
   private activePositions: Map<string, PositionInfo> = new Map()
-  private positionCallbacks: Map<string, (result: 'win' | 'loss', exitPrice: number) => void> = new Map()
+  // Entry order lifecycle per cloid, from submission until its position is released
+  private orders: Map<string, OrderLifecycle> = new Map()
+  private positionCallbacks: Map<string, (result: 'win' | 'loss', exitPrice: number, pnl?: PnLBreakdown) => void> = new Map()
   private autoCloseTimeouts: Map<string, NodeJS.Timeout> = new Map()
 
-  constructor(useTestnet: boolean = true) {
-    this.useTestnet = useTestnet
-  }
+  // Live fills from the userFills stream, keyed by the cloid of the order they belong to
+  private fillsByCloid: Map<string, UserFill[]> = new Map()
+  private userFillsAddress: string | null = null
+  private userFillsUnsubscribe: (() => void) | null = null
 
   public getApiUrl(): string {
-    return this.useTestnet ? HyperliquidOrderService.TESTNET_API : HyperliquidOrderService.MAINNET_API
+    return getNetworkConfig().apiUrl
   }
 
-  // Development mode aggressive pricing helperAdd commentMore actions
-  private applyDevModeAgressivePricing(price: number, isOpening: boolean): number {
-    const isDevMode = process.env.NEXT_PUBLIC_IS_TESTNET === 'true'
+  /**
+   * Stream the user's fills so positions resolve from real executions.
+   * Orders are signed by the agent but fills are reported for the master account.
+   */
+  private ensureUserFillStream(userAddress: string): void {
+    const address = userAddress.toLowerCase()
+    if (this.userFillsAddress === address && this.userFillsUnsubscribe) return
+
+    this.userFillsUnsubscribe?.()
+    this.userFillsAddress = address
+    this.userFillsUnsubscribe = hyperliquid.subscribeToUserFills(address, (data) => this.handleUserFills(data))
+    console.log(`💸 Streaming fills for ${address}`)
+  }
 
-    if (!isDevMode) {
-      const multiplier = isOpening ? 1.01 : 0.99
-      const adjustedPrice = price * multiplier
-      return adjustedPrice
+  private handleUserFills(data: UserFillsData): void {
+    // The snapshot replays history from before this session; only live fills matter here
+    if (data.isSnapshot) return
+
+    for (const fill of data.fills) {
+      if (!fill.cloid) continue
+      const fills = this.fillsByCloid.get(fill.cloid) || []
+      if (fills.some(f => f.tid === fill.tid)) continue
+      fills.push(fill)
+      this.fillsByCloid.set(fill.cloid, fills)
+      this.syncOrderFills(fill.cloid)
+      this.applyFillsToPosition(fill.cloid)
+      void this.handleBracketFill(fill.cloid)
     }
+  }
 
-    // For opening positions: slightly higher price (1.01x) to ensure fills
-    // For closing positions: slightly lower price (0.99x) to ensure fills
-    const multiplier = isOpening ? 1.1 : 0.9
-    const adjustedPrice = price * multiplier
+  /**
+   * Derive fill state (VWAP entry, filled size) for a position from its fills.
+   * Safe to call before any fill arrives; fills that beat the /exchange response are buffered.
+   */
+  private applyFillsToPosition(cloid: string): void {
+    const position = this.activePositions.get(cloid)
+    const fills = this.fillsByCloid.get(cloid)
+    if (!position || !fills || fills.length === 0) return
+
+    const totalSize = fills.reduce((sum, f) => sum + parseFloat(f.sz), 0)
+    if (totalSize <= 0) return
+    const notional = fills.reduce((sum, f) => sum + parseFloat(f.sz) * parseFloat(f.px), 0)
+    const avgPrice = notional / totalSize
+
+    if (!position.filled) {
+      console.log(`✅ Resting order ${cloid} filled via stream at $${avgPrice}`)
+    }
+    position.filled = true
+    position.fillPrice = avgPrice
+    position.entryPrice = avgPrice
+    position.size = parseFloat(totalSize.toFixed(8)).toString()
+    this.savePositions(position.userAddress)
+  }
 
-    console.log(`🔧 DEV MODE: Adjusted price from ${price} to ${adjustedPrice} (${isOpening ? 'opening' : 'closing'})`)
-    return adjustedPrice
+  getFills(cloid: string): UserFill[] {
+    return this.fillsByCloid.get(cloid) || []
   }
 
+  getOrder(cloid: string): OrderLifecycle | undefined {
+    return this.orders.get(cloid)
+  }
 
-  private scheduleAutoClose(cloid: string, timeWindowMs: number): void {
-    console.log(`⏰ Scheduling auto-close for position ${cloid} in ${timeWindowMs}ms`)
+  /**
+   * Fold the fills seen for an entry order (streamed, or fetched from history) into its lifecycle
+   */
+  private syncOrderFills(cloid: string, fills: UserFill[] = this.getFills(cloid)): void {
+    const order = this.orders.get(cloid)
+    if (!order || fills.length === 0) return
+    const size = fills.reduce((sum, f) => sum + parseFloat(f.sz), 0)
+    const notional = fills.reduce((sum, f) => sum + parseFloat(f.sz) * parseFloat(f.px), 0)
+    const firstFillAt = Math.min(...fills.map(f => f.time))
+    this.orders.set(cloid, applyFills(order, size, notional / size, firstFillAt))
+  }
 
-    const existingTimeout = this.autoCloseTimeouts.get(cloid)
-    if (existingTimeout) {
-      clearTimeout(existingTimeout)
+  /**
+   * Drive an entry order to a terminal state from its /exchange status. A resting remainder
+   * is cancelled by cloid and the fills are then read back from history, so whatever did
+   * fill before the cancel landed is known before the round starts.
+   */
+  private async resolveEntryOrder(cloid: string, status: ExchangeStatus, userAddress: string): Promise<OrderLifecycle> {
+    const update = (next: (order: OrderLifecycle) => OrderLifecycle) => {
+      const order = this.orders.get(cloid)!
+      this.orders.set(cloid, next(order))
     }
 
-    const timeoutId = setTimeout(async () => {
-      try {
-        console.log(`🔄 Auto-closing position ${cloid} at market price`)
-        const position = this.activePositions.get(cloid)
-        if (!position) {
-          console.warn(`Position ${cloid} not found for auto-close`)
-          return
+    switch (status.type) {
+      case 'filled':
+        this.syncOrderFills(cloid)
+        update(order => applyFills(order, parseFloat(status.totalSz), parseFloat(status.avgPx), Date.now()))
+        // An IOC's unfilled remainder is cancelled by the exchange
+        update(order => isTerminal(order.status) ? order : transition(order, 'cancelled'))
+        break
+      case 'resting': {
+        update(order => transition(order, 'resting', { oid: status.oid }))
+        console.warn(`⚠️ Entry ${cloid} rested as oid ${status.oid}, cancelling the remainder`)
+        const order = this.orders.get(cloid)!
+        try {
+          const assetConfig = await getAssetConfig(order.asset)
+          const [cancelStatus] = await exchangeClient.cancelByCloid(
+            await this.agentFor(userAddress),
+            [{ asset: assetConfig.assetId, cloid }]
+          )
+          if (cancelStatus.type === 'success') {
+            update(order => transition(order, 'cancelled'))
+          } else {
+            // Usually "already filled or canceled"; the fills below tell which
+            console.warn(`⚠️ Cancel of resting entry ${cloid} failed:`, cancelStatus.type === 'error' ? cancelStatus.error : cancelStatus.type)
+          }
+        } catch (error) {
+          console.error(`❌ Failed to cancel resting entry ${cloid}:`, error)
         }
-        if (position.closed) {
-          console.log(`ℹ️ Position ${cloid} already closed, auto-close cancelled.`)
-          this.autoCloseTimeouts.delete(cloid)
-          return
+        const history = await getUserFillsByTime(userAddress, order.submittedAt - 60000)
+        this.syncOrderFills(cloid, (history || []).filter(f => f.cloid === cloid))
+        if (!isTerminal(this.orders.get(cloid)!.status)) {
+          // Not confirmed cancelled and not completely filled: treat what filled as the position
+          update(order => transition(order, 'cancelled', { error: 'Remainder cancel unconfirmed' }))
         }
+        break
+      }
+      case 'error':
+        update(order => transition(order, 'rejected', { error: status.error }))
+        break
+      default:
+        update(order => transition(order, 'rejected', { error: `Unexpected entry status: ${status.type}` }))
+    }
 
-        const closeResult = await this.closePositionAtMarketPrice(position)
-
-        if (closeResult.success) {
-          position.closed = true
-          position.exitPrice = closeResult.exitPrice
-
-          if (closeResult.exitPrice) {
-            const isWin = position.direction === 'up'
-              ? closeResult.exitPrice > position.entryPrice
-              : closeResult.exitPrice < position.entryPrice
+    const order = this.orders.get(cloid)!
+    console.log(`📋 Entry ${cloid} ${order.status}: ${order.filledSize} of ${order.requestedSize} ${order.asset} filled`)
+    return order
+  }
 
-            position.result = isWin ? 'win' : 'loss'
+  private scheduleAutoClose(cloid: string, timeWindowMs: number): void {
+    console.log(`⏰ Scheduling auto-close for position ${cloid} in ${timeWindowMs}ms`)
 
-            console.log(`✅ Position ${cloid} auto-closed: ${position.result.toUpperCase()}`)
-            console.log(`📊 Entry: $${position.entryPrice} → Exit: $${closeResult.exitPrice}`)
+    const existingTimeout = this.autoCloseTimeouts.get(cloid)
+    if (existingTimeout) {
+      clearTimeout(existingTimeout)
+    }
 
-            const callback = this.positionCallbacks.get(cloid)
-            if (callback) {
-              callback(position.result, closeResult.exitPrice)
-              this.positionCallbacks.delete(cloid)
-            }
-          }
-          this.activePositions.delete(cloid) // Remove after processing
-          console.log(`✅ Successfully auto-closed position ${cloid}`)
-        } else {
-          console.error(`❌ Failed to auto-close position ${cloid}:`, closeResult.error)
-          const callback = this.positionCallbacks.get(cloid)
-          if (callback) {
-            callback('loss', position.entryPrice) // Assuming loss if auto-close fails
-            this.positionCallbacks.delete(cloid)
-          }
-        }
-      } catch (error) {
-        console.error(`❌ Error in auto-close for position ${cloid}:`, error)
-        const position = this.activePositions.get(cloid)
-        const callback = this.positionCallbacks.get(cloid)
-        if (callback && position) {
-          callback('loss', position.entryPrice)
-          this.positionCallbacks.delete(cloid)
-        }
-      } finally {
-        this.autoCloseTimeouts.delete(cloid)
-      }
+    const timeoutId = setTimeout(async () => {
+      this.autoCloseTimeouts.delete(cloid)
+      console.log(`🔄 Auto-closing position ${cloid} at market price`)
+      // Failures leave the position unresolved (and its callback registered) for a retry
+      await this.explicitClosePositionByCloid(cloid)
     }, timeWindowMs)
 
     this.autoCloseTimeouts.set(cloid, timeoutId)
   }
 
-  public async explicitClosePositionByCloid(cloid: string): Promise<{ success: boolean; exitPrice?: number; error?: string }> {
+  public async explicitClosePositionByCloid(cloid: string): Promise<CloseResult> {
     console.log(`🔄 Attempting explicit close for position ${cloid}`);
     const position = this.activePositions.get(cloid);
 
     if (!position) {
       console.warn(`⚠️ Position ${cloid} not found for explicit close.`);
-      return { success: false, error: `Position ${cloid} not found.` };
+      return { success: false, status: 'error', attempts: 0, error: `Position ${cloid} not found.` };
     }
 
     if (position.closed) {
       console.log(`ℹ️ Position ${cloid} is already closed. Exit: $${position.exitPrice}`);
-      return { success: true, exitPrice: position.exitPrice };
+      return this.releaseClosedPosition(position);
+    }
+
+    if (!position.filled) {
+      // An entry that never filled left nothing on the exchange to close
+      this.forgetPosition(cloid);
+      return { success: false, status: 'not_filled', attempts: 0, error: `Entry order ${cloid} never filled.` };
     }
 
     const existingTimeout = this.autoCloseTimeouts.get(cloid);
@@ -210,235 +347,613 @@ export class HyperliquidOrderService {
     }
 
     const closeResult = await this.closePositionAtMarketPrice(position);
+    if (position.closed) {
+      // A bracket filled while we were closing
+      return this.releaseClosedPosition(position);
+    }
+    position.closeStatus = closeResult.status;
 
     if (closeResult.success && closeResult.exitPrice !== undefined) {
-      position.closed = true;
-      position.exitPrice = closeResult.exitPrice;
-      const isWin = position.direction === 'up'
-        ? closeResult.exitPrice > position.entryPrice
-        : closeResult.exitPrice < position.entryPrice;
-      position.result = isWin ? 'win' : 'loss';
-
-      console.log(`✅ Position ${cloid} explicitly closed: ${position.result.toUpperCase()}`);
-      console.log(`📊 Entry: $${position.entryPrice} → Exit: $${closeResult.exitPrice}`);
-
-      const callback = this.positionCallbacks.get(cloid);
-      if (callback) {
-        callback(position.result, closeResult.exitPrice);
-        this.positionCallbacks.delete(cloid);
-      }
-      this.activePositions.delete(cloid); // Remove from active positions after successful close
-      console.log(`🗑️ Position ${cloid} removed from active tracking after explicit close.`);
+      await this.cancelBracketLegs(position);
+      closeResult.pnl = await this.realizePnL(position, parseFloat(closeResult.filledSize || '0'));
+      this.settlePosition(position, closeResult.exitPrice, closeResult.pnl);
     } else {
-      console.error(`❌ Failed to explicitly close position ${cloid}:`, closeResult.error);
-      // Position remains in activePositions if close fails, for potential retry or manual check.
+      // No result is recorded for a position that may still be open on the exchange
+      position.unresolved = true;
+      position.closeError = closeResult.error;
+      console.error(`❌ Position ${cloid} unresolved after close (${closeResult.status}):`, closeResult.error);
     }
+    this.savePositions(position.userAddress);
     return closeResult;
   }
 
-  private async closePositionAtMarketPrice(position: PositionInfo): Promise<{
-    success: boolean
-    exitPrice?: number
-    error?: string
-  }> {
+  /**
+   * Record a verified close, fire the round callback and stop tracking the position
+   */
+  private settlePosition(position: PositionInfo, exitPrice: number, pnl?: PnLBreakdown): void {
+    this.recordClose(position, exitPrice, pnl)
+    this.releasePosition(position)
+  }
+
+  /**
+   * Mark a position closed. The result follows net PnL when fills are known, the price move otherwise.
+   */
+  private recordClose(position: PositionInfo, exitPrice: number, pnl?: PnLBreakdown): void {
+    const cloid = position.cloid
+    position.closed = true
+    position.unresolved = false
+    position.closeError = undefined
+    position.exitPrice = exitPrice
+    position.pnl = pnl
+    const isWin = position.direction === 'up'
+      ? exitPrice > position.entryPrice
+      : exitPrice < position.entryPrice
+    position.result = pnl ? pnl.result : isWin ? 'win' : 'loss'
+
+    console.log(`✅ Position ${cloid} closed: ${position.result.toUpperCase()}`)
+    console.log(`📊 Entry: $${position.entryPrice} → Exit: $${exitPrice}${pnl ? ` | Net: $${pnl.net.toFixed(4)}` : ''}`)
+  }
+
+  /**
+   * Hand a closed position's result to its round and drop it from tracking
+   */
+  private releasePosition(position: PositionInfo): void {
+    const cloid = position.cloid
+    const callback = this.positionCallbacks.get(cloid)
+    if (callback && position.result && position.exitPrice !== undefined) {
+      callback(position.result, position.exitPrice, position.pnl)
+      this.positionCallbacks.delete(cloid)
+    }
+    this.activePositions.delete(cloid) // Remove from active positions after successful close
+    this.orders.delete(cloid)
+    position.exitCloids?.forEach(exitCloid => this.fillsByCloid.delete(exitCloid))
+    console.log(`🗑️ Position ${cloid} removed from active tracking after close.`)
+  }
+
+  private releaseClosedPosition(position: PositionInfo): CloseResult {
+    this.releasePosition(position)
+    this.savePositions(position.userAddress)
+    return {
+      success: true,
+      status: 'filled',
+      exitPrice: position.exitPrice,
+      filledSize: position.size,
+      attempts: 0,
+      pnl: position.pnl
+    }
+  }
+
+  /**
+   * Reduce-only market triggers for the request's TP/SL, sent with the entry as `normalTpsl`
+   * so they only arm once it fills. Priced off the requested price: the fill isn't known yet.
+   */
+  private buildBracketOrders(
+    request: OrderRequest,
+    assetConfig: AssetConfig,
+    size: string,
+    leverage: number
+  ): { legs: PositionBrackets; orders: OrderWire[] } {
+    const legs: PositionBrackets = {}
+    const orders: OrderWire[] = []
+    if (!request.brackets) return { legs, orders }
+
+    const prices = bracketPrices(request.direction, request.price, leverage, request.brackets)
+    const isBuy = request.direction === 'down' // Closing side
+    for (const kind of ['takeProfit', 'stopLoss'] as const) {
+      const price = prices[kind]
+      if (!price) continue
+      const triggerPx = formatPrice(price, assetConfig.szDecimals)
+      const cloid = generateCloid()
+      legs[kind] = { triggerPx: parseFloat(triggerPx), cloid, status: 'active' }
+      orders.push({
+        a: assetConfig.assetId,
+        b: isBuy,
+        // Market triggers still carry a limit: the worst price accepted once triggered
+        p: formatPrice(price * (isBuy ? 1.1 : 0.9), assetConfig.szDecimals),
+        s: size,
+        r: true,
+        t: { trigger: { isMarket: true, triggerPx, tpsl: kind === 'takeProfit' ? 'tp' : 'sl' } },
+        c: cloid,
+      })
+    }
+    return { legs, orders }
+  }
+
+  private applyBracketStatuses(legs: PositionBrackets, statuses: ExchangeStatus[]): void {
+    const kinds = (['takeProfit', 'stopLoss'] as const).filter(kind => legs[kind])
+    kinds.forEach((kind, index) => {
+      const leg = legs[kind]!
+      const status = statuses[index]
+      if (status?.type === 'error') {
+        leg.status = 'rejected'
+        leg.error = status.error
+        console.warn(`⚠️ ${kind} bracket rejected:`, status.error)
+      } else if (status?.type === 'resting') {
+        leg.oid = status.oid
+      }
+      // 'waiting' legs carry no oid; the cloid identifies the leg
+    })
+  }
+
+  private findBracket(cloid: string): { position: PositionInfo; kind: BracketKind } | null {
+    for (const position of this.activePositions.values()) {
+      if (position.closed || !position.brackets) continue
+      for (const kind of ['takeProfit', 'stopLoss', 'protectiveStop'] as const) {
+        if (position.brackets[kind]?.cloid === cloid) return { position, kind }
+      }
+    }
+    return null
+  }
+
+  /**
+   * A bracket leg filled on the stream. Once it has taken out the whole position, the other
+   * leg is cancelled and the position closed; the round settles now or at its deadline,
+   * depending on the request's `endRoundOnBracket`.
+   */
+  private async handleBracketFill(cloid: string): Promise<void> {
+    const owner = this.findBracket(cloid)
+    if (!owner) return
+    const { position, kind } = owner
+    const leg = position.brackets![kind]!
+    if (leg.status === 'triggered') return
+
+    const fills = this.fillsByCloid.get(cloid) || []
+    const filledSize = fills.reduce((sum, f) => sum + parseFloat(f.sz), 0)
+    if (filledSize + 1e-9 < (parseFloat(position.size) || 0)) return // Partially through; wait for the rest
+    leg.status = 'triggered'
+
+    const exitPrice = fills.reduce((sum, f) => sum + parseFloat(f.sz) * parseFloat(f.px), 0) / filledSize
+    console.log(`🎯 ${{ takeProfit: 'Take profit', stopLoss: 'Stop loss', protectiveStop: 'Protective stop' }[kind]} hit for ${position.cloid} at $${exitPrice}`)
+
+    await this.cancelBracketLegs(position)
+    position.exitCloids = [...(position.exitCloids ?? []), cloid]
+    position.bracketHit = kind
+    position.closeStatus = 'filled'
+    const pnl = await this.realizePnL(position, filledSize)
+    this.recordClose(position, exitPrice, pnl)
+
+    if (position.endRoundOnBracket) {
+      const timeout = this.autoCloseTimeouts.get(position.cloid)
+      if (timeout) clearTimeout(timeout)
+      this.autoCloseTimeouts.delete(position.cloid)
+      this.releasePosition(position)
+    }
+    // Otherwise the round's deadline close (auto-close or GameTimer) releases it
+    this.savePositions(position.userAddress)
+  }
+
+  /**
+   * Signer for orders on an existing position: the agent in memory, else the user's saved one,
+   * waiting for its decryption. Never a freshly generated agent; null makes the order fail NO_SIGNER.
+   */
+  private async agentFor(userAddress?: string): Promise<AgentWallet | null> {
+    const agent = hyperliquidAgent.getLoadedAgentWallet()
+    if (agent || !userAddress) return agent
+    return hyperliquidAgent.loadAgent(userAddress)
+  }
+
+  /**
+   * Cancel the position's bracket legs that are still armed. Failures are logged only:
+   * the exchange drops reduce-only triggers of a flat position by itself.
+   */
+  private async cancelBracketLegs(position: Pick<PositionInfo, 'asset' | 'brackets' | 'userAddress'>): Promise<void> {
+    const legs = Object.values(position.brackets ?? {}).filter(leg => leg.status === 'active')
+    if (legs.length === 0) return
+
+    try {
+      const assetConfig = await getAssetConfig(position.asset)
+      await exchangeClient.cancelByCloid(
+        await this.agentFor(position.userAddress),
+        legs.map(leg => ({ asset: assetConfig.assetId, cloid: leg.cloid }))
+      )
+    } catch (error) {
+      console.warn('⚠️ Failed to cancel brackets:', error)
+    }
+    legs.forEach(leg => { leg.status = 'canceled' })
+  }
+
+  /**
+   * Rest a reduce-only stop between the fill and the estimated liquidation price, so a round
+   * whose tab is gone can't ride into liquidation. A tighter stop-loss bracket already covers it.
+   */
+  private async attachProtectiveStop(position: PositionInfo, assetConfig: AssetConfig): Promise<void> {
+    const leverage = position.leverage ?? assetConfig.maxLeverage
+    const liquidation = liquidationPrice(position.direction, position.entryPrice, leverage, assetConfig.maxLeverage)
+    const stopPrice = position.entryPrice + (liquidation - position.entryPrice) * HyperliquidOrderService.PROTECTIVE_STOP_FRACTION
+    const stopLoss = position.brackets?.stopLoss
+    if (stopLoss && stopLoss.status === 'active'
+      && Math.abs(stopLoss.triggerPx - position.entryPrice) <= Math.abs(stopPrice - position.entryPrice)) {
+      return
+    }
+
+    const isBuy = position.direction === 'down' // Closing side
+    const triggerPx = formatPrice(stopPrice, assetConfig.szDecimals)
+    const cloid = generateCloid()
     try {
-      console.log(`🔄 Closing position ${position.cloid} at market price`)
-      console.log(`📊 Position data:`, {
-        asset: position.asset,
+      const [status] = await exchangeClient.order(await this.agentFor(position.userAddress), [{
+        a: assetConfig.assetId,
+        b: isBuy,
+        p: formatPrice(stopPrice * (isBuy ? 1.1 : 0.9), assetConfig.szDecimals),
+        s: position.size,
+        r: true,
+        t: { trigger: { isMarket: true, triggerPx, tpsl: 'sl' } },
+        c: cloid,
+      }])
+      if (status.type === 'error') throw new Error(status.error)
+      position.brackets = {
+        ...position.brackets,
+        protectiveStop: { triggerPx: parseFloat(triggerPx), cloid, oid: status.type === 'resting' ? status.oid : undefined, status: 'active' }
+      }
+      console.log(`🛡️ Protective stop for ${position.cloid} at $${triggerPx} (liquidation ~$${liquidation.toFixed(2)})`)
+    } catch (error) {
+      console.warn(`⚠️ Failed to attach protective stop for ${position.cloid}:`, error)
+    }
+  }
+
+  /**
+   * Realized PnL of a closed position from its entry and exit fills. Exit fills usually
+   * trail the /exchange response on the stream, so wait briefly, then fall back to
+   * userFillsByTime. Undefined when no exit fill can be found.
+   */
+  private async realizePnL(position: PositionInfo, exitSize: number): Promise<PnLBreakdown | undefined> {
+    const exitCloids = position.exitCloids ?? []
+    const streamedExitFills = () => exitCloids.flatMap(cloid => this.fillsByCloid.get(cloid) || [])
+    const sizeOf = (fills: UserFill[]) => fills.reduce((sum, f) => sum + parseFloat(f.sz), 0)
+    const isComplete = (fills: UserFill[]) => fills.length > 0 && sizeOf(fills) + 1e-9 >= exitSize
+
+    const waitUntil = Date.now() + HyperliquidOrderService.FILL_WAIT_MS
+    while (!isComplete(streamedExitFills()) && Date.now() < waitUntil) {
+      await new Promise(resolve => setTimeout(resolve, 250))
+    }
+
+    let entryFills = this.getFills(position.cloid)
+    let exitFills = streamedExitFills()
+    const userAddress = position.userAddress || this.userFillsAddress
+    if (userAddress && (!isComplete(exitFills) || entryFills.length === 0)) {
+      const history = await getUserFillsByTime(userAddress, position.timestamp - 60000)
+      if (history) {
+        const entryOid = parseInt(position.orderId)
+        entryFills = history.filter(f => f.cloid === position.cloid || f.oid === entryOid)
+        exitFills = history.filter(f => !!f.cloid && exitCloids.includes(f.cloid))
+      }
+    }
+    if (exitFills.length === 0) {
+      console.warn(`⚠️ No exit fills found for ${position.cloid}, PnL will be estimated`)
+      return undefined
+    }
+
+    // Funding is charged on the whole position: this round gets its share of each payment
+    // up to its close, not what sibling rounds on the asset held or what came after
+    const roundSize = parseFloat(position.size) || 0
+    let funding = 0
+    if (userAddress) {
+      const closedAt = Math.max(...exitFills.map(f => f.time))
+      const payments = await getUserFunding(userAddress, position.timestamp, closedAt)
+      funding = (payments || [])
+        .filter(p => p.coin === position.asset && p.time <= closedAt)
+        .reduce((sum, p) => {
+          const positionSize = Math.abs(parseFloat(p.szi))
+          const share = positionSize > 0 ? Math.min(roundSize / positionSize, 1) : 0
+          return sum + parseFloat(p.usdc) * share
+        }, 0)
+    }
+
+    const pnl = realizedPnL(
+      {
         direction: position.direction,
-        size: position.size,
         entryPrice: position.entryPrice,
-        fillPrice: position.fillPrice,
-        filled: position.filled
-      })
+        size: roundSize,
+        leverage: position.leverage ?? 1
+      },
+      entryFills,
+      exitFills,
+      funding
+    )
+    console.log(`🧮 Realized PnL for ${position.cloid}: gross $${pnl.gross.toFixed(4)} - fees $${pnl.fees.toFixed(4)} + funding $${pnl.funding.toFixed(4)} = $${pnl.net.toFixed(4)} (${pnl.roe.toFixed(2)}% ROE)`)
+    return pnl
+  }
 
-      if (!position.asset || !position.direction) {
-        throw new Error(`Invalid position data: asset=${position.asset}, direction=${position.direction}`)
+  /**
+   * Close whatever the exchange holds in `asset` on the given side, tracked or not, and
+   * settle the filled positions tracked for it at the close price. Fails, settling nothing,
+   * unless the exchange is then verified flat in the asset.
+   */
+  async flattenAsset(userAddress: string, asset: string, direction: 'up' | 'down'): Promise<CloseResult> {
+    const address = userAddress.toLowerCase()
+    console.log(`🧯 Flattening ${asset} ${direction} for ${address}`)
+
+    // Size is read from the exchange on every attempt, so the local record only names the side.
+    // The whole position on that side is closed, tracked rounds included
+    const onChain: PositionInfo = {
+      orderId: '',
+      cloid: `flatten-${asset}`,
+      userAddress: address,
+      asset,
+      direction,
+      entryPrice: 0,
+      size: '0',
+      timestamp: Date.now(),
+      timeWindow: 0,
+      filled: true
+    }
+    const result = await this.closePositionAtMarketPrice(onChain, { ignoreSiblings: true })
+    if (!result.success || result.exitPrice === undefined) return result
+
+    // Tracked rounds are only settled once the asset is flat on the exchange, on either side
+    const pnlData = await getRealTimePnL(address)
+    if (!pnlData) {
+      return { ...result, success: false, status: 'error', error: `Could not verify ${asset} is flat after flattening` }
+    }
+    const leftOver = pnlData.positions.find(p => p.asset === asset)
+    const leftOverSize = leftOver ? Math.abs(parseFloat(leftOver.size)) : 0
+    if (leftOverSize > 1e-9) {
+      console.warn(`⚠️ ${asset} still holds ${leftOver?.size} after flattening, leaving its rounds tracked`)
+      return {
+        ...result,
+        success: false,
+        status: 'partial',
+        remainingSize: parseFloat(leftOverSize.toFixed(8)).toString(),
+        error: `Exchange still holds ${leftOver?.size} ${asset} after flattening`
       }
+    }
 
-      let positionSize = position.size
-      if (!positionSize || positionSize === '0' || positionSize === '' || positionSize === 'undefined') {
-        console.warn(`⚠️ Position size missing or invalid: ${positionSize}, trying fallback strategies`)
-        const entryPrice = position.fillPrice || position.entryPrice || 0
-        if (entryPrice > 0) {
-          const possibleUsdValues = [10, 20, 30, 40, 50]
-          for (const usdValue of possibleUsdValues) {
-            const calculatedSize = (usdValue / entryPrice).toFixed(6)
-            console.log(`🔧 Trying fallback: $${usdValue} / $${entryPrice} = ${calculatedSize}`)
-            const sizeNum = parseFloat(calculatedSize)
-            if (sizeNum > 0.00001 && sizeNum < 100) {
-              positionSize = calculatedSize
-              console.log(`✅ Using fallback size: ${positionSize} (based on $${usdValue} position)`)
-              break
-            }
-          }
-        }
-        if (!positionSize || positionSize === '0') {
-          console.warn(`⚠️ All fallback strategies failed, using minimum position size`)
-          positionSize = '0.001'
-        }
+    const settling = this.getActivePositions()
+      .filter(p => p.userAddress === address && p.asset === asset && p.filled)
+    for (const position of settling) {
+      await this.cancelBracketLegs(position)
+      // Exit fills can only be attributed when a single position was flattened
+      if (settling.length === 1) {
+        position.exitCloids = onChain.exitCloids
+        result.pnl = await this.realizePnL(position, parseFloat(result.filledSize || '0'))
       }
+      this.settlePosition(position, result.exitPrice, result.pnl)
+    }
+    this.savePositions(address)
+    return result
+  }
 
-      console.log(`📊 Final position details: ${position.asset} ${position.direction} size=${positionSize}`)
+  /**
+   * Track an on-chain position as a game round. Positions already tracked in the asset
+   * are merged into the oldest one, which takes the exchange's side, size and entry.
+   */
+  adoptPosition(
+    userAddress: string,
+    asset: string,
+    signedSize: number,
+    entryPrice: number,
+    roundDuration: number
+  ): PositionInfo {
+    const address = userAddress.toLowerCase()
+    const [kept, ...merged] = this.getActivePositions()
+      .filter(p => p.userAddress === address && p.asset === asset)
+      .sort((a, b) => a.timestamp - b.timestamp)
+    merged.forEach(p => this.forgetPosition(p.cloid))
+
+    const now = Date.now()
+    const position: PositionInfo = kept ?? {
+      orderId: '',
+      cloid: generateCloid(),
+      userAddress: address,
+      asset,
+      direction: 'up',
+      entryPrice,
+      size: '0',
+      timestamp: now,
+      timeWindow: 0,
+      filled: true,
+      deadline: roundDuration > 0 ? now + roundDuration * 1000 : undefined
+    }
+    position.direction = signedSize > 0 ? 'up' : 'down'
+    position.size = parseFloat(Math.abs(signedSize).toFixed(8)).toString()
+    position.entryPrice = entryPrice
+    position.fillPrice = entryPrice
+    position.filled = true
+    position.unresolved = false
+    position.closeStatus = undefined
+    position.closeError = undefined
+
+    this.activePositions.set(position.cloid, position)
+    this.savePositions(address)
+    console.log(`🫳 Adopted ${position.size} ${asset} ${position.direction} as ${position.cloid}`)
+    return position
+  }
 
-      const currentPrices = await this.getCurrentPrices()
-      const currentPrice = currentPrices[position.asset]
+  /**
+   * Stop tracking a position without touching the exchange
+   */
+  forgetPosition(cloid: string): void {
+    const position = this.activePositions.get(cloid)
+    if (!position) return
+
+    const timeout = this.autoCloseTimeouts.get(cloid)
+    if (timeout) clearTimeout(timeout)
+    this.autoCloseTimeouts.delete(cloid)
+    void this.cancelBracketLegs(position)
+    this.activePositions.delete(cloid)
+    this.positionCallbacks.delete(cloid)
+    this.fillsByCloid.delete(cloid)
+    this.orders.delete(cloid)
+    this.savePositions(position.userAddress)
+    console.log(`🗑️ Stopped tracking position ${cloid}`)
+  }
 
-      if (!currentPrice) {
-        console.warn(`⚠️ Could not get current price for ${position.asset}, using fallback`)
-        const fallbackPrice = position.fillPrice || position.entryPrice || 50000
-        return {
-          success: true,
-          exitPrice: fallbackPrice
-        }
+  /**
+   * Close with reduce-only IOC orders, widening the price band on each attempt, then
+   * confirm against clearinghouseState. Only a position verified flat counts as closed.
+   * `ignoreSiblings` sizes the close, and the flat check, from the exchange's whole position
+   * on the side instead of this round's share of it.
+   */
+  private async closePositionAtMarketPrice(
+    position: PositionInfo,
+    { ignoreSiblings = false }: { ignoreSiblings?: boolean } = {}
+  ): Promise<CloseResult> {
+    const fills: Array<{ size: number; price: number }> = []
+    let attempts = 0
+    let lastError: string | undefined
+
+    const summarize = (status: CloseStatus, remaining: number | null, error?: string): CloseResult => {
+      const filledSize = fills.reduce((sum, f) => sum + f.size, 0)
+      const exitPrice = filledSize > 0
+        ? fills.reduce((sum, f) => sum + f.size * f.price, 0) / filledSize
+        : undefined
+      return {
+        success: status === 'filled',
+        status,
+        exitPrice,
+        filledSize: filledSize > 0 ? parseFloat(filledSize.toFixed(8)).toString() : undefined,
+        remainingSize: remaining !== null ? parseFloat(remaining.toFixed(8)).toString() : undefined,
+        attempts,
+        error
+      }
+    }
+
+    try {
+      console.log(`🔄 Closing position ${position.cloid} (${position.asset} ${position.direction} ${position.size})`)
+
+      if (!position.asset || !position.direction) {
+        return summarize('error', null, `Invalid position data: asset=${position.asset}, direction=${position.direction}`)
       }
 
       const assetConfig = await getAssetConfig(position.asset)
       if (!assetConfig || assetConfig.assetId === undefined) {
-        console.warn(`⚠️ Could not get asset config for ${position.asset}, using current price as exit`)
-        return {
-          success: true,
-          exitPrice: currentPrice
-        }
+        return summarize('error', null, `Could not load asset config for ${position.asset}`)
       }
 
       const isClosingLong = position.direction === 'up'
-      // Apply dev mode aggressive pricing for closing positionsAdd commentMore actions
-      const adjustedPrice = this.applyDevModeAgressivePricing(currentPrice, false)
-      const aggressivePrice = formatPrice(adjustedPrice, assetConfig.szDecimals)
+      const expectedSize = parseFloat(position.size) || 0
+      let remaining: number | null = null
+
+      for (const band of HyperliquidOrderService.CLOSE_PRICE_BANDS) {
+        // Size comes from the exchange, not from local bookkeeping
+        const onChainSize = await this.getOnChainPositionSize(position, ignoreSiblings)
+        if (onChainSize === null) {
+          remaining = remaining ?? Math.max(expectedSize - fills.reduce((sum, f) => sum + f.size, 0), 0)
+        } else {
+          remaining = onChainSize
+        }
+        if (remaining <= 0) break
 
-      if (!aggressivePrice || !positionSize) {
-        console.warn(`⚠️ Missing required values, using market price: aggressivePrice=${aggressivePrice}, size=${positionSize}`)
-        return {
-          success: true,
-          exitPrice: currentPrice
+        const currentPrices = await this.getCurrentPrices()
+        const currentPrice = currentPrices[position.asset]
+        if (!currentPrice) {
+          lastError = `No current price for ${position.asset}`
+          console.warn(`⚠️ ${lastError}, skipping close attempt`)
+          continue
         }
-      }
 
-      console.log(`💰 Closing at aggressive price: ${aggressivePrice} (market: ${currentPrice}) size: ${positionSize}`)
-      const closeCloid = generateCloid()
-      const closeOrder = {
-        a: assetConfig.assetId,
-        b: !isClosingLong,
-        p: aggressivePrice,
-        s: positionSize,
-        r: true,
-        t: { limit: { tif: 'Ioc' } },
-        c: closeCloid,
+        attempts++
+        const limitPrice = isClosingLong ? currentPrice * (1 - band) : currentPrice * (1 + band)
+        const size = formatSize(remaining, assetConfig.szDecimals)
+        console.log(`💰 Close attempt ${attempts}: ${size} ${position.asset} @ ${formatPrice(limitPrice, assetConfig.szDecimals)} (±${band * 100}% of ${currentPrice})`)
+
+        const outcome = await this.submitCloseOrder(
+          position.userAddress,
+          assetConfig.assetId,
+          !isClosingLong,
+          formatPrice(limitPrice, assetConfig.szDecimals),
+          size
+        )
+
+        if (outcome.filledSize > 0) {
+          fills.push({ size: outcome.filledSize, price: outcome.avgPrice })
+          position.exitCloids = [...(position.exitCloids ?? []), outcome.cloid]
+          remaining = Math.max(remaining - outcome.filledSize, 0)
+        }
+        if (outcome.error) {
+          lastError = outcome.error
+          console.warn(`⚠️ Close attempt ${attempts} did not fill:`, outcome.error)
+        }
       }
 
-      console.log('🔄 Close order details:', JSON.stringify(closeOrder, null, 2))
-      const action = {
-        type: 'order',
-        orders: [closeOrder],
-        grouping: 'na' as const
+      // Trust the exchange over the responses above
+      const finalSize = await this.getOnChainPositionSize(position, ignoreSiblings)
+      if (finalSize === null) {
+        return summarize('error', remaining, `Could not verify position is flat${lastError ? `: ${lastError}` : ''}`)
       }
-      const nonce = Date.now()
-      const agentWallet = hyperliquidAgent.getAgentWallet()
-      if (!agentWallet || !agentWallet.privateKey) {
-        console.warn('⚠️ Agent wallet not available, using market price as exit')
-        return {
-          success: true,
-          exitPrice: currentPrice
-        }
+      if (finalSize > 0) {
+        const status: CloseStatus = fills.length > 0 ? 'partial' : 'not_filled'
+        return summarize(status, finalSize, lastError || `Position still open: ${finalSize} ${position.asset}`)
+      }
+      if (fills.length === 0) {
+        // Flat, but not through our orders (liquidated, closed elsewhere): the exit price is unknown
+        return summarize('error', 0, 'Position is flat but no close fill was received')
       }
+      console.log(`✅ Position ${position.cloid} verified flat after ${attempts} attempt(s)`)
+      return summarize('filled', 0)
+    } catch (error) {
+      console.error('❌ Error in closePositionAtMarketPrice:', error)
+      return summarize('error', null, error instanceof Error ? error.message : String(error))
+    }
+  }
 
-      const account = privateKeyToAccount(agentWallet.privateKey as `0x${string}`)
-      console.log('🔄 Signing close order...')
-      try {
-        const signature = await signL1Action({
-          wallet: account,
-          action,
-          nonce,
-          isTestnet: this.useTestnet
-        })
-        console.log('✅ Close order signed successfully')
-        const exchangeRequest = { action, signature, nonce }
-        const controller = new AbortController()
-        const timeoutId = setTimeout(() => controller.abort(), 10000)
-
-        const response = await fetch(`${this.getApiUrl()}/exchange`, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            'Accept': 'application/json'
-          },
-          body: JSON.stringify(exchangeRequest),
-          signal: controller.signal
-        })
-        clearTimeout(timeoutId)
-        const responseText = await response.text()
+  /**
+   * Size still open on the exchange for this round, or null if unknown. Rounds on the same
+   * asset share one exchange position, so the other open rounds' sizes are not this one's,
+   * unless `ignoreSiblings` asks for the whole position on the side.
+   */
+  private async getOnChainPositionSize(position: PositionInfo, ignoreSiblings: boolean = false): Promise<number | null> {
+    const userAddress = position.userAddress || this.userFillsAddress
+    if (!userAddress) return null
+
+    const pnlData = await getRealTimePnL(userAddress)
+    if (!pnlData) return null
+    return ignoreSiblings ? this.openSizeFor(position, pnlData) : this.ownOpenSizeFor(position, pnlData)
+  }
 
-        if (!response.ok) {
-          console.warn(`⚠️ Close order HTTP error: ${response.status}, using market price`)
-          return {
-            success: true,
-            exitPrice: currentPrice
-          }
-        }
-        let result
-        try {
-          result = JSON.parse(responseText)
-        } catch (parseError) {
-          console.log(parseError)
-          console.warn('⚠️ Failed to parse close order response, using market price')
-          return {
-            success: true,
-            exitPrice: currentPrice
-          }
-        }
-        console.log('📥 Close order response:', JSON.stringify(result, null, 2))
-        if (result.status === 'ok') {
-          const orderStatus = result.response?.data?.statuses?.[0]
-          if (orderStatus?.filled) {
-            const exitPrice = parseFloat(orderStatus.filled?.avgPx || orderStatus.avgPx || currentPrice.toString())
-            console.log(`✅ Position closed successfully at $${exitPrice}`)
-            return {
-              success: true,
-              exitPrice: exitPrice
-            }
-          } else {
-            console.warn('⚠️ Close order not filled, using market price')
-            return {
-              success: true,
-              exitPrice: currentPrice
-            }
-          }
-        } else {
-          console.warn('⚠️ Close order failed, using market price')
-          return {
-            success: true,
-            exitPrice: currentPrice
-          }
-        }
-      } catch (signingOrApiError) {
-        console.warn('⚠️ Error signing or sending close order:', signingOrApiError)
+  /**
+   * The part of the exchange's position on this side that other filled rounds don't account for
+   */
+  private ownOpenSizeFor(position: PositionInfo, pnlData: RealTimePnLData): number {
+    const address = position.userAddress?.toLowerCase()
+    const siblingSize = this.getActivePositions()
+      .filter(p => p.cloid !== position.cloid && p.userAddress?.toLowerCase() === address && p.filled
+        && p.asset === position.asset && p.direction === position.direction)
+      .reduce((sum, p) => sum + (parseFloat(p.size) || 0), 0)
+    const size = Math.max(this.openSizeFor(position, pnlData) - siblingSize, 0)
+    return size > 1e-9 ? size : 0
+  }
+
+  private openSizeFor(position: PositionInfo, pnlData: RealTimePnLData): number {
+    const onChain = pnlData.positions.find(p => p.asset === position.asset)
+    const szi = onChain ? parseFloat(onChain.size) : 0
+    const isSameSide = position.direction === 'up' ? szi > 0 : szi < 0
+    return isSameSide ? Math.abs(szi) : 0
+  }
+
+  /**
+   * Sign and send one reduce-only IOC order. Transport and signing failures become
+   * an `error` outcome; nothing here pretends the order filled.
+   */
+  private async submitCloseOrder(
+    userAddress: string | undefined,
+    assetId: number,
+    isBuy: boolean,
+    price: string,
+    size: string
+  ): Promise<{ filledSize: number; avgPrice: number; cloid: string; error?: string }> {
+    const cloid = generateCloid()
+    const order: OrderWire = {
+      a: assetId,
+      b: isBuy,
+      p: price,
+      s: size,
+      r: true,
+      t: { limit: { tif: 'Ioc' } },
+      c: cloid,
+    }
+
+    try {
+      const [orderStatus] = await exchangeClient.order(await this.agentFor(userAddress), [order])
+      if (orderStatus.type === 'filled') {
         return {
-          success: true,
-          exitPrice: currentPrice
+          filledSize: parseFloat(orderStatus.totalSz),
+          avgPrice: parseFloat(orderStatus.avgPx),
+          cloid
         }
       }
+      return { filledSize: 0, avgPrice: 0, cloid, error: orderStatus.type === 'error' ? orderStatus.error : 'Close order not filled' }
     } catch (error) {
-      console.warn('⚠️ Error in closePositionAtMarketPrice:', error)
-      try {
-        const currentPrices = await this.getCurrentPrices()
-        const fallbackPrice = currentPrices[position.asset]
-        if (fallbackPrice) {
-          console.log(`✅ Using fallback market price as exit: $${fallbackPrice}`)
-          return {
-            success: true,
-            exitPrice: fallbackPrice
-          }
-        }
-      } catch (fallbackError) {
-        console.warn('⚠️ Fallback price fetch also failed:', fallbackError)
-      }
-      const ultimateFallback = position.fillPrice || position.entryPrice || 50000
-      console.log(`✅ Using ultimate fallback price: $${ultimateFallback}`)
-      return {
-        success: true,
-        exitPrice: ultimateFallback
-      }
+      return { filledSize: 0, avgPrice: 0, cloid, error: error instanceof Error ? error.message : String(error) }
     }
   }
 
@@ -451,63 +966,17 @@ export class HyperliquidOrderService {
     try {
       console.log(`🔧 Setting ${asset} leverage to ${leverage}x (${isCross ? 'cross' : 'isolated'} margin)`)
       const assetConfig = await getAssetConfig(asset)
-      const maxLeverage = asset === 'BTC' ? 40 : asset === 'ETH' ? 25 : 50
-      if (leverage > maxLeverage) {
+      const leverageError = validateLeverage(asset, leverage, assetConfig.maxLeverage)
+      if (leverageError) {
         return {
           success: false,
-          error: `Maximum leverage for ${asset} is ${maxLeverage}x`
+          error: leverageError
         }
       }
-      const action = {
-        type: 'updateLeverage',
-        asset: assetConfig.assetId,
-        isCross: isCross,
-        leverage: leverage
-      }
-      const nonce = Date.now()
-      const agentWallet = hyperliquidAgent.getAgentWallet()
-      if (!agentWallet || !agentWallet.privateKey) {
-        throw new Error('Agent wallet not available for leverage setting')
-      }
-      const account = privateKeyToAccount(agentWallet.privateKey as `0x${string}`)
-      console.log('🔐 Signing leverage update...')
-      const signature = await signL1Action({
-        wallet: account,
-        action,
-        nonce,
-        isTestnet: this.useTestnet
-      })
-      console.log('✅ Leverage update signed')
-      const leverageRequest = { action, signature, nonce }
-      const response = await fetch(`${this.getApiUrl()}/exchange`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Accept': 'application/json'
-        },
-        body: JSON.stringify(leverageRequest)
-      })
-      const responseText = await response.text()
-      if (!response.ok) {
-        console.error('❌ Leverage update HTTP error:', response.status, responseText)
-        throw new Error(`HTTP ${response.status}: ${responseText}`)
-      }
-      let result
-      try {
-        result = JSON.parse(responseText)
-      } catch (parseError) {
-        console.log(parseError)
-        console.error('❌ Failed to parse leverage update response:', responseText)
-        throw new Error('Invalid JSON response from exchange')
-      }
-      console.log('📥 Leverage update response:', JSON.stringify(result, null, 2))
-      if (result.status === 'ok') {
-        console.log(`✅ Successfully set ${asset} leverage to ${leverage}x`)
-        return { success: true }
-      } else {
-        const errorMsg = result.error?.message || JSON.stringify(result)
-        throw new Error(`Leverage update failed: ${errorMsg}`)
-      }
+      // Only called after initializeAgent has loaded or created the agent
+      await exchangeClient.updateLeverage(hyperliquidAgent.getLoadedAgentWallet(), assetConfig.assetId, isCross, leverage)
+      console.log(`✅ Successfully set ${asset} leverage to ${leverage}x`)
+      return { success: true }
     } catch (error) {
       console.error('❌ Error setting asset leverage:', error)
       return {
@@ -516,6 +985,38 @@ export class HyperliquidOrderService {
       }
     }
   }
+
+  /**
+   * Move USDC into (or, with a negative amount, out of) an isolated position's margin,
+   * pushing its liquidation price away. Cross positions draw on the whole account already.
+   */
+  async updateIsolatedMargin(cloid: string, amountUsd: number): Promise<{ success: boolean; error?: string }> {
+    const position = this.activePositions.get(cloid)
+    if (!position || position.closed) {
+      return { success: false, error: `Position ${cloid} is not open` }
+    }
+    if (position.marginMode === 'cross') {
+      return { success: false, error: 'Cross margin positions use the whole account balance' }
+    }
+
+    try {
+      console.log(`🛟 ${amountUsd >= 0 ? 'Adding' : 'Removing'} $${Math.abs(amountUsd)} isolated margin for ${position.asset} (${cloid})`)
+      const assetConfig = await getAssetConfig(position.asset)
+      await exchangeClient.updateIsolatedMargin(
+        await this.agentFor(position.userAddress),
+        assetConfig.assetId,
+        position.direction === 'up',
+        Math.round(amountUsd * 1e6) // USDC with 6 decimals
+      )
+      return { success: true }
+    } catch (error) {
+      console.error('❌ Error updating isolated margin:', error)
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      }
+    }
+  }
   async placePredictionOrder(
     request: OrderRequest,
     signTypedDataAsync: SignTypedDataFunction,
@@ -554,11 +1055,37 @@ export class HyperliquidOrderService {
         console.log('❌ User account does not exist on Hyperliquid')
         return {
           success: false,
-          error: 'ACCOUNT_NOT_FOUND: Please deposit funds to Hyperliquid testnet first to create your account. Visit https://app.hyperliquid.xyz/?testnet=true'
+          error: `ACCOUNT_NOT_FOUND: Please deposit funds to Hyperliquid ${getNetworkConfig().network} first to create your account. Visit ${getNetworkConfig().depositUrl}`
         }
       }
       console.log('✅ User account exists, proceeding with order...')
+
+      const stake = request.stake ?? HyperliquidOrderService.DEFAULT_STAKE
+      const targetLeverage = request.leverage || 20
+      const stakeError = validateStake(stake, targetLeverage, parseFloat(accountCheck.balance?.withdrawable ?? '0'))
+      if (stakeError) {
+        console.error('❌', stakeError)
+        return {
+          success: false,
+          error: stakeError
+        }
+      }
       const address = userAddress.toLowerCase()
+      const nettingError = validateNetting(
+        request.asset,
+        request.direction,
+        targetLeverage,
+        request.marginMode ?? 'isolated',
+        this.getActivePositions().filter(p => p.userAddress === address)
+      )
+      if (nettingError) {
+        console.error('❌', nettingError)
+        return {
+          success: false,
+          error: nettingError
+        }
+      }
+      this.ensureUserFillStream(address)
       let agent: AgentWallet
       try {
         console.log('🔍 Initializing agent for user:', address)
@@ -579,12 +1106,11 @@ export class HyperliquidOrderService {
       }
 
       const assetConfig = await getAssetConfig(request.asset)
-      const targetLeverage = request.leverage || 20
       console.log(`🔧 STEP 1: Setting ${request.asset} leverage to ${targetLeverage}x`)
       const leverageResult = await this.setAssetLeverage(
         request.asset,
         targetLeverage,
-        false
+        request.marginMode === 'cross'
       )
       if (!leverageResult.success) {
         return {
@@ -594,18 +1120,43 @@ export class HyperliquidOrderService {
       }
       console.log(`✅ STEP 1 COMPLETE: ${request.asset} leverage set to ${targetLeverage}x`)
 
-      const expectedPositionValue = 10 * targetLeverage
-      // Apply dev mode aggressive pricing for opening positionsAdd commentMore actions
-      const adjustedPrice = this.applyDevModeAgressivePricing(request.price, true)
-      const orderPrice = formatPrice(adjustedPrice, assetConfig.szDecimals);
+      const expectedPositionValue = stake * targetLeverage
       const orderSize = calculateOrderSizeWithTrueLeverage(
         request.price, // Use original market price for size calculation
         assetConfig.szDecimals,
-        targetLeverage
+        targetLeverage,
+        stake
       )
-      const actualOrderValue = parseFloat(orderSize) * parseFloat(orderPrice);
+
+      // Price the IOC off the live book: expected fill from its depth, limit at the slippage bound
+      const isBuy = request.direction === 'up'
+      const maxSlippageBps = request.maxSlippageBps ?? DEFAULT_MAX_SLIPPAGE_BPS
+      const book = await hyperliquid.fetchL2Book(request.asset)
+      const fillEstimate = estimateFill(book, isBuy, parseFloat(orderSize), maxSlippageBps)
+      if (!fillEstimate) {
+        return {
+          success: false,
+          error: `No ${request.asset} order book to price against`
+        }
+      }
+      if (!fillEstimate.isFillable) {
+        return {
+          success: false,
+          error: `Not enough ${request.asset} liquidity within ${maxSlippageBps / 100}% slippage: ${fillEstimate.fillableSize} of ${orderSize} available`
+        }
+      }
+      console.log(`📐 Expected fill $${fillEstimate.expectedPrice} (${fillEstimate.expectedSlippageBps?.toFixed(1)} bps), limit $${fillEstimate.limitPrice}`)
+      const orderPrice = formatPrice(fillEstimate.limitPrice, assetConfig.szDecimals);
+      const slippage = (fillPrice?: number): SlippageRecord => ({
+        midPrice: fillEstimate.midPrice,
+        expectedPrice: fillEstimate.expectedPrice,
+        expectedSlippageBps: fillEstimate.expectedSlippageBps,
+        realizedSlippageBps: fillPrice ? slippageBps(isBuy, fillEstimate.midPrice, fillPrice) : null
+      })
+
+      const actualOrderValue = parseFloat(orderSize) * (fillEstimate.expectedPrice ?? request.price);
       console.log('💰 TRUE LEVERAGE ORDER SUMMARY:', {
-        marginUsed: `$${HyperliquidOrderService.MARGIN_AMOUNT}`,
+        marginUsed: `$${stake}`,
         leverage: `${targetLeverage}x`,
         expectedPositionValue: `$${expectedPositionValue}`,
         actualPositionValue: `$${actualOrderValue.toFixed(2)}`,
@@ -614,15 +1165,9 @@ export class HyperliquidOrderService {
         difference: `$${Math.abs(actualOrderValue - expectedPositionValue).toFixed(2)}`,
         accuracyPercentage: `${((actualOrderValue / expectedPositionValue) * 100).toFixed(1)}%`
       });
-      if (targetLeverage === 40) {
-        if (actualOrderValue < 380 || actualOrderValue > 420) {
-          console.warn(`⚠️ 40x leverage position $${actualOrderValue.toFixed(2)} is outside expected range $380-$420`)
-        } else {
-          console.log(`✅ 40x leverage position $${actualOrderValue.toFixed(2)} is within expected range!`)
-        }
-      }
-      if (targetLeverage === 40 && actualOrderValue < 35) {
-        console.warn(`⚠️ Position value $${actualOrderValue.toFixed(2)} is less than expected $40 for 40x leverage`)
+      // Size is floored to szDecimals, so coarse assets can land well short of the stake
+      if (Math.abs(actualOrderValue - expectedPositionValue) > expectedPositionValue * 0.05) {
+        console.warn(`⚠️ ${targetLeverage}x position $${actualOrderValue.toFixed(2)} is more than 5% off the expected $${expectedPositionValue}`)
       }
 
       const marketPrice = formatPrice(request.price, assetConfig.szDecimals)
@@ -633,7 +1178,7 @@ export class HyperliquidOrderService {
         direction: request.direction,
         marketPrice: marketPrice,
         orderPrice: orderPrice,
-        priceAdjustment: 'None (using market price)',
+        maxSlippageBps,
         finalOrderSize: orderSize,
         actualOrderValue: actualOrderValue,
         timeWindow: request.timeWindow,
@@ -641,172 +1186,111 @@ export class HyperliquidOrderService {
       })
 
       try {
-        const order = {
+        const order: OrderWire = {
           a: assetConfig.assetId,
-          b: request.direction === 'up',
-          p: orderPrice, // Use market price instead of aggressive price
+          b: isBuy,
+          p: orderPrice, // Worst price accepted: mid plus the slippage bound
           s: orderSize,
           r: false,
           t: { limit: { tif: 'Ioc' } },
           c: cloid,
         };
-        const action = {
-          type: 'order',
-          orders: [order],
-          grouping: 'na' as const
-        };
-        const nonce = Date.now();
-        console.log(`⏱️ Using timestamp as nonce: ${nonce}`);
+        const bracket = this.buildBracketOrders(request, assetConfig, orderSize, targetLeverage)
         console.log('📊 Market price limit order created:', JSON.stringify(order, null, 2));
         const agentWallet = await this.initializeAgent(address, signTypedDataAsync);
-        console.log('🔍 Signing market price order with agent...');
-        const account = privateKeyToAccount(agentWallet.privateKey as `0x${string}`);
-        const signature = await signL1Action({
-          wallet: account,
-          action,
-          nonce,
-          isTestnet: this.useTestnet
-        });
-        console.log('✅ Market price order signed with agent');
-        const exchangeRequest = { action, signature, nonce };
-        const response = await fetch(`${this.getApiUrl()}/exchange`, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            'Accept': 'application/json'
-          },
-          body: JSON.stringify(exchangeRequest),
-          credentials: 'same-origin' as RequestCredentials
-        })
-        const responseText = await response.text()
-        if (!response.ok) {
-          console.error('❌ Market price order request failed:', {
-            status: response.status,
-            statusText: response.statusText,
-            response: responseText
-          })
-          throw new Error(`HTTP ${response.status}: ${response.statusText}`)
+        this.orders.set(cloid, createOrder(cloid, request.asset, parseFloat(orderSize)))
+        const statuses = await exchangeClient.order(
+          agentWallet,
+          [order, ...bracket.orders],
+          bracket.orders.length > 0 ? 'normalTpsl' : 'na'
+        )
+        const orderStatus = statuses[0]
+        this.applyBracketStatuses(bracket.legs, statuses.slice(1))
+
+        const entry = await this.resolveEntryOrder(cloid, orderStatus, address)
+        if (entry.filledSize <= 0 || entry.avgFillPrice === undefined) {
+          // No position exists, so there is nothing to time or close: the round is void
+          this.orders.delete(cloid)
+          await this.cancelBracketLegs({ asset: request.asset, brackets: bracket.legs, userAddress: address })
+          const reason = entry.status === 'rejected' ? entry.error : 'Entry order did not fill'
+          console.error(`❌ Entry ${cloid} ${entry.status} with nothing filled:`, reason)
+          return {
+            success: false,
+            error: reason || 'Order not filled',
+            cloid,
+            order: entry,
+            voided: true
+          }
         }
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        let result: any
-        try {
-          result = JSON.parse(responseText)
-        } catch (e) {
-          console.log(e)
-          console.error('Failed to parse response:', responseText)
-          throw new Error('Invalid JSON response from exchange')
+
+        const fillPrice = entry.avgFillPrice
+        const fillSize = parseFloat(entry.filledSize.toFixed(8)).toString()
+        const fillTime = entry.firstFillAt ?? Date.now()
+        const orderId = String(orderStatus.type === 'filled' || orderStatus.type === 'resting' ? orderStatus.oid : entry.oid ?? '')
+        if (entry.filledSize + 1e-9 < entry.requestedSize) {
+          console.warn(`⚠️ Entry ${cloid} partially filled: ${fillSize} of ${orderSize} ${request.asset}`)
         }
-        console.log('📥 Received market price order response:', JSON.stringify(result, null, 2))
-        if (result.status !== 'ok') {
-          const errorMsg = result.error?.message || JSON.stringify(result)
-          console.error('Market price order failed with response:', errorMsg)
-          throw new Error(`Order failed: ${errorMsg}`)
+        console.log('📊 Fill details:', {
+          status: entry.status,
+          fillPrice,
+          fillSize,
+          orderId,
+          originalOrderSize: orderSize
+        })
+        const position: PositionInfo = {
+          orderId: orderId,
+          cloid: cloid,
+          userAddress: address,
+          asset: request.asset,
+          direction: request.direction,
+          entryPrice: fillPrice,
+          size: fillSize,
+          requestedSize: orderSize,
+          timestamp: fillTime,
+          timeWindow: request.timeWindow,
+          filled: true,
+          fillPrice: fillPrice,
+          brackets: bracket.legs,
+          ...this.roundContext(request, fillTime)
         }
+        this.activePositions.set(cloid, position)
+        this.applyFillsToPosition(cloid)
+        await this.attachProtectiveStop(position, assetConfig)
+        this.savePositions(address)
+        console.log('💾 Stored position:', {
+          cloid,
+          size: position.size,
+          entryPrice: position.entryPrice,
+          fillPrice: position.fillPrice
+        })
 
-        const orderStatus = result.response?.data?.statuses?.[0]
-        if (!orderStatus) {
-          console.error('No order status in response:', result)
-          throw new Error('No order status in response')
+        // MODIFIED: Schedule auto-close only if timeWindow > 0
+        if (request.timeWindow > 0) {
+          const remainingMs = Math.max(fillTime + request.timeWindow * 1000 - Date.now(), 0)
+          console.log(`⏰ Scheduling auto-close for ${cloid} in ${remainingMs / 1000} seconds`);
+          this.scheduleAutoClose(cloid, remainingMs);
+        } else {
+          console.log(`ℹ️ Auto-close NOT scheduled by service for ${cloid} as timeWindow is ${request.timeWindow}. GameTimer will manage closure.`);
         }
 
-        if (orderStatus.filled) {
-          console.log('✅ Market price order filled immediately:', orderStatus)
-          const fillData = orderStatus.filled
-          const fillPrice = parseFloat(fillData.avgPx || '0')
-          const fillSize = fillData.totalSz || orderSize
-          const orderId = fillData.oid
-          console.log('📊 Fill details:', {
-            fillPrice,
-            fillSize,
-            orderId,
-            originalOrderSize: orderSize
-          })
-          const position: PositionInfo = {
-            orderId: orderId,
-            cloid: cloid,
-            asset: request.asset,
-            direction: request.direction,
-            entryPrice: fillPrice,
-            size: fillSize,
-            timestamp: Date.now(),
-            timeWindow: request.timeWindow,
+        return {
+          success: true,
+          orderId: orderId,
+          cloid: cloid,
+          fillInfo: {
             filled: true,
-            fillPrice: fillPrice
-          }
-          this.activePositions.set(cloid, position)
-          console.log('💾 Stored position:', {
-            cloid,
-            size: position.size,
-            entryPrice: position.entryPrice,
-            fillPrice: position.fillPrice
-          })
-
-          // MODIFIED: Schedule auto-close only if timeWindow > 0
-          if (request.timeWindow > 0) {
-            console.log(`⏰ Scheduling auto-close for ${cloid} in ${request.timeWindow} seconds`);
-            this.scheduleAutoClose(cloid, request.timeWindow * 1000);
-          } else {
-            console.log(`ℹ️ Auto-close NOT scheduled by service for ${cloid} as timeWindow is ${request.timeWindow}. GameTimer will manage closure.`);
-          }
-
-          return {
-            success: true,
-            orderId: orderId,
-            cloid: cloid,
-            fillInfo: {
-              filled: true,
-              fillPrice: fillPrice,
-              fillSize: fillSize
-            }
-          }
-        } else if (orderStatus.resting) {
-          console.warn('⚠️ Market price order resting (might need better timing):', orderStatus)
-          const restingData = orderStatus.resting
-          const orderId = restingData.oid
-          const position: PositionInfo = {
-            orderId: orderId,
-            cloid: cloid,
-            asset: request.asset,
-            direction: request.direction,
-            entryPrice: parseFloat(orderPrice),
-            size: orderSize,
-            timestamp: Date.now(),
-            timeWindow: request.timeWindow,
-            filled: false
-          }
-          this.activePositions.set(cloid, position)
-          console.log('💾 Stored resting position:', {
-            cloid,
-            size: position.size,
-            entryPrice: position.entryPrice,
-            orderId: orderId
-          })
-          // MODIFIED: Schedule auto-cancel/close only if timeWindow > 0
-          if (request.timeWindow > 0) {
-            console.log(`⏰ Scheduling auto-cancel/close for resting order ${cloid} in ${request.timeWindow} seconds`);
-            this.scheduleAutoClose(cloid, request.timeWindow * 1000); // This should ideally attempt to cancel then close if filled.
-          } else {
-            console.log(`ℹ️ Auto-cancel/close NOT scheduled by service for resting order ${cloid} as timeWindow is ${request.timeWindow}.`);
-          }
-          return {
-            success: true,
-            orderId: orderId,
-            cloid: cloid,
-            fillInfo: {
-              filled: false
-            }
-          }
-        } else {
-          console.error('Market price order not filled:', orderStatus)
-          return {
-            success: false,
-            error: `Order not filled: ${JSON.stringify(orderStatus)}`,
-            orderId: orderStatus?.oid,
-            cloid: cloid
-          }
+            fillPrice: fillPrice,
+            fillSize: fillSize,
+            requestedSize: orderSize,
+            fillTime
+          },
+          brackets: bracket.legs,
+          order: entry,
+          slippage: slippage(fillPrice)
         }
       } catch (error) {
         console.error('Error in placePredictionOrder:', error)
+        this.orders.delete(cloid)
         return {
           success: false,
           error: error instanceof Error ? error.message : 'Unknown error',
@@ -826,6 +1310,9 @@ export class HyperliquidOrderService {
     unrealizedPnl: number
     returnOnEquity: number
     positionValue: number
+    marginMode: MarginMode
+    marginUsed: number
+    liquidationPx: number | null
   } | null> {
     try {
       const pnlData = await getRealTimePnL(userAddress)
@@ -835,7 +1322,10 @@ export class HyperliquidOrderService {
       return {
         unrealizedPnl: parseFloat(position.unrealizedPnl),
         returnOnEquity: parseFloat(position.returnOnEquity),
-        positionValue: parseFloat(position.positionValue)
+        positionValue: parseFloat(position.positionValue),
+        marginMode: position.marginMode,
+        marginUsed: parseFloat(position.marginUsed),
+        liquidationPx: position.liquidationPx !== null ? parseFloat(position.liquidationPx) : null
       }
     } catch (error) {
       console.error('Error fetching asset P&L:', error)
@@ -856,7 +1346,7 @@ export class HyperliquidOrderService {
       const testDomain = {
         name: 'Test',
         version: '1',
-        chainId: this.useTestnet ? 421614 : 42161,
+        chainId: getNetworkConfig().chain.id,
         verifyingContract: '0x0000000000000000000000000000000000000000'
       }
       const testTypes = {
@@ -885,13 +1375,12 @@ export class HyperliquidOrderService {
       throw new Error(`Account verification failed: ${error}`)
     }
 
-    let agent = hyperliquidAgent.loadAgent(userAddress)
+    let agent = await hyperliquidAgent.loadAgent(userAddress)
     if (!agent) {
       console.log('🔧 No agent found, creating new one...')
       agent = hyperliquidAgent.generateAgentWallet()
       console.log('✅ Generated new agent wallet:', agent.address)
-      hyperliquidAgent.saveAgent(userAddress)
-      console.log('✅ Saved unapproved agent to localStorage')
+      await hyperliquidAgent.saveAgent(userAddress)
     } else {
       console.log('✅ Found existing agent:', agent.address, 'Approved:', agent.isApproved)
     }
@@ -911,8 +1400,7 @@ export class HyperliquidOrderService {
         throw new Error(approvalResult.error || 'Failed to approve agent wallet')
       }
       console.log('✅ Agent approved successfully!')
-      hyperliquidAgent.saveAgent(userAddress)
-      console.log('✅ Saved approved agent to localStorage')
+      await hyperliquidAgent.saveAgent(userAddress)
     } else {
       console.log('✅ Using existing approved agent:', agent.address)
     }
@@ -941,48 +1429,14 @@ export class HyperliquidOrderService {
   ): Promise<boolean> {
     try {
       const assetConfig = await getAssetConfig(asset)
-      const action = {
-        type: 'cancel',
-        cancels: [{
-          a: assetConfig.assetId,
-          o: parseInt(orderId)
-        }]
-      }
-      const nonce = Date.now()
-      // Assuming agent is initialized and can sign.
-      // signL1ActionWithAgent might need userAddress if vaultAddress is different from agent's direct control.
-      // For simplicity, using the agent's own signing capability demonstrated in other methods.
-      const agentWallet = hyperliquidAgent.getAgentWallet()
-      if (!agentWallet || !agentWallet.privateKey) {
-        throw new Error('Agent wallet not available for cancelling order')
-      }
-      const account = privateKeyToAccount(agentWallet.privateKey as `0x${string}`)
-      const signature = await signL1Action({
-        wallet: account,
-        action,
-        nonce,
-        isTestnet: this.useTestnet,
-        // vaultAddress: userAddress.toLowerCase() // Include if action needs to be associated with a vault
-      });
-
-      const cancelRequest = {
-        action: action,
-        nonce: nonce,
-        signature: signature,
-        // vaultAddress: userAddress.toLowerCase() // If needed by backend
-      }
-      const response = await fetch(`${this.getApiUrl()}/exchange`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(cancelRequest)
-      })
-      if (!response.ok) {
-        throw new Error(`HTTP ${response.status}: ${response.statusText}`)
+      const [cancelStatus] = await exchangeClient.cancel(hyperliquidAgent.getLoadedAgentWallet(), [{
+        a: assetConfig.assetId,
+        o: parseInt(orderId)
+      }])
+      if (cancelStatus.type === 'error') {
+        console.warn(`⚠️ Cancel of ${asset} order ${orderId} rejected:`, cancelStatus.error)
       }
-      const result = await response.json()
-      return result.status === 'ok'
+      return cancelStatus.type === 'success'
     } catch (error) {
       console.error('Order cancellation failed:', error)
       return false
@@ -993,51 +1447,36 @@ export class HyperliquidOrderService {
     return new Promise((resolve) => {
       const prices: { [asset: string]: number } = {};
       let resolved = false;
-      let unsubscribed = false; // Flag to prevent multiple unsubscribes
+
+      const finish = () => {
+        if (resolved) return;
+        resolved = true;
+        clearTimeout(timeoutId);
+        unsubscribe();
+        resolve(prices);
+      };
 
       const handlePriceUpdate = (priceData: { [symbol: string]: string }) => {
-        if (resolved || unsubscribed) return;
+        if (resolved) return;
 
         for (const [symbol, priceStr] of Object.entries(priceData)) {
           prices[symbol] = parseFloat(priceStr);
         }
 
         // Resolve if we have at least one price.
-        // The HyperliquidService now handles its own subscription management,
-        // so this temporary subscription is fine.
         if (Object.keys(prices).length > 0) {
-          resolved = true;
-          if (!unsubscribed) {
-            // CORRECTED CALL: No arguments
-            hyperliquid.unsubscribeFromAllMids();
-            unsubscribed = true;
-          }
-          resolve(prices);
+          finish();
         }
       };
-      // subscribeToAllMids returns an unsubscribe function, which we should call.
-      // However, your HyperliquidService manages subscriptions more centrally.
-      // For this specific use case of getting current prices once,
-      // we subscribe, get data, and then explicitly unsubscribe.
-      // The `subscribeToAllMids` method in your `HyperliquidService`
-      // already returns an unsubscribe function. Let's use that for cleaner code.
 
+      // Listener-scoped subscription: leaving only removes this listener,
+      // so usePriceData and other allMids consumers keep receiving updates.
       const unsubscribe = hyperliquid.subscribeToAllMids(handlePriceUpdate);
-
-      setTimeout(() => {
-        if (resolved || unsubscribed) return;
-        resolved = true; // Mark as resolved to stop further processing by handlePriceUpdate
-        if (!unsubscribed) {
-          // CORRECTED CALL: Call the function returned by subscribeToAllMids
-          unsubscribe();
-          unsubscribed = true;
-        }
-        resolve(prices); // Resolve with whatever was gathered
-      }, 2000); // Timeout for getting prices
+      const timeoutId = setTimeout(finish, 2000); // Timeout for getting prices
     });
   }
 
-  onPositionResult(cloid: string, callback: (result: 'win' | 'loss', exitPrice: number) => void): void {
+  onPositionResult(cloid: string, callback: (result: 'win' | 'loss', exitPrice: number, pnl?: PnLBreakdown) => void): void {
     this.positionCallbacks.set(cloid, callback)
   }
 
@@ -1050,18 +1489,129 @@ export class HyperliquidOrderService {
   }
 
   clearCompletedPositions(): void {
+    const users = new Set<string | undefined>()
     for (const [cloid, position] of this.activePositions.entries()) {
       if (position.closed) {
         this.activePositions.delete(cloid)
         this.positionCallbacks.delete(cloid) // Also clear callbacks for closed positions
         this.autoCloseTimeouts.delete(cloid) // And any lingering timeouts
+        this.fillsByCloid.delete(cloid)
+        users.add(position.userAddress)
       }
     }
+    users.forEach(user => this.savePositions(user))
     console.log('🧹 Cleared completed positions from tracking.');
   }
 
-  setNetwork(useTestnet: boolean): void {
-    this.useTestnet = useTestnet
+  private roundContext(request: OrderRequest, startedAt: number): Pick<PositionInfo, 'deadline' | 'leverage' | 'gameId' | 'endRoundOnBracket' | 'marginMode'> {
+    const roundSeconds = request.roundDuration || request.timeWindow
+    return {
+      deadline: roundSeconds > 0 ? startedAt + roundSeconds * 1000 : undefined,
+      leverage: request.leverage,
+      gameId: request.gameId,
+      endRoundOnBracket: request.endRoundOnBracket,
+      marginMode: request.marginMode ?? 'isolated'
+    }
+  }
+
+  private storageKey(userAddress: string): string {
+    return `hyperliquid_positions_${userAddress.toLowerCase()}_${getNetworkConfig().network}`
+  }
+
+  /**
+   * Persist a user's open positions (per network) so a reload doesn't orphan them
+   */
+  private savePositions(userAddress?: string): void {
+    if (!userAddress || typeof window === 'undefined') return
+
+    const address = userAddress.toLowerCase()
+    const positions = Array.from(this.activePositions.values())
+      .filter(p => p.userAddress?.toLowerCase() === address && !p.closed)
+
+    try {
+      if (positions.length === 0) {
+        localStorage.removeItem(this.storageKey(address))
+      } else {
+        localStorage.setItem(this.storageKey(address), JSON.stringify(positions))
+      }
+    } catch (error) {
+      console.error('❌ Failed to persist positions:', error)
+    }
+  }
+
+  /**
+   * Rehydrate positions saved before a reload and keep only those the exchange still
+   * has open. Positions that are gone on-chain were closed while the page was away.
+   */
+  async restorePositions(userAddress: string): Promise<PositionInfo[]> {
+    if (typeof window === 'undefined') return []
+    const address = userAddress.toLowerCase()
+
+    let saved: PositionInfo[] = []
+    try {
+      saved = JSON.parse(localStorage.getItem(this.storageKey(address)) || '[]')
+    } catch (error) {
+      console.error('❌ Failed to read persisted positions:', error)
+      return []
+    }
+
+    const restored = saved.filter(p => p.cloid && !this.activePositions.has(p.cloid))
+    if (restored.length === 0) return this.getActivePositions().filter(p => p.userAddress?.toLowerCase() === address)
+
+    // Restored rounds past their deadline close right away: their agent must be decrypted first
+    await this.agentFor(address)
+
+    this.ensureUserFillStream(address)
+    for (const position of restored) {
+      this.activePositions.set(position.cloid, { ...position, userAddress: address })
+    }
+
+    const pnlData = await getRealTimePnL(address)
+    if (pnlData) {
+      // Oldest first, each against the rounds still tracked: when the exchange holds less than
+      // the rounds on a side add up to, the older ones (more likely stopped out) are dropped
+      for (const position of [...restored].sort((a, b) => a.timestamp - b.timestamp)) {
+        const onChainSize = this.ownOpenSizeFor(position, pnlData)
+        const tracked = this.activePositions.get(position.cloid)
+        if (!tracked) continue
+        if (onChainSize === 0 && tracked.filled) {
+          console.warn(`⚠️ Restored position ${position.cloid} is no longer open on the exchange, dropping it`)
+          this.activePositions.delete(position.cloid)
+        } else if (onChainSize > 0 && !tracked.filled) {
+          // Resting entry filled while the page was away
+          tracked.filled = true
+          tracked.size = onChainSize.toString()
+        }
+      }
+    } else {
+      console.warn('⚠️ Could not reconcile restored positions against the exchange, keeping all of them')
+    }
+
+    this.savePositions(address)
+    const live = this.getActivePositions().filter(p => p.userAddress?.toLowerCase() === address)
+    console.log(`♻️ Restored ${live.length} position(s) for ${address}`)
+    return live
+  }
+
+  /**
+   * Positions only exist on the network they were opened on, so a switch is refused
+   * while any are still open. Otherwise drop all tracking state and the fill stream.
+   */
+  resetForNetworkChange(): void {
+    const openPositions = Array.from(this.activePositions.values()).filter(p => !p.closed)
+    if (openPositions.length > 0) {
+      throw new Error(`Close ${openPositions.length} active position(s) before switching network`)
+    }
+
+    this.autoCloseTimeouts.forEach(timeout => clearTimeout(timeout))
+    this.autoCloseTimeouts.clear()
+    this.activePositions.clear()
+    this.positionCallbacks.clear()
+    this.fillsByCloid.clear()
+    this.orders.clear()
+    this.userFillsUnsubscribe?.()
+    this.userFillsUnsubscribe = null
+    this.userFillsAddress = null
   }
 }
-export const hyperliquidOrders = new HyperliquidOrderService(process.env.NEXT_PUBLIC_IS_TESTNET === 'true')
\ No newline at end of file
+export const hyperliquidOrders = new HyperliquidOrderService()
\ No newline at end of file
@@ -0,0 +1,184 @@
+// src/services/positionReconciler.ts
+import { OpenOrder } from './hyperliquid'
+import { hyperliquidOrders, PositionInfo } from './hyperliquidOrders'
+import { getOpenOrders, getRealTimePnL } from '@/lib/utils'
+
+export type DriftKind =
+  | 'unknown_position' // Open on the exchange, not tracked by the game
+  | 'missing_position' // Tracked by the game, gone from the exchange
+  | 'size_mismatch' // Both sides know the asset but disagree on size or side
+  | 'stuck_order' // Resting order that should have filled or been cancelled by now
+
+export interface PositionDrift {
+  id: string
+  kind: DriftKind
+  asset: string
+  description: string
+  localSize: number // Signed: long > 0, short < 0
+  onChainSize: number // Signed
+  entryPrice?: number // On-chain entry, when there is a position
+  cloids: string[] // Tracked positions involved
+  order?: OpenOrder
+}
+
+export interface ReconciliationReport {
+  userAddress: string
+  drifts: PositionDrift[]
+  checkedAt: number
+}
+
+export interface ReconciliationActionResult {
+  success: boolean
+  error?: string
+  position?: PositionInfo // Set when a position was adopted
+}
+
+const signedSize = (position: PositionInfo): number =>
+  (position.direction === 'up' ? 1 : -1) * (parseFloat(position.size) || 0)
+
+const formatSigned = (size: number): string =>
+  `${size > 0 ? 'long ' : size < 0 ? 'short ' : ''}${parseFloat(Math.abs(size).toFixed(8))}`
+
+export class PositionReconciler {
+  // Fresh positions may not show up in clearinghouseState yet
+  private static readonly GRACE_PERIOD_MS = 5000
+  // Entries are IOC, so anything resting this long is stuck
+  private static readonly STUCK_ORDER_MS = 30000
+  private static readonly SIZE_TOLERANCE = 1e-8
+
+  /**
+   * Diff the positions the game tracks for a user against clearinghouseState and openOrders.
+   * Throws when the exchange state can't be loaded, so a failed check never reads as "in sync".
+   */
+  async reconcile(userAddress: string): Promise<ReconciliationReport> {
+    const address = userAddress.toLowerCase()
+    const [pnlData, openOrders] = await Promise.all([getRealTimePnL(address), getOpenOrders(address)])
+    if (!pnlData || !openOrders) {
+      throw new Error('Could not load exchange state for reconciliation')
+    }
+
+    const now = Date.now()
+    const tracked = hyperliquidOrders.getActivePositions().filter(p => p.userAddress?.toLowerCase() === address)
+    const isSettling = (asset: string) =>
+      tracked.some(p => p.asset === asset && now - p.timestamp < PositionReconciler.GRACE_PERIOD_MS)
+    const drifts: PositionDrift[] = []
+
+    const assets = new Set([
+      ...tracked.filter(p => p.filled).map(p => p.asset),
+      ...pnlData.positions.map(p => p.asset)
+    ])
+    for (const asset of assets) {
+      if (isSettling(asset)) continue
+
+      const local = tracked.filter(p => p.asset === asset && p.filled)
+      const localSize = local.reduce((sum, p) => sum + signedSize(p), 0)
+      const onChain = pnlData.positions.find(p => p.asset === asset)
+      const onChainSize = onChain ? parseFloat(onChain.size) : 0
+      if (Math.abs(localSize - onChainSize) <= PositionReconciler.SIZE_TOLERANCE) continue
+
+      const drift = {
+        id: `${asset}-position`,
+        asset,
+        localSize,
+        onChainSize,
+        entryPrice: onChain ? parseFloat(onChain.entryPx) : undefined,
+        cloids: local.map(p => p.cloid)
+      }
+      if (local.length === 0) {
+        drifts.push({ ...drift, kind: 'unknown_position', description: `${formatSigned(onChainSize)} ${asset} is open on the exchange but not tracked by the game` })
+      } else if (onChainSize === 0) {
+        drifts.push({ ...drift, kind: 'missing_position', description: `Tracked ${formatSigned(localSize)} ${asset} is no longer open on the exchange` })
+      } else {
+        drifts.push({ ...drift, kind: 'size_mismatch', description: `Tracking ${formatSigned(localSize)} ${asset} but the exchange holds ${formatSigned(onChainSize)}` })
+      }
+    }
+
+    // Entries that neither rest nor filled were cancelled or expired on the exchange
+    const restingCloids = new Set(openOrders.map(o => o.cloid).filter(Boolean))
+    for (const position of tracked) {
+      if (position.filled || restingCloids.has(position.cloid) || isSettling(position.asset)) continue
+      if (drifts.some(d => d.asset === position.asset)) continue
+      drifts.push({
+        id: `${position.cloid}-entry`,
+        kind: 'missing_position',
+        asset: position.asset,
+        description: `Entry order for ${position.asset} is no longer resting and never filled`,
+        localSize: 0,
+        onChainSize: 0,
+        cloids: [position.cloid]
+      })
+    }
+
+    // TP/SL legs rest for the life of their round
+    const bracketCloids = new Set(tracked.flatMap(p => Object.values(p.brackets ?? {}).map(leg => leg.cloid)))
+    for (const order of openOrders) {
+      const age = now - order.timestamp
+      if (age < PositionReconciler.STUCK_ORDER_MS || (order.cloid && bracketCloids.has(order.cloid))) continue
+      drifts.push({
+        id: `order-${order.oid}`,
+        kind: 'stuck_order',
+        asset: order.coin,
+        description: `${order.side === 'B' ? 'Buy' : 'Sell'} ${order.sz} ${order.coin} @ ${order.limitPx} has been resting for ${Math.round(age / 1000)}s`,
+        localSize: 0,
+        onChainSize: 0,
+        cloids: tracked.filter(p => p.cloid === order.cloid).map(p => p.cloid),
+        order
+      })
+    }
+
+    if (drifts.length > 0) {
+      console.warn(`⚠️ Reconciliation found ${drifts.length} drift(s) for ${address}:`, drifts.map(d => d.description))
+    }
+    return { userAddress: address, drifts, checkedAt: now }
+  }
+
+  /**
+   * Bring the exchange and the game to flat for this drift: close on-chain positions,
+   * cancel stuck orders, and drop tracked records that no longer exist.
+   */
+  async flatten(userAddress: string, drift: PositionDrift): Promise<ReconciliationActionResult> {
+    try {
+      switch (drift.kind) {
+        case 'stuck_order': {
+          if (!drift.order) return { success: false, error: 'No order to cancel' }
+          const cancelled = await hyperliquidOrders.cancelOrder(drift.asset, drift.order.oid.toString())
+          if (!cancelled) return { success: false, error: `Could not cancel order ${drift.order.oid}` }
+          drift.cloids.forEach(cloid => hyperliquidOrders.forgetPosition(cloid))
+          return { success: true }
+        }
+        case 'missing_position':
+          // Nothing open on the exchange; only the stale records go
+          drift.cloids.forEach(cloid => hyperliquidOrders.forgetPosition(cloid))
+          return { success: true }
+        case 'unknown_position':
+        case 'size_mismatch': {
+          const result = await hyperliquidOrders.flattenAsset(userAddress, drift.asset, drift.onChainSize > 0 ? 'up' : 'down')
+          if (!result.success) return { success: false, error: result.error || `Close ${result.status}` }
+          // Whatever flattenAsset didn't settle is stale
+          drift.cloids.forEach(cloid => hyperliquidOrders.forgetPosition(cloid))
+          return { success: true }
+        }
+      }
+    } catch (error) {
+      console.error('❌ Flatten failed:', error)
+      return { success: false, error: error instanceof Error ? error.message : String(error) }
+    }
+  }
+
+  /**
+   * Take the exchange's position in the drifted asset into the game as a round
+   */
+  adopt(userAddress: string, drift: PositionDrift, roundDuration: number): ReconciliationActionResult {
+    if (drift.kind !== 'unknown_position' && drift.kind !== 'size_mismatch') {
+      return { success: false, error: 'Only open exchange positions can be adopted' }
+    }
+    if (drift.onChainSize === 0 || drift.entryPrice === undefined) {
+      return { success: false, error: `No ${drift.asset} position on the exchange` }
+    }
+
+    const position = hyperliquidOrders.adoptPosition(userAddress, drift.asset, drift.onChainSize, drift.entryPrice, roundDuration)
+    return { success: true, position }
+  }
+}
+
+export const positionReconciler = new PositionReconciler()